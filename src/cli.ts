@@ -2,101 +2,344 @@
 // Ne pas retirer : c'est une directive pour Node.js 
 // Permet d'exécuter ce fichier sans préciser "node" dans le terminal.
 
-import { Command } from 'commander';
+import { Argument, Command, Option } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs-extra';
 import { createCommand } from './commands/create.js';
-import { configCommand } from './commands/config.js';
+import {
+  configCommand,
+  configGetCommand,
+  configListCommand,
+  configSetCommand,
+  configUnsetCommand,
+} from './commands/config.js';
 import { buildCommand } from './commands/build.js';
 import { cleanCommand } from './commands/clean.js';
 import { monitorCommand } from './commands/monitor.js';
 import { helpersCommand } from './commands/helpers.js';
 import { doctorCommand } from './commands/doctor.js';
-import { credentialsCommand } from './commands/credentials.js';
-import { templateCommand } from './commands/template.js';
+import {
+  credentialsCommand,
+  credentialsListCommand,
+  credentialsLockCommand,
+  credentialsRemoveCommand,
+  credentialsRevokeCommand,
+  credentialsRotateCommand,
+  credentialsShowCommand,
+  credentialsUnlockCommand,
+  credentialsUseCommand,
+  credentialsVerifyCommand,
+} from './commands/credentials.js';
+import {
+  templateCacheListCommand,
+  templateCachePruneCommand,
+  templateCommand,
+  templateVersionsCommand,
+} from './commands/template.js';
 import { deployCommand } from './commands/deploy.js';
 import { devRunCommand } from './commands/dev-run.js';
 import { log } from 'console';
 import { loginCommand } from './commands/login.js';
+import { homeCommand } from './commands/home.js';
+import { completionCommand, completeCommand } from './commands/completion.js';
+import { COMPLETION_SHELLS } from './services/completion-service.js';
+import { setGlobalOptions } from './utils/cli-context.js';
+import type { GlobalOptions } from './types/cli-options.js';
+import { isJsonMode, printJson } from './utils/output-utils.js';
+import { CLI_VERSION } from './utils/version-utils.js';
+import { AppWizardError, ExitCode, UsageError } from './errors/app-wizard-errors.js';
+import { ProjectService } from './services/project-service.js';
+import { logger } from './services/logger-service.js';
+import { ConfigService } from './services/config-service.js';
+import { PluginService } from './services/plugin-service.js';
+import { ProfileService } from './services/profile-service.js';
+import { LOCALES, resolveLocale, setLocale, t } from './i18n/index.js';
 
+/**
+ * Recherche la valeur d'une option dans les arguments bruts (`--lang en` ou `--lang=en`).
+ * @param argv Arguments de la ligne de commande.
+ * @param flag Nom de l'option (`--lang`, `--cwd`).
+ */
+function findFlagValue(argv: string[], flag: string): string | undefined {
+  const index = argv.findIndex(arg => arg === flag || arg.startsWith(`${flag}=`));
+  if (index === -1) {
+    return undefined;
+  }
+  return argv[index].includes('=') ? argv[index].split('=')[1] : argv[index + 1];
+}
+
+// Le projet et la langue doivent être connus avant la déclaration des commandes
+// (plugins du projet, traduction de l'aide)
+const cwdFlag = findFlagValue(process.argv, '--cwd');
+if (cwdFlag && fs.existsSync(cwdFlag)) {
+  ProjectService.setWorkingDirectory(cwdFlag);
+}
+setLocale(resolveLocale(findFlagValue(process.argv, '--lang'), new ConfigService().getLangSync()));
 
 const program = new Command();
 
 program
   .name('appwizard')
-  .description('🧙‍♂️ CLI pour gérer efficacement votre projet NestJS/Angular.')
-  .version('0.0.1', '-v, --version', 'Affiche la version actuelle du CLI');
+  .description(t('cli.description'))
+  .version(CLI_VERSION, '-v, --version', t('cli.option.version'))
+  .helpOption('-h, --help', t('cli.option.help'))
+  .option('--json', t('cli.option.json'))
+  .addOption(new Option('--verbose', t('cli.option.verbose')).conflicts('quiet'))
+  .option('--quiet', t('cli.option.quiet'))
+  .option('--log-file <path>', t('cli.option.logFile'))
+  .option('--dry-run', t('cli.option.dryRun'))
+  .option('--cwd <dir>', t('cli.option.cwd'))
+  .addOption(new Option('--lang <lang>', t('cli.option.lang')).choices(LOCALES))
+  .option('--profile <name>', t('cli.option.profile'))
+  .option('--credentials-file <path>', t('cli.option.credentialsFile'))
+  .option('-c, --config <key=value>', t('cli.option.config'), (value: string, previous: string[]) => [...previous, value], [] as string[])
+  // erreurs d'analyse de commander (option inconnue, argument manquant…) : code d'usage ;
+  // réglage hérité par les commandes déclarées ensuite, `--help`/`--version` gardent 0
+  .exitOverride(error => process.exit(error.exitCode === 0 ? 0 : ExitCode.Usage));
+
+// Options globales, disponibles pour toutes les commandes
+program.hook('preAction', (rootCommand) => {
+  const options = rootCommand.opts<GlobalOptions>();
+  setGlobalOptions(options);
+  if (options.cwd) {
+    if (!fs.existsSync(options.cwd)) {
+      throw new UsageError(t('cli.error.cwdNotFound', { dir: options.cwd }));
+    }
+    ProjectService.setWorkingDirectory(options.cwd);
+  }
+  setLocale(resolveLocale(options.lang, new ConfigService().getLangSync()));
+  ProfileService.setActiveProfile(options.profile);
+  ConfigService.parseOverrides(options.config);
+  if (options.logFile) {
+    try {
+      fs.closeSync(fs.openSync(options.logFile, 'a'));
+    } catch (error) {
+      throw new UsageError(t('cli.error.logFile', { file: options.logFile, detail: (error as Error).message }));
+    }
+  }
+  logger.configure({
+    level:   options.verbose ? 'debug' : options.quiet ? 'warn' : 'info',
+    logFile: options.logFile,
+  });
+  if (options.dryRun) {
+    logger.info(chalk.cyan(t('cli.dryRunBanner')));
+  }
+});
+
+// Sans commande : menu principal interactif
+program
+  .allowExcessArguments()
+  .action(async () => {
+    if (program.args.length > 0) {
+      program.error(`error: unknown command '${program.args[0]}'`, { exitCode: ExitCode.Usage });
+    }
+    await homeCommand();
+  });
 
 // Commande "login"
 program
   .command('login')
-  .description('🔑 Authentification et gestion des credentials utilisateur.')
+  .description(t('cli.cmd.login'))
+  .option('--from-env', t('cli.login.fromEnv'))
   .action(loginCommand);
 
 // Commande "create"
 program
   .command('create')
-  .description('✨ Crée un nouveau projet à partir du template officiel.')
+  .description(t('cli.cmd.create'))
+  .option('--template <id>', t('cli.create.template'))
+  .option('--template-version <version>', t('cli.create.templateVersion'))
+  .option('--offline', t('cli.create.offline'))
   .action(createCommand);
 
 // Commande "config"
-program
+const config = program
   .command('config')
-  .description('⚙️  Affiche et permet de modifier la configuration du projet.')
+  .description(t('cli.cmd.config'))
   .action(configCommand);
 
+config
+  .command('get')
+  .description(t('cli.config.get'))
+  .addArgument(new Argument('<key>', t('cli.config.key')).choices(ConfigService.keys()))
+  .option('--show-origin', t('cli.config.showOrigin'))
+  .action(configGetCommand);
+
+config
+  .command('set')
+  .description(t('cli.config.set'))
+  .addArgument(new Argument('<key>', t('cli.config.key')).choices(ConfigService.keys()))
+  .argument('<value>', t('cli.config.value'))
+  .option('--project', t('cli.config.project'))
+  .action(configSetCommand);
+
+config
+  .command('unset')
+  .description(t('cli.config.unset'))
+  .addArgument(new Argument('<key>', t('cli.config.key')).choices(ConfigService.keys()))
+  .option('--project', t('cli.config.project'))
+  .action(configUnsetCommand);
+
+config
+  .command('list')
+  .description(t('cli.config.list'))
+  .option('--show-origin', t('cli.config.showOrigin'))
+  .action(configListCommand);
+
 // Commande "build"
 program
   .command('build')
-  .description('🚧 Lance le processus de build (menu interactif par défaut).')
+  .description(t('cli.cmd.build'))
+  .addOption(new Option('--env <env>', t('cli.build.env')).choices(['dev', 'prod']))
+  .addOption(new Option('--clean <mode>', t('cli.build.clean')).choices(['none', 'normal', 'forced']))
+  .option('-y, --yes', t('cli.build.yes'))
   .action(buildCommand);
 
 // Commande "dev run"
 program
   .command('dev-run')
-  .description('🏃‍♂️ Lance les conteneurs Docker en mode développement.')
+  .description(t('cli.cmd.devRun'))
+  .option('--build', t('cli.devRun.build'))
+  .option('--no-build', t('cli.devRun.noBuild'))
+  .addOption(new Option('--clean <mode>', t('cli.devRun.clean')).choices(['none', 'normal', 'forced']))
   .action(devRunCommand);
 
 // Commande "deploy"
 program
   .command('deploy')
-  .description('🚀 Déploie le projet (menu interactif par défaut).')
+  .description(t('cli.cmd.deploy'))
+  .option('-y, --yes', t('cli.deploy.yes'))
   .action(deployCommand);
 
 // Commande "clean"
 program
   .command('clean')
-  .description('🧹 Lance le nettoyage du projet (menu interactif par défaut).')
+  .description(t('cli.cmd.clean'))
+  .addOption(new Option('--mode <mode>', t('cli.clean.mode')).choices(['normal', 'forced']))
   .action(cleanCommand);
 
 // Commande "monitor"
 program
   .command('monitor')
-  .description('📈 Surveille les conteneurs Docker et permet de les gérer.')
+  .description(t('cli.cmd.monitor'))
+  .addArgument(new Argument('[action]', t('cli.monitor.action')).choices(['restart', 'rebuild', 'stop', 'logs', 'inspect']))
+  .argument('[service]', t('cli.monitor.service'))
   .action(monitorCommand);
 
 // Commande "helpers"
 program
   .command('helpers')
-  .description('🔧 Outils d’aide et de réparation du projet.')
+  .description(t('cli.cmd.helpers'))
   .action(helpersCommand);
 
 // Commande "doctor"
 program
   .command('doctor')
-  .description('🩺 Vérifie que tous les prérequis techniques sont satisfaits.')
+  .description(t('cli.cmd.doctor'))
   .action(doctorCommand);
 
 // Commande "remove credentials"
-program
+const credentials = program
   .command('credentials')
-  .description('🔑 Utilitaire pour les credentials utilisateur.')
+  .description(t('cli.cmd.credentials'))
   .action(credentialsCommand);
 
+credentials
+  .command('lock')
+  .description(t('cli.credentials.lock'))
+  .action(credentialsLockCommand);
+
+credentials
+  .command('unlock')
+  .description(t('cli.credentials.unlock'))
+  .action(credentialsUnlockCommand);
+
+credentials
+  .command('show')
+  .description(t('cli.credentials.show'))
+  .action(credentialsShowCommand);
+
+credentials
+  .command('verify')
+  .description(t('cli.credentials.verify'))
+  .action(credentialsVerifyCommand);
+
+credentials
+  .command('list')
+  .description(t('cli.credentials.list'))
+  .option('--remote', t('cli.credentials.remote'))
+  .action(credentialsListCommand);
+
+credentials
+  .command('rotate')
+  .description(t('cli.credentials.rotate'))
+  .action(credentialsRotateCommand);
+
+credentials
+  .command('revoke')
+  .description(t('cli.credentials.revoke'))
+  .argument('[clientId]', t('cli.credentials.clientId'))
+  .option('-y, --yes', t('cli.credentials.revokeYes'))
+  .action(credentialsRevokeCommand);
+
+credentials
+  .command('use')
+  .description(t('cli.credentials.use'))
+  .argument('<profile>', t('cli.credentials.profile'))
+  .action(credentialsUseCommand);
+
+credentials
+  .command('remove')
+  .description(t('cli.credentials.remove'))
+  .argument('<profile>', t('cli.credentials.profile'))
+  .option('-y, --yes', t('cli.credentials.yes'))
+  .action(credentialsRemoveCommand);
+
 // Commande en liens avec les infos du template
-program
+const template = program
   .command('template')
-  .description('📄 Affiche les informations du template et le listing des services.')
+  .description(t('cli.cmd.template'))
   .action(templateCommand);
 
+template
+  .command('versions')
+  .description(t('cli.template.versions'))
+  .argument('<template>', t('cli.template.id'))
+  .action(templateVersionsCommand);
+
+const templateCache = template
+  .command('cache')
+  .description(t('cli.template.cache'));
+
+templateCache
+  .command('list')
+  .description(t('cli.template.cacheList'))
+  .action(templateCacheListCommand);
+
+templateCache
+  .command('prune')
+  .description(t('cli.template.cachePrune'))
+  .option('--keep <n>', t('cli.template.keep'))
+  .option('--all', t('cli.template.all'))
+  .action(templateCachePruneCommand);
+
+// Commande "completion" : script de complétion du shell
+program
+  .command('completion')
+  .description(t('cli.cmd.completion'))
+  .addArgument(new Argument('<shell>', t('cli.completion.shell')).choices(COMPLETION_SHELLS))
+  .addHelpText('after', `\n${t('cli.completion.install')}`)
+  .action((shell) => completionCommand(program, shell));
+
+// Commande cachée appelée par les scripts de complétion
+program
+  .command('__complete', { hidden: true })
+  .argument('[words...]')
+  .action((words: string[]) => completeCommand(program, words));
+
+// Commandes fournies par les plugins du projet
+await PluginService.loadPlugins(program);
+
 // Personnalisation du message d'aide général
 program.configureHelp({
   sortSubcommands: true,
@@ -104,10 +347,60 @@ program.configureHelp({
 });
 
 program.addHelpText('after', `
-Exemples d'utilisation:
+${t('cli.examples')}
+  $ appwizard                  ${t('cli.examples.home')}
   $ appwizard create
   $ appwizard build
   $ appwizard doctor
+  $ appwizard build --env prod --clean forced --yes
+  $ appwizard clean --mode normal
+  $ appwizard dev-run --no-build
+  $ appwizard doctor --json
+  $ appwizard clean --mode forced --dry-run
+  $ appwizard --cwd ./mon-projet build --env dev --clean none
+  $ appwizard --lang en doctor
+  $ appwizard monitor logs api
+  $ appwizard create --template <id>
+  $ appwizard completion bash
+  $ appwizard credentials lock
+  $ appwizard login --profile staging
+  $ appwizard credentials use staging
+  $ appwizard credentials verify
+  $ appwizard credentials rotate
+  $ appwizard config set endpoints.backendUrl https://api.example.com
+  $ appwizard config list --show-origin
+  $ appwizard -c lang=en doctor
+  $ APPWIZARD_CLIENT_ID=… APPWIZARD_CLIENT_SECRET=… appwizard login --from-env
+  $ appwizard --credentials-file ./sa.json deploy --yes
 `);
 
-program.parse(process.argv);
+/**
+ * Gestionnaire d'erreurs global : affiche l'erreur (ou l'émet en JSON avec `--json`)
+ * et termine le processus avec le code de sortie associé à sa catégorie.
+ *
+ * @param error Erreur remontée par une commande.
+ */
+function handleError(error: unknown): never {
+  const exitCode = error instanceof AppWizardError ? error.exitCode : ExitCode.Unknown;
+  const message  = error instanceof Error ? error.message : String(error);
+  const cause    = error instanceof AppWizardError && error.cause instanceof Error ? error.cause.message : undefined;
+
+  if (isJsonMode()) {
+    printJson({
+      error: {
+        type: error instanceof Error ? error.name : 'Error',
+        message,
+        cause: cause ?? null,
+        exitCode,
+      },
+    });
+  } else {
+    logger.error(chalk.red(`❌ ${message}`));
+    if (cause) {
+      logger.error(chalk.gray(`   ↳ ${cause}`));
+    }
+  }
+  process.exit(exitCode);
+}
+
+program.parseAsync(process.argv).catch(handleError);
@@ -4,109 +4,106 @@ import { BuildService } from '../services/build-service.js';
 import { CleanService } from '../services/clean-service.js';
 import { SecretManagerService } from '../services/secret-manager-service.js';
 import { ConfigService } from '../services/config-service.js';
+import { ProjectService } from '../services/project-service.js';
+import type { Environment } from '../services/docker-compose-service.js';
+import type { BuildCommandOptions, CleanMode } from '../types/cli-options.js';
+import { resolveOption } from '../utils/prompt-utils.js';
+import { ConfigError } from '../errors/app-wizard-errors.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
 /**
- * Commande interactive "build" qui propose plusieurs options de build.
+ * Commande "build" qui propose plusieurs options de build.
  * L'utilisateur peut choisir de nettoyer l'environnement (normal ou forcé),
  * puis sélectionner l'environnement de build (développement ou production).
+ * Chaque choix peut être fourni en option (`--clean`, `--env`) pour une exécution non interactive.
+ *
+ * @param options Options de la ligne de commande.
  */
-export async function buildCommand(): Promise<void> {
+export async function buildCommand(options: BuildCommandOptions = {}): Promise<void> {
   
-  console.clear();
-  console.log(chalk.yellow('======================================'));
-  console.log(chalk.yellow('             Build Options'));
-  console.log(chalk.yellow('======================================'));
-  console.log('1. Build sans clean');
-  console.log('2. Build avec clean');
-  console.log('3. Build avec clean forcé');
-  console.log('4. Retour');
-  console.log('');
-
   // Options de nettoyage
-  const cleanResponse = await prompts({
-    type: 'select',
-    name: 'option',
-    message: 'Choisissez une option de nettoyage:',
-    choices: [
-      { title: '1. Build sans clean', value: 'noClean' },
-      { title: '2. Build avec clean', value: 'clean' },
-      { title: '3. Build avec clean forcé', value: 'forcedClean' },
-      { title: '4. Retour', value: 'return' }
-    ]
+  const cleanMode = await resolveOption(options.clean, '--clean <none|normal|forced>', async () => {
+    console.clear();
+    logger.info(chalk.yellow('======================================'));
+    logger.info(chalk.yellow(t('build.menu.title')));
+    logger.info(chalk.yellow('======================================'));
+    logger.info(`1. ${t('build.menu.noClean')}`);
+    logger.info(`2. ${t('build.menu.clean')}`);
+    logger.info(`3. ${t('build.menu.forcedClean')}`);
+    logger.info(`4. ${t('common.back')}`);
+    logger.info('');
+
+    const cleanResponse = await prompts({
+      type: 'select',
+      name: 'option',
+      message: t('build.prompt.cleanMode'),
+      choices: [
+        { title: `1. ${t('build.menu.noClean')}`, value: 'none' },
+        { title: `2. ${t('build.menu.clean')}`, value: 'normal' },
+        { title: `3. ${t('build.menu.forcedClean')}`, value: 'forced' },
+        { title: `4. ${t('common.back')}`, value: 'return' }
+      ]
+    });
+    return cleanResponse.option as CleanMode | 'return' | undefined;
   });
 
-  if (cleanResponse.option === 'return') {
-    console.log(chalk.green('Retour au menu principal.'));
+  if (cleanMode === 'return' || cleanMode === undefined) {
+    logger.info(chalk.green(t('common.backToMenu')));
     return;
   }
 
-  if (cleanResponse.option === 'clean') {
-    console.log(chalk.blue('[Nettoyage standard]'));
-    try {
-      await CleanService.performGlobalClean();
-      console.log(chalk.green('Nettoyage standard terminé.'));
-    } catch (error) {
-      console.error(chalk.red('Erreur lors du nettoyage standard:'), error);
-      return;
-    }
-  } else if (cleanResponse.option === 'forcedClean') {
-    console.log(chalk.blue('[Nettoyage complet]'));
-    try {
-      CleanService.fullClean();
-      console.log(chalk.green('Nettoyage complet terminé.'));
-    } catch (error) {
-      console.error(chalk.red('Erreur lors du nettoyage complet:'), error);
-      return;
-    }
+  if (cleanMode === 'normal') {
+    logger.info(chalk.blue(t('build.standardClean')));
+    await CleanService.performGlobalClean();
+    logger.info(chalk.green(t('common.standardCleanDone')));
+  } else if (cleanMode === 'forced') {
+    logger.info(chalk.blue(t('build.fullClean')));
+    await CleanService.fullClean();
+    logger.info(chalk.green(t('common.fullCleanDone')));
   }
 
   // Demander à l'utilisateur dans quel environnement il souhaite builder
-  const envResponse = await prompts({
-    type: 'select',
-    name: 'environment',
-    message: 'Dans quel environnement souhaitez-vous builder votre projet ?',
-    choices: [
-      { title: 'Développement (dev)', value: 'dev' },
-      { title: 'Production (prod)', value: 'prod' },
-      { title: 'Annuler', value: 'cancel' }
-    ]
+  const environment = await resolveOption(options.env, '--env <dev|prod>', async () => {
+    const envResponse = await prompts({
+      type: 'select',
+      name: 'environment',
+      message: t('build.prompt.env'),
+      choices: [
+        { title: t('common.envDev'), value: 'dev' },
+        { title: t('common.envProd'), value: 'prod' },
+        { title: t('common.cancel'), value: 'cancel' }
+      ]
+    });
+    return envResponse.environment as Environment | 'cancel' | undefined;
   });
 
-  if (envResponse.environment === 'cancel') {
-    console.log(chalk.green('Build annulé.'));
+  if (environment === 'cancel' || environment === undefined) {
+    logger.info(chalk.green(t('build.cancelled')));
     return;
   }
 
   // Vérification et correction des fichiers d'environnement avant le build
-  const targetDir = process.cwd();
+  const targetDir = ProjectService.getProjectRoot();
   const envValid = await SecretManagerService.checkEnvFiles(targetDir);
   if (!envValid) {
-    console.error(chalk.red('Les fichiers .env.dev et/ou .env.prod sont incomplets.'));
-    console.error(chalk.red('Les fichiers ont été automatiquement corrigés. Veuillez renseigner les valeurs manquantes, puis relancer le build.'));
     await SecretManagerService.repairEnvFiles(targetDir);
-    process.exit(1);
+    throw new ConfigError(t('build.error.envIncomplete'));
   }
 
   // Lancer le build selon l'environnement choisi
-  if (envResponse.environment === 'dev') {
-    console.log(chalk.blue('Lancement du build en mode développement...'));
+  if (environment === 'dev') {
+    logger.info(chalk.blue(t('build.startDev')));
     await BuildService.buildDev();
-  } else if (envResponse.environment === 'prod') {
+  } else if (environment === 'prod') {
 
     // Validation de la configuration
-    console.log(chalk.blue('Vérification de la configuration...'));
-    let cliConfig;
-
-    try {
-      cliConfig = {};
-      console.log(chalk.green('Configuration validée.'));
-    } catch (error) {
-      console.error(chalk.red('Erreur lors de la validation de la configuration:'), error);
-      return;
-    }
+    logger.info(chalk.blue(t('build.checkingConfig')));
+    const cliConfig = await new ConfigService(targetDir).getConfig();
+    logger.info(chalk.green(t('build.configValid')));
 
     // Lancement du build en mode production
-    console.log(chalk.blue('Lancement du build en mode production...'));
-    await BuildService.buildProd(cliConfig);
+    logger.info(chalk.blue(t('build.startProd')));
+    await BuildService.buildProd(cliConfig, { assumeYes: options.yes });
   }
 }
@@ -1,75 +1,67 @@
 import prompts from 'prompts';
 import chalk from 'chalk';
 import { CleanService } from '../services/clean-service.js';
+import type { CleanCommandOptions } from '../types/cli-options.js';
+import { pause, resolveOption } from '../utils/prompt-utils.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
 /**
- * Commande interactive "clean" qui permet de nettoyer l'environnement.
+ * Commande "clean" qui permet de nettoyer l'environnement.
  * Options proposées :
  * - Clean normal : vide les dossiers et supprime les fichiers de signalisation.
  * - Clean forcé : réalise le clean normal puis effectue un nettoyage Docker forcé.
  * - Retour.
+ * Le type de nettoyage peut être fourni via `--mode` pour une exécution non interactive.
  *
+ * @param options Options de la ligne de commande.
  * @returns Une promesse résolue une fois l'opération terminée.
  */
-export async function cleanCommand(): Promise<void> {
-  console.clear();
-  console.log(chalk.yellow('======================================'));
-  console.log(chalk.yellow('             Clean Options'));
-  console.log(chalk.yellow('======================================'));
-  console.log('1. Clean normal');
-  console.log('2. Clean forcé (supprime images Docker et cache builder)');
-  console.log('3. Retour');
-  console.log('');
+export async function cleanCommand(options: CleanCommandOptions = {}): Promise<void> {
+  const mode = await resolveOption(options.mode, '--mode <normal|forced>', async () => {
+    console.clear();
+    logger.info(chalk.yellow('======================================'));
+    logger.info(chalk.yellow(t('clean.menu.title')));
+    logger.info(chalk.yellow('======================================'));
+    logger.info(`1. ${t('clean.menu.normal')}`);
+    logger.info(`2. ${t('clean.menu.forcedDetail')}`);
+    logger.info(`3. ${t('common.back')}`);
+    logger.info('');
 
-  const response = await prompts({
-    type: 'select',
-    name: 'option',
-    message: 'Choisissez une option:',
-    choices: [
-      { title: '1. Clean normal', value: 'normal' },
-      { title: '2. Clean forcé', value: 'forced' },
-      { title: '3. Retour', value: 'return' }
-    ]
+    const response = await prompts({
+      type: 'select',
+      name: 'option',
+      message: t('common.chooseOption'),
+      choices: [
+        { title: `1. ${t('clean.menu.normal')}`, value: 'normal' },
+        { title: `2. ${t('clean.menu.forced')}`, value: 'forced' },
+        { title: `3. ${t('common.back')}`, value: 'return' }
+      ]
+    });
+    return response.option as CleanCommandOptions['mode'] | 'return' | undefined;
   });
 
-  switch (response.option) {
+  switch (mode) {
     case 'normal':
-      console.log(chalk.blue('[Clean normal]'));
-      try {
-        console.log(chalk.yellow('Nettoyage normal en cours...'));
-        await CleanService.performGlobalClean();
-        console.log(chalk.green('Nettoyage normal terminé.'));
-      } catch (error) {
-        console.error(chalk.red('Erreur lors du nettoyage normal:'), error);
-      }
+      logger.info(chalk.blue(t('clean.normal.header')));
+      logger.info(chalk.yellow(t('clean.normal.running')));
+      await CleanService.performGlobalClean();
+      logger.info(chalk.green(t('clean.normal.done')));
       break;
     case 'forced':
-      console.log(chalk.blue('[Clean forcé]'));
-      try {
-        console.log(chalk.yellow('Nettoyage normal en cours...'));
-        await CleanService.performGlobalClean();
-        console.log(chalk.green('Nettoyage normal terminé.'));
-      } catch (error) {
-        console.error(chalk.red('Erreur lors du nettoyage normal:'), error);
-      }
-      try {
-        console.log(chalk.yellow('Nettoyage forcé Docker en cours...'));
-        await CleanService.forcedDockerClean();
-        console.log(chalk.green('Nettoyage forcé Docker terminé.'));
-      } catch (error) {
-        console.error(chalk.red('Erreur lors du nettoyage forcé Docker:'), error);
-      }
+      logger.info(chalk.blue(t('clean.forced.header')));
+      logger.info(chalk.yellow(t('clean.normal.running')));
+      await CleanService.performGlobalClean();
+      logger.info(chalk.green(t('clean.normal.done')));
+      logger.info(chalk.yellow(t('clean.forced.running')));
+      CleanService.forcedDockerClean();
       break;
     case 'return':
     default:
-      console.log(chalk.green('Retour au menu principal.'));
+      logger.info(chalk.green(t('common.backToMenu')));
       break;
   }
 
   // Pause pour laisser l'utilisateur lire les résultats.
-  await prompts({
-    type: 'text',
-    name: 'pause',
-    message: 'Appuyez sur Entrée pour continuer...',
-  });
+  await pause();
 }
@@ -0,0 +1,34 @@
+/**
+ * @module commands/completion
+ * Commande `appwizard completion <shell>` (génération du script de complétion)
+ * et commande cachée `appwizard __complete`, appelée par ce script à chaque <TAB>.
+ */
+
+import type { Command } from 'commander';
+import { CompletionService, type CompletionShell } from '../services/completion-service.js';
+import { logger } from '../services/logger-service.js';
+
+/**
+ * Affiche le script de complétion du shell demandé sur la sortie standard.
+ *
+ * @param program Commande racine du CLI.
+ * @param shell   Shell cible.
+ */
+export async function completionCommand(program: Command, shell: CompletionShell): Promise<void> {
+  process.stdout.write(CompletionService.generateScript(program, shell));
+}
+
+/**
+ * Affiche les suggestions de complétion, une par ligne.
+ * Les messages du CLI sont réduits aux erreurs pour ne pas se mêler aux suggestions.
+ *
+ * @param program Commande racine du CLI.
+ * @param words   Mots de la ligne de commande, le dernier étant le mot en cours.
+ */
+export async function completeCommand(program: Command, words: string[] = []): Promise<void> {
+  logger.configure({ level: 'error' });
+  const suggestions = await CompletionService.complete(program, words);
+  if (suggestions.length > 0) {
+    process.stdout.write(`${suggestions.join('\n')}\n`);
+  }
+}
@@ -1,35 +1,53 @@
 /**
  * @module commands/config
  * Commande `appwizard config` pour consulter et modifier
- * les sections encapsulées de la configuration CLI.
+ * les sections encapsulées de la configuration CLI,
+ * et sous-commandes `get`, `set`, `unset` et `list` par clé.
  */
 
 import prompts from 'prompts';
-import { ConfigService } from '../services/config-service.js';
+import chalk from 'chalk';
+import { CONFIG_LAYERS, ConfigService } from '../services/config-service.js';
+import { ProfileService } from '../services/profile-service.js';
+import type { ConfigEntry, ConfigScope } from '../types/cli-config.js';
+import type { ConfigShowOptions, ConfigWriteOptions } from '../types/cli-options.js';
+import { isJsonMode, printJson } from '../utils/output-utils.js';
+import { logger } from '../services/logger-service.js';
+import { t, type Locale } from '../i18n/index.js';
 
 export async function configCommand(): Promise<void> {
   const svc = new ConfigService();
   const cfg = await svc.getConfig();
   const eps = cfg.endpoints;
+  const profile = await ProfileService.getActiveProfileName();
+  const profileConfig = await ProfileService.getProfile(profile);
 
-  console.log('\n⚙️  Configuration CLI actuelle :');
-  console.log(`   endpoints.backendUrl : ${eps.backendUrl}`);
-  console.log(`   endpoints.frontendUrl: ${eps.frontendUrl}\n`);
+  if (isJsonMode()) {
+    printJson(cfg);
+    return;
+  }
+
+  logger.info(t('config.current'));
+  logger.info(`   profile              : ${profile}`);
+  logger.info(`   endpoints.backendUrl : ${eps.backendUrl}`);
+  logger.info(`   endpoints.frontendUrl: ${eps.frontendUrl}`);
+  logger.info(`   lang                 : ${cfg.lang ?? t('config.lang.auto')}\n`);
 
   // 1) Choix de la section
   const resp1 = (await prompts({
     type: 'select',
     name: 'section',
-    message: 'Quelle section souhaitez-vous modifier ?',
+    message: t('config.prompt.section'),
     choices: [
-      { title: 'endpoints (URLs)',             value: 'endpoints' },
-      { title: 'Réinitialiser toute la config', value: 'reset'     },
-      { title: 'Quitter',                       value: 'exit'      },
+      { title: t('config.section.endpoints'), value: 'endpoints' },
+      { title: t('config.section.lang'),      value: 'lang'      },
+      { title: t('config.section.reset'),     value: 'reset'     },
+      { title: t('common.quit'),              value: 'exit'      },
     ],
     initial: 0,
   })) as any;
 
-  const section = resp1.section as 'endpoints' | 'reset' | 'exit';
+  const section = resp1.section as 'endpoints' | 'lang' | 'reset' | 'exit';
 
   if (section === 'endpoints') {
     // 2) Modifier les URLs
@@ -37,28 +55,137 @@ export async function configCommand(): Promise<void> {
       {
         type: 'text',
         name: 'backendUrl',
-        message: 'Nouvelle URL backend :',
+        message: t('config.prompt.backendUrl'),
         initial: eps.backendUrl,
       },
       {
         type: 'text',
         name: 'frontendUrl',
-        message: 'Nouvelle URL frontend :',
+        message: t('config.prompt.frontendUrl'),
         initial: eps.frontendUrl,
       },
     ])) as any;
 
     const backendUrl  = resp2.backendUrl as string;
     const frontendUrl = resp2.frontendUrl as string;
-    await svc.setEndpointsConfig({ backendUrl, frontendUrl });
-    console.log('✅ Endpoints mis à jour.');
+    // Les endpoints propres au profil priment sur ceux du fichier : ils sont modifiés à leur place
+    if (profileConfig?.endpoints) {
+      await ProfileService.saveProfile(profile, { ...profileConfig, endpoints: { backendUrl, frontendUrl } });
+      logger.info(t('config.profileEndpointsSaved', { profile }));
+    } else {
+      await svc.setEndpointsConfig({ backendUrl, frontendUrl });
+    }
+    logger.info(t('config.endpointsUpdated'));
+  }
+  else if (section === 'lang') {
+    // 2) Choisir la langue des messages
+    const resp2 = (await prompts({
+      type: 'select',
+      name: 'lang',
+      message: t('config.prompt.lang'),
+      choices: [
+        { title: 'Français (fr)',          value: 'fr' },
+        { title: 'English (en)',           value: 'en' },
+        { title: t('config.lang.auto'),    value: 'auto' },
+      ],
+      initial: cfg.lang === 'en' ? 1 : cfg.lang === 'fr' ? 0 : 2,
+    })) as any;
+
+    const lang = resp2.lang as Locale | 'auto' | undefined;
+    if (lang !== undefined) {
+      await svc.setLang(lang === 'auto' ? undefined : lang);
+    }
   }
   else if (section === 'reset') {
     await svc.clear();
     await svc.resetToDefault();
-    console.log('⚠️  Config réinitialisée aux valeurs par défaut.');
+    logger.info(t('config.resetDone'));
   }
   else {
-    console.log('👋 À bientôt !');
+    logger.info(t('common.goodbye'));
+  }
+}
+
+/**
+ * Décrit l'origine d'une valeur (`global (~/.appwizard/config.json)`, `env (APPWIZARD_LANG)`…).
+ * @param entry Valeur résolue.
+ */
+function describeOrigin(entry: ConfigEntry): string {
+  return entry.source ? `${entry.origin} (${entry.source})` : entry.origin;
+}
+
+/**
+ * Commande `appwizard config get <key>` : affiche la valeur effective d'une clé.
+ *
+ * @param key     Clé de configuration.
+ * @param options Options de la ligne de commande.
+ */
+export async function configGetCommand(key: string, options: ConfigShowOptions = {}): Promise<void> {
+  const entry = await new ConfigService().get(key);
+  if (isJsonMode()) {
+    printJson({ ...entry, value: entry.value ?? null });
+    return;
+  }
+  const value = entry.value ?? '';
+  // sortie brute : la valeur est exploitable telle quelle dans un script
+  process.stdout.write(`${options.showOrigin ? `${describeOrigin(entry)}\t${value}` : value}\n`);
+}
+
+/**
+ * Commande `appwizard config set <key> <value>` : enregistre une clé dans le fichier global
+ * (ou dans le fichier du projet avec `--project`).
+ *
+ * @param key     Clé de configuration.
+ * @param value   Nouvelle valeur.
+ * @param options Options de la ligne de commande.
+ */
+export async function configSetCommand(key: string, value: string, options: ConfigWriteOptions = {}): Promise<void> {
+  const svc  = new ConfigService();
+  const file = await svc.set(key, value, options.project ? 'project' : 'global');
+  logger.info(t('config.set.done', { key, value, file }));
+  await warnIfOverridden(svc, key, options.project ? 'project' : 'global');
+}
+
+/**
+ * Commande `appwizard config unset <key>` : supprime une clé du fichier global
+ * (ou du fichier du projet avec `--project`).
+ *
+ * @param key     Clé de configuration.
+ * @param options Options de la ligne de commande.
+ */
+export async function configUnsetCommand(key: string, options: ConfigWriteOptions = {}): Promise<void> {
+  const svc  = new ConfigService();
+  const file = await svc.unset(key, options.project ? 'project' : 'global');
+  logger.info(t('config.unset.done', { key, file }));
+  await warnIfOverridden(svc, key, options.project ? 'project' : 'global');
+}
+
+/**
+ * Signale qu'une couche plus prioritaire que le fichier modifié masque la valeur.
+ */
+async function warnIfOverridden(svc: ConfigService, key: string, scope: ConfigScope): Promise<void> {
+  const entry = await svc.get(key);
+  if (CONFIG_LAYERS.indexOf(entry.origin) > CONFIG_LAYERS.indexOf(scope)) {
+    logger.info(t('config.overridden', { key, origin: describeOrigin(entry) }));
+  }
+}
+
+/**
+ * Commande `appwizard config list` : liste les clés et leurs valeurs effectives,
+ * avec leur origine si `--show-origin` est passé.
+ *
+ * @param options Options de la ligne de commande.
+ */
+export async function configListCommand(options: ConfigShowOptions = {}): Promise<void> {
+  const entries = await new ConfigService().list();
+  if (isJsonMode()) {
+    printJson(entries.map(entry => ({ ...entry, value: entry.value ?? null })));
+    return;
+  }
+  const width = Math.max(...entries.map(entry => entry.key.length));
+  for (const entry of entries) {
+    const value  = entry.value ?? chalk.gray(t('config.unsetValue'));
+    const origin = options.showOrigin ? chalk.gray(`  ${describeOrigin(entry)}`) : '';
+    logger.info(`${entry.key.padEnd(width)} = ${value}${origin}`);
   }
 }
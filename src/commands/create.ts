@@ -3,10 +3,14 @@
  * @module commands/create
  * Commande `appwizard create` :
  * 1) vérifie qu’un ServiceAccount est configuré,
- * 2) permet de choisir un dossier,
- * 3) liste les templates,
- * 4) télécharge et déploie le template choisi,
- * 5) initialise / commit Git.
+ * 2) liste les templates et sélectionne celui à utiliser (`--template <id>` ou menu),
+ * 3) sélectionne la version (`--template-version <version>` ou menu, dernière version par défaut),
+ * 4) permet de choisir un dossier,
+ * 5) télécharge et déploie le template choisi (conservé dans le cache local),
+ * 6) enregistre le template et sa version dans `.appwizard`,
+ * 7) initialise / commit Git.
+ * Avec `--offline`, les étapes 1, 2, 3 et 5 utilisent uniquement le cache local.
+ * Avec `--dry-run`, les fichiers qui seraient supprimés, créés ou remplacés sont seulement listés.
  */
 
 import fs from 'fs-extra';
@@ -14,8 +18,17 @@ import * as path from 'path';
 import prompts from 'prompts';
 import { AuthService } from '../services/auth-service.js';
 import { FetchTemplateService } from '../services/fetch-template-service.js';
+import { TemplateCacheService } from '../services/template-cache-service.js';
 import { GitService } from '../services/git-service.js';
-import type { Template } from '../types/template.js';
+import { ProjectService } from '../services/project-service.js';
+import { ProfileService } from '../services/profile-service.js';
+import { ConfigService } from '../services/config-service.js';
+import type { CachedTemplate, Template, TemplateVersion } from '../types/template.js';
+import type { CreateCommandOptions } from '../types/cli-options.js';
+import { AuthError, TemplateError, UsageError } from '../errors/app-wizard-errors.js';
+import { ensureDirectory, isDryRun, removePath } from '../utils/operation-utils.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
 // Ne pas supprimer ces fichiers lors du nettoyage
 const ALLOWED_FILES = ['.git', '.vscode', '.DS_Store'];
@@ -24,7 +37,7 @@ async function cleanTargetDirectory(dir: string): Promise<void> {
   const entries = await fs.readdir(dir);
   for (const e of entries) {
     if (!ALLOWED_FILES.includes(e)) {
-      await fs.remove(path.join(dir, e));
+      await removePath(path.join(dir, e));
     }
   }
 }
@@ -33,76 +46,185 @@ async function chooseTargetDirectory(cwd: string): Promise<string> {
   const resp = await prompts({
     type: 'select',
     name: 'option',
-    message: 'Où créer le projet ?',
+    message: t('create.prompt.where'),
     choices: [
-      { title: 'Dossier courant',       value: 'current' },
-      { title: 'Nouveau sous-dossier',  value: 'subfolder' },
+      { title: t('create.where.current'),   value: 'current' },
+      { title: t('create.where.subfolder'), value: 'subfolder' },
     ],
     initial: 0,
   });
   const option = resp.option as 'current' | 'subfolder';
 
   if (option === 'current') {
-    console.log(`⚠️ Nettoyage de ${cwd} (sauf ${ALLOWED_FILES.join(', ')})`);
+    logger.info(t('create.cleaning', { dir: cwd, kept: ALLOWED_FILES.join(', ') }));
     await cleanTargetDirectory(cwd);
     return cwd;
   } else {
     const { folderName } = await prompts({
       type: 'text',
       name: 'folderName',
-      message: 'Nom du sous-dossier :',
+      message: t('create.prompt.folderName'),
       initial: 'mon-projet',
-      validate: v => v.trim() ? true : 'Ne peut pas être vide'
+      validate: v => v.trim() ? true : t('create.validate.notEmpty')
     });
     const target = path.join(cwd, (folderName as string).trim());
     if (await fs.pathExists(target)) {
-      console.error(`❌ Le dossier ${target} existe déjà.`);
-      process.exit(1);
+      throw new UsageError(t('create.error.folderExists', { dir: target }));
     }
-    await fs.mkdir(target);
+    await ensureDirectory(target);
     return target;
   }
 }
 
-export async function createCommand(): Promise<void> {
-  // 1) Auth check
-  const auth = new AuthService();
-  if (!(await auth.getServiceAccount())) {
-    console.error('❌ Aucun Service Account configuré. Lancez `appwizard login` d’abord.');
-    process.exit(1);
+/**
+ * Sélectionne une version parmi celles disponibles : version demandée, menu s'il y a un choix,
+ * sinon l'unique version.
+ *
+ * @param id        Identifiant du template.
+ * @param versions  Versions disponibles, de la plus récente à la plus ancienne.
+ * @param requested Version demandée (`--template-version`).
+ * @param describe  Détail affiché pour chaque version dans le menu.
+ * @returns La version choisie, ou `undefined` si la sélection est annulée.
+ * @throws UsageError si la version demandée n'est pas disponible.
+ */
+async function chooseVersion<T extends { version: string }>(
+  id: string,
+  versions: T[],
+  requested: string | undefined,
+  describe: (version: T) => string | undefined
+): Promise<T | undefined> {
+  if (requested) {
+    const found = versions.find(candidate => candidate.version === requested);
+    if (!found) {
+      throw new UsageError(t('create.error.unknownVersion', {
+        id,
+        version:  requested,
+        versions: versions.map(candidate => candidate.version).join(', '),
+      }));
+    }
+    return found;
   }
-
-  // 2) Choix du dossier
-  const cwd       = process.cwd();
-  const targetDir = await chooseTargetDirectory(cwd);
-
-  // 3) Liste des templates
-  const templates = await FetchTemplateService.listTemplates();
-  if (templates.length === 0) {
-    console.error('❌ Aucun template disponible.');
-    process.exit(1);
+  if (versions.length <= 1) {
+    return versions[0];
   }
-
-  // 4) Sélection
   const sel = await prompts({
     type: 'select',
     name: 'chosen',
-    message: 'Sélectionnez un template :',
-    choices: templates.map(t => ({ title: t.name, value: t })),
+    message: t('create.prompt.version', { id }),
+    choices: versions.map(candidate => ({ title: candidate.version, description: describe(candidate), value: candidate })),
     initial: 0,
   });
-  const chosen = sel.chosen as Template;
+  return sel.chosen as T | undefined;
+}
+
+/**
+ * Commande "create" : crée un nouveau projet à partir d'un template.
+ * Le template et sa version sont choisis avant le dossier cible, afin qu'un identifiant
+ * ou une version inconnus n'entraînent pas le nettoyage du dossier courant.
+ *
+ * @param options Options de la ligne de commande.
+ */
+export async function createCommand(options: CreateCommandOptions = {}): Promise<void> {
+  // 1) Auth check (inutile hors ligne)
+  if (!options.offline) {
+    const auth = new AuthService();
+    if (!(await auth.getServiceAccount())) {
+      throw new AuthError(t('auth.error.noServiceAccount', { profile: await ProfileService.getActiveProfileName() }));
+    }
+  }
+
+  // 2) Liste des templates (backend, ou dernière version en cache de chaque template) et sélection
+  const templates: Template[] = options.offline
+    ? await TemplateCacheService.latest()
+    : await FetchTemplateService.listTemplates();
+  if (templates.length === 0) {
+    throw new TemplateError(t(options.offline ? 'create.error.noCachedTemplates' : 'create.error.noTemplates'));
+  }
+
+  let chosen: Template | undefined;
+  if (options.template) {
+    chosen = templates.find(tpl => tpl.id === options.template);
+    if (!chosen) {
+      throw new UsageError(t('create.error.unknownTemplate', {
+        id:  options.template,
+        ids: templates.map(tpl => tpl.id).join(', '),
+      }));
+    }
+  } else {
+    const sel = await prompts({
+      type: 'select',
+      name: 'chosen',
+      message: t('create.prompt.template'),
+      choices: templates.map(tpl => ({
+        title: options.offline ? `${tpl.name} (${tpl.version})` : tpl.name,
+        value: tpl,
+      })),
+      initial: 0,
+    });
+    chosen = sel.chosen as Template | undefined;
+  }
   if (!chosen) return;
 
-  // 5) Déploiement
-  await FetchTemplateService.fetchTemplate(chosen.id, targetDir);
+  // 3) Choix de la version : versions en cache hors ligne, sinon versions publiées par le backend
+  let cached: CachedTemplate | undefined;
+  let version: TemplateVersion | undefined;
+  if (options.offline) {
+    cached = await chooseVersion(chosen.id, await TemplateCacheService.versions(chosen.id), options.templateVersion,
+      entry => t('template.cache.cachedAt', { date: entry.cachedAt }));
+    if (!cached) return;
+  } else {
+    const versions = await FetchTemplateService.listVersions(chosen.id);
+    if (versions.length > 0) {
+      version = await chooseVersion(chosen.id, versions, options.templateVersion,
+        candidate => [candidate.publishedAt?.slice(0, 10), candidate.description].filter(Boolean).join(' · ') || undefined);
+      if (!version) return;
+    } else if (options.templateVersion) {
+      // versions non exposées par le backend : il refusera lui-même une version inconnue
+      version = { version: options.templateVersion };
+    }
+  }
+
+  // 4) Choix du dossier
+  const cwd       = ProjectService.getWorkingDirectory();
+  const targetDir = await chooseTargetDirectory(cwd);
+
+  // 5) Déploiement (empreinte et signature de la version choisie)
+  let deployed: CachedTemplate;
+  if (cached) {
+    await FetchTemplateService.deployCachedTemplate(cached, targetDir);
+    deployed = cached;
+  } else {
+    const pinned: Template = version
+      ? {
+          id:      chosen.id,
+          name:    chosen.name,
+          ...(chosen.description ? { description: chosen.description } : {}),
+          version: version.version,
+          ...(version.sha256 ? { sha256: version.sha256 } : {}),
+          ...(version.signature ? { signature: version.signature } : {}),
+        }
+      : chosen;
+    deployed = await FetchTemplateService.fetchTemplate(pinned, targetDir, version?.version);
+  }
+  if (isDryRun()) {
+    return;
+  }
+
+  // 6) Template d'origine, pour recréer la même base
+  const configFile = await new ConfigService(targetDir).setTemplateOrigin({
+    id:        deployed.id,
+    version:   deployed.version,
+    sha256:    deployed.sha256,
+    createdAt: new Date().toISOString(),
+  });
+  logger.info(t('create.originSaved', { id: deployed.id, version: deployed.version, file: configFile }));
 
-  // 6) Git init/commit
+  // 7) Git init/commit
   if (GitService.isGitInstalled()) {
-    await GitService.handleRepository(targetDir, `Initialisation du projet ${chosen.name}`);
+    await GitService.handleRepository(targetDir, chosen.name);
   } else {
-    console.warn('⚠️ Git non installé, skip.');
+    logger.warn(t('create.gitMissing'));
   }
 
-  console.log(`🎉 Projet "${chosen.name}" prêt dans ${targetDir} !`);
+  logger.info(t('create.done', { name: chosen.name, dir: targetDir }));
 }
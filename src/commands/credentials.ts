@@ -1,67 +1,385 @@
 /**
  * @module commands/credentials
  * Implémente la commande `appwizard credentials` :
- * consultation, renouvellement ou suppression du Service Account.
+ * consultation, renouvellement, verrouillage ou suppression du Service Account,
+ * inspection du token (`show`, `verify`), cycle de vie auprès du backend
+ * (`rotate`, `list --remote`, `revoke`) et gestion des profils (`list`, `use`, `remove`).
  */
 
 import prompts from 'prompts';
+import chalk from 'chalk';
 import { AuthService } from '../services/auth-service.js';
+import { ConfigService } from '../services/config-service.js';
+import { ProfileService } from '../services/profile-service.js';
+import { BackendClient } from '../services/backend-client.js';
+import { ServiceAccountService } from '../services/service-account-service.js';
+import type { TokenInfo } from '../types/auth.js';
+import type { CredentialsListOptions, CredentialsRemoveOptions, CredentialsRevokeOptions } from '../types/cli-options.js';
+import { AuthError, ConfigError } from '../errors/app-wizard-errors.js';
+import { isJsonMode, printJson } from '../utils/output-utils.js';
+import { resolveOption } from '../utils/prompt-utils.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
 export async function credentialsCommand(): Promise<void> {
-  const auth = new AuthService();
-  const sa = await auth.getServiceAccount();
+  const profile = await ProfileService.getActiveProfileName();
+  const auth = new AuthService(profile);
+  const clientId = await auth.getClientId();
+  const source = await auth.getCredentialSource();
+  const locked = source === 'stored' && await auth.isLocked();
 
-  console.log('\n🔑 État du Service Account\n');
-  if (!sa) {
-    console.log('ℹ️  Aucun Service Account configuré. Lancez `appwizard login`.');
+  // Calcule le reste de validité du token en cache
+  const exp = await auth.getTokenExpiry();
+  const secs = exp ? Math.max(0, Math.round((exp - Date.now()) / 1000)) : undefined;
+
+  if (isJsonMode()) {
+    printJson({
+      profile,
+      configured: Boolean(clientId),
+      clientId: clientId ?? null,
+      source,
+      locked,
+      token: {
+        cached: exp !== undefined,
+        expiresAt: exp ? new Date(exp).toISOString() : null,
+        remainingSeconds: secs ?? null,
+      },
+    });
     return;
   }
 
-  // Calcule le reste de validité du token en cache
-  let remaining = 'inconnu';
-  try {
-    // @ts-ignore accéder à expiresAt interne
-    await auth['load']();
-    // @ts-ignore lire expiresAt
-    const exp = auth['data'].expiresAt as number | undefined;
-    if (exp) {
-      const secs = Math.max(0, Math.round((exp - Date.now()) / 1000));
-      remaining = `${secs}s`;
-    }
-  } catch {
-    /* ignore */
-  }
-
-  console.log(`   clientId     : ${sa.clientId}`);
-  console.log(`   token restant: ${remaining}\n`);
+  logger.info(t('credentials.title'));
+  logger.info(t('credentials.profile', { profile }));
+  if (!clientId) {
+    logger.info(t('credentials.none', { profile }));
+    return;
+  }
+
+  const remaining = secs !== undefined ? `${secs}s` : t('common.unknown');
+
+  logger.info(t('credentials.clientId', { clientId }));
+  logger.info(t('credentials.storage', {
+    storage: source === 'env'  ? t('credentials.storage.env')
+           : source === 'file' ? t('credentials.storage.file')
+           : locked            ? t('credentials.storage.locked')
+           :                     t('credentials.storage.machine'),
+  }));
+  logger.info(t('credentials.remaining', { remaining }));
 
   // Prompt sans générique, on récupère resp via any
   const resp = (await prompts({
     type: 'select',
     name: 'action',
-    message: 'Que souhaitez-vous faire ?',
+    message: t('common.whatToDo'),
     choices: [
-      { title: 'Renouveler le token',            value: 'renew' },
-      { title: 'Supprimer le Service Account',   value: 'clear' },
-      { title: 'Quitter',                        value: 'exit' },
+      { title: t('credentials.action.renew'), value: 'renew' },
+      // le verrouillage et la suppression ne concernent que le Service Account enregistré
+      ...(source !== 'stored' ? [] : [
+        locked
+          ? { title: t('credentials.action.unlock'), value: 'unlock' }
+          : { title: t('credentials.action.lock'),   value: 'lock' },
+        { title: t('credentials.action.clear'), value: 'clear' },
+      ]),
+      { title: t('common.quit'),              value: 'exit' },
     ],
     initial: 0,
   })) as any;
 
-  const action = resp.action as 'renew' | 'clear' | 'exit';
+  const action = resp.action as 'renew' | 'lock' | 'unlock' | 'clear' | 'exit';
 
   if (action === 'renew') {
-    try {
-      await auth.getAccessToken();
-      console.log('🔄 Token renouvelé avec succès.');
-    } catch (e: any) {
-      console.error('❌ Erreur pendant le renouvellement :', e.message || e);
-    }
+    await auth.getAccessToken();
+    logger.info(t('credentials.renewed'));
+  }
+  else if (action === 'lock') {
+    await auth.lock();
+  }
+  else if (action === 'unlock') {
+    await auth.unlock();
   }
   else if (action === 'clear') {
     await auth.clear();
   }
   else {
-    console.log('👋 À bientôt !');
+    logger.info(t('common.goodbye'));
+  }
+}
+
+/**
+ * Met en forme les informations du token pour la sortie JSON (dates ISO).
+ * @param info Informations décodées du token.
+ */
+function tokenInfoToJson(info: TokenInfo | undefined): object | null {
+  if (!info) {
+    return null;
+  }
+  const iso = (ms?: number) => ms !== undefined ? new Date(ms).toISOString() : null;
+  return {
+    subject:   info.subject ?? null,
+    scopes:    info.scopes,
+    issuer:    info.issuer ?? null,
+    issuedAt:  iso(info.issuedAt),
+    expiresAt: iso(info.expiresAt),
+    claims:    info.claims,
+  };
+}
+
+/**
+ * Affiche les informations du token.
+ * @param info Informations décodées du token.
+ */
+function printTokenInfo(info: TokenInfo | undefined): void {
+  if (!info) {
+    logger.info(t('credentials.show.noToken'));
+    return;
+  }
+  const date = (ms?: number) => ms !== undefined ? new Date(ms).toISOString() : t('common.unknown');
+  const remaining = info.expiresAt !== undefined
+    ? `${Math.max(0, Math.round((info.expiresAt - Date.now()) / 1000))}s`
+    : t('common.unknown');
+  logger.info(t('credentials.show.subject',   { subject: info.subject ?? t('common.unknown') }));
+  logger.info(t('credentials.show.scopes',    { scopes: info.scopes.length > 0 ? info.scopes.join(' ') : t('credentials.show.noScopes') }));
+  logger.info(t('credentials.show.issuer',    { issuer: info.issuer ?? t('common.unknown') }));
+  logger.info(t('credentials.show.issuedAt',  { date: date(info.issuedAt) }));
+  logger.info(t('credentials.show.expiresAt', { date: date(info.expiresAt), remaining }));
+}
+
+/**
+ * Commande `appwizard credentials show` : affiche les claims du token en cache
+ * (sujet, scopes, émetteur, émission et expiration), décodés sans vérification.
+ */
+export async function credentialsShowCommand(): Promise<void> {
+  const profile  = await ProfileService.getActiveProfileName();
+  const auth     = new AuthService(profile);
+  const clientId = await auth.getClientId();
+  const info     = clientId ? await auth.getTokenInfo() : undefined;
+
+  if (isJsonMode()) {
+    printJson({
+      profile,
+      clientId: clientId ?? null,
+      source:   await auth.getCredentialSource(),
+      token:    tokenInfoToJson(info),
+    });
+    return;
+  }
+
+  if (!clientId) {
+    logger.info(t('credentials.none', { profile }));
+    return;
+  }
+  logger.info(t('credentials.show.title'));
+  logger.info(t('credentials.profile',  { profile }));
+  logger.info(t('credentials.clientId', { clientId }));
+  printTokenInfo(info);
+}
+
+/**
+ * Commande `appwizard credentials verify` : vérifie en direct le Service Account
+ * (obtention d'un nouveau token) et ses droits (accès à la liste des templates).
+ * @throws AuthError si le backend refuse le Service Account ou l'accès aux templates.
+ */
+export async function credentialsVerifyCommand(): Promise<void> {
+  const profile = await ProfileService.getActiveProfileName();
+  const auth    = new AuthService(profile);
+
+  await auth.getAccessToken({ forceRefresh: true });
+  const { data: templates } = await BackendClient.request<unknown[]>({
+    path:    '/app-templates',
+    context: t('credentials.verify.error.templates'),
+    profile,
+  });
+  const info = await auth.getTokenInfo();
+
+  if (isJsonMode()) {
+    printJson({
+      profile,
+      clientId:  (await auth.getClientId()) ?? null,
+      token:     tokenInfoToJson(info),
+      templates: Array.isArray(templates) ? templates.length : null,
+    });
+    return;
+  }
+
+  logger.info(t('credentials.verify.token'));
+  logger.info(t('credentials.verify.templates', { count: Array.isArray(templates) ? templates.length : 0 }));
+  printTokenInfo(info);
+}
+
+/**
+ * Commande `appwizard credentials lock` : chiffre le secret stocké avec une passphrase.
+ */
+export async function credentialsLockCommand(): Promise<void> {
+  await new AuthService().lock();
+}
+
+/**
+ * Commande `appwizard credentials unlock` : revient au chiffrement par la clé machine.
+ */
+export async function credentialsUnlockCommand(): Promise<void> {
+  await new AuthService().unlock();
+}
+
+/**
+ * Commande `appwizard credentials list` : liste les profils, leur Service Account et leurs endpoints.
+ * Le profil actif (`--profile` ou profil courant) est marqué d'un astérisque.
+ * Avec `--remote`, liste les Service Accounts enregistrés auprès du backend.
+ *
+ * @param options Options de la ligne de commande.
+ */
+export async function credentialsListCommand(options: CredentialsListOptions = {}): Promise<void> {
+  if (options.remote) {
+    return listRemoteServiceAccounts();
+  }
+
+  const active = await ProfileService.getActiveProfileName();
+  const rows = [];
+  for (const name of await ProfileService.listProfiles()) {
+    const auth = new AuthService(name);
+    const { endpoints } = await new ConfigService().getConfig(name);
+    rows.push({
+      name,
+      active:    name === active,
+      clientId:  (await auth.getStoredClientId()) ?? null,
+      locked:    await auth.isLocked(),
+      endpoints,
+    });
+  }
+
+  if (isJsonMode()) {
+    printJson(rows);
+    return;
+  }
+
+  logger.info(t('credentials.list.title'));
+  const width = Math.max(...rows.map(row => row.name.length), 7);
+  for (const row of rows) {
+    const marker   = row.active ? chalk.green('*') : ' ';
+    const clientId = row.clientId ?? chalk.gray(t('credentials.list.noAccount'));
+    const lock     = row.locked ? ' 🔒' : '';
+    logger.info(` ${marker} ${row.name.padEnd(width)}  ${clientId}${lock}`);
+    logger.info(chalk.gray(`   ${''.padEnd(width)}  ${row.endpoints.backendUrl}`));
+  }
+}
+
+/**
+ * Liste les Service Accounts du backend ; celui du profil actif est marqué d'un astérisque.
+ */
+async function listRemoteServiceAccounts(): Promise<void> {
+  const profile  = await ProfileService.getActiveProfileName();
+  const current  = await new AuthService(profile).getClientId();
+  const accounts = await ServiceAccountService.list(profile);
+
+  if (isJsonMode()) {
+    printJson(accounts.map(account => ({ ...account, current: account.clientId === current })));
+    return;
+  }
+
+  if (accounts.length === 0) {
+    logger.info(t('credentials.remote.none'));
+    return;
+  }
+  logger.info(t('credentials.remote.title'));
+  const width = Math.max(...accounts.map(account => account.clientId.length));
+  for (const account of accounts) {
+    const marker  = account.clientId === current ? chalk.green('*') : ' ';
+    const details = [
+      account.name,
+      account.createdAt  && t('credentials.remote.created',  { date: account.createdAt }),
+      account.lastUsedAt && t('credentials.remote.lastUsed', { date: account.lastUsedAt }),
+    ].filter(Boolean).join(' · ');
+    logger.info(` ${marker} ${account.clientId.padEnd(width)}  ${chalk.gray(details)}`);
+  }
+}
+
+/**
+ * Commande `appwizard credentials rotate` : génère un nouveau secret pour le Service Account
+ * du profil, l'enregistre puis vérifie qu'il permet d'obtenir un token.
+ */
+export async function credentialsRotateCommand(): Promise<void> {
+  const profile  = await ProfileService.getActiveProfileName();
+  const clientId = await ServiceAccountService.rotate(profile);
+  if (isJsonMode()) {
+    printJson({ profile, clientId, rotated: true });
+    return;
+  }
+  logger.info(t('credentials.rotate.done', { clientId }));
+}
+
+/**
+ * Commande `appwizard credentials revoke [clientId]` : révoque un Service Account auprès du backend.
+ * Sans identifiant, le Service Account du profil est révoqué, puis supprimé localement.
+ * La révocation est confirmée par `--yes` ou interactivement.
+ *
+ * @param clientId Identifiant du Service Account (celui du profil par défaut).
+ * @param options  Options de la ligne de commande.
+ */
+export async function credentialsRevokeCommand(clientId: string | undefined, options: CredentialsRevokeOptions = {}): Promise<void> {
+  const profile = await ProfileService.getActiveProfileName();
+  const auth    = new AuthService(profile);
+  const stored  = await auth.getStoredClientId();
+  const target  = clientId ?? await auth.getClientId();
+  if (!target) {
+    throw new AuthError(t('auth.error.noServiceAccount', { profile }));
+  }
+
+  const confirm = await resolveOption(options.yes || undefined, '--yes', async () => {
+    const response = await prompts({
+      type: 'confirm',
+      name: 'confirm',
+      message: t('credentials.revoke.confirm', { clientId: target }),
+      initial: false,
+    });
+    return response.confirm as boolean | undefined;
+  });
+  if (!confirm) {
+    logger.info(t('credentials.revoke.cancelled'));
+    return;
+  }
+
+  await ServiceAccountService.revoke(target, profile);
+  logger.info(t('credentials.revoke.done', { clientId: target }));
+  if (target === stored) {
+    await auth.clear();
+  }
+}
+
+/**
+ * Commande `appwizard credentials use <profile>` : définit le profil courant.
+ *
+ * @param name Nom du profil.
+ */
+export async function credentialsUseCommand(name: string): Promise<void> {
+  await ProfileService.useProfile(name);
+  logger.info(t('credentials.use.done', { profile: name }));
+}
+
+/**
+ * Commande `appwizard credentials remove <profile>` : supprime un profil et son Service Account.
+ * La suppression est confirmée par `--yes` ou interactivement.
+ *
+ * @param name    Nom du profil.
+ * @param options Options de la ligne de commande.
+ */
+export async function credentialsRemoveCommand(name: string, options: CredentialsRemoveOptions = {}): Promise<void> {
+  const profiles = await ProfileService.listProfiles();
+  if (!profiles.includes(name)) {
+    throw new ConfigError(t('profile.error.unknown', { profile: name, profiles: profiles.join(', ') }));
+  }
+
+  const confirm = await resolveOption(options.yes || undefined, '--yes', async () => {
+    const response = await prompts({
+      type: 'confirm',
+      name: 'confirm',
+      message: t('credentials.remove.confirm', { profile: name }),
+      initial: false,
+    });
+    return response.confirm as boolean | undefined;
+  });
+  if (!confirm) {
+    logger.info(t('credentials.remove.cancelled'));
+    return;
   }
+  await ProfileService.removeProfile(name);
+  logger.info(t('credentials.remove.done', { profile: name }));
 }
@@ -1,29 +1,46 @@
 import prompts from 'prompts';
 import chalk from 'chalk';
+import type { DeployCommandOptions } from '../types/cli-options.js';
+import { isInteractive, resolveOption } from '../utils/prompt-utils.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
-export async function deployCommand(): Promise<void> {
+/**
+ * Commande "deploy" : déploiement du projet en production.
+ * La confirmation peut être donnée via `--yes` pour une exécution non interactive.
+ *
+ * @param options Options de la ligne de commande.
+ */
+export async function deployCommand(options: DeployCommandOptions = {}): Promise<void> {
   console.clear();
-  console.log(chalk.yellow('======================================'));
-  console.log(chalk.yellow('         DEPLOY OPTIONS (PROD)        '));
-  console.log(chalk.yellow('======================================\n'));
+  logger.info(chalk.yellow('======================================'));
+  logger.info(chalk.yellow(t('deploy.title')));
+  logger.info(chalk.yellow('======================================\n'));
 
   // 0) Confirmation globale
-  const { confirm } = await prompts({
-    type: 'confirm',
-    name: 'confirm',
-    message: '1) Confirmez-vous le déploiement en production ?',
-    initial: false
+  const confirm = await resolveOption(options.yes || undefined, '--yes', async () => {
+    const response = await prompts({
+      type: 'confirm',
+      name: 'confirm',
+      message: t('deploy.prompt.confirm'),
+      initial: false
+    });
+    return response.confirm as boolean | undefined;
   });
   if (!confirm) {
-    console.log(chalk.red('\n✖ Déploiement annulé.'));
+    logger.info(chalk.red(t('deploy.cancelled')));
     return;
   }
 
   // 8) Pause finale
-  console.log();
+  logger.info();
+  if (!isInteractive()) {
+    logger.info(chalk.gray(t('deploy.unavailable')));
+    return;
+  }
   await prompts({
     type: 'text',
     name: 'pause',
-    message: chalk.gray('Fonctionnalite actuellement indisponible. Appuyez sur Entrée pour terminer…'),
+    message: chalk.gray(t('deploy.unavailablePause')),
   });
 }
@@ -1,102 +1,99 @@
 import prompts from 'prompts';
 import chalk from 'chalk';
-import { execSync } from 'child_process';
 import { BuildService } from '../services/build-service.js';
 import { TemplateConfigService } from '../services/template-config-service.js';
 import { CleanService } from '../services/clean-service.js';
+import type { CleanMode, DevRunCommandOptions } from '../types/cli-options.js';
+import { isInteractive, pause, resolveOption } from '../utils/prompt-utils.js';
+import { DockerError, TemplateError } from '../errors/app-wizard-errors.js';
+import { runCommand } from '../utils/operation-utils.js';
+import { ProjectService } from '../services/project-service.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
 /**
- * Commande interactive "dev-run" qui lance les conteneurs Docker en mode développement.
+ * Commande "dev-run" qui lance les conteneurs Docker en mode développement.
  * L'utilisateur peut choisir de lancer un nettoyage, un build pré-run, puis le run.
+ * Ces choix peuvent être fournis via `--build`/`--no-build` et `--clean` pour une exécution non interactive.
+ *
+ * @param options Options de la ligne de commande.
  */
-export async function devRunCommand(): Promise<void> {
-  console.clear();
-  console.log(chalk.yellow('======================================'));
-  console.log(chalk.yellow('             Dev Run Options'));
-  console.log(chalk.yellow('======================================'));
+export async function devRunCommand(options: DevRunCommandOptions = {}): Promise<void> {
+  if (isInteractive()) {
+    console.clear();
+    logger.info(chalk.yellow('======================================'));
+    logger.info(chalk.yellow(t('devRun.title')));
+    logger.info(chalk.yellow('======================================'));
+  }
 
   // Chargement et validation de la configuration du template
   const templateConfig = await TemplateConfigService.checkTemplateConfig();
 
   // Demander si on souhaite un build pré-run
-  const buildResponse = await prompts({
-    type: 'confirm',
-    name: 'buildAgain',
-    message: 'Souhaitez-vous effectuer un build pré-run (avec nettoyage optionnel) avant de lancer le dev run ?',
-    initial: false
-  });
-
-  if (buildResponse.buildAgain) {
-    // Demander un nettoyage avant le build
-    const cleanResponse = await prompts({
+  const buildAgain = await resolveOption(options.build, '--build | --no-build', async () => {
+    const buildResponse = await prompts({
       type: 'confirm',
-      name: 'clean',
-      message: 'Souhaitez-vous effectuer un nettoyage de l\'environnement avant le build ?',
-      initial: true
+      name: 'buildAgain',
+      message: t('devRun.prompt.build'),
+      initial: false
     });
+    return buildResponse.buildAgain as boolean | undefined;
+  });
+
+  if (buildAgain) {
+    // Demander un nettoyage avant le build, puis son type
+    const cleanMode = await resolveOption(options.clean, '--clean <none|normal|forced>', async () => {
+      const cleanResponse = await prompts({
+        type: 'confirm',
+        name: 'clean',
+        message: t('devRun.prompt.clean'),
+        initial: true
+      });
+      if (!cleanResponse.clean) {
+        return 'none';
+      }
 
-    if (cleanResponse.clean) {
-      // Choix du type de nettoyage
       const cleanTypeResponse = await prompts({
         type: 'select',
         name: 'cleanType',
-        message: 'Quel type de nettoyage voulez-vous ?',
+        message: t('devRun.prompt.cleanType'),
         choices: [
-          { title: 'Light (nettoyage standard)', value: 'light' },
-          { title: 'Intégral (nettoyage complet)', value: 'integral' }
+          { title: t('devRun.cleanType.light'), value: 'normal' },
+          { title: t('devRun.cleanType.full'), value: 'forced' }
         ]
       });
+      return cleanTypeResponse.cleanType as CleanMode | undefined;
+    });
 
-      if (cleanTypeResponse.cleanType === 'light') {
-        console.log(chalk.blue('Exécution d\'un nettoyage standard...'));
-        try {
-          await CleanService.performGlobalClean();
-          console.log(chalk.green('Nettoyage standard terminé.'));
-        } catch (error) {
-          console.error(chalk.red('Erreur lors du nettoyage standard :'), error);
-          return;
-        }
-      } else if (cleanTypeResponse.cleanType === 'integral') {
-        console.log(chalk.blue('Exécution d\'un nettoyage complet...'));
-        try {
-          await CleanService.fullClean();
-          console.log(chalk.green('Nettoyage complet terminé.'));
-        } catch (error) {
-          console.error(chalk.red('Erreur lors du nettoyage complet :'), error);
-          return;
-        }
-      }
+    if (cleanMode === 'normal') {
+      logger.info(chalk.blue(t('devRun.standardClean')));
+      await CleanService.performGlobalClean();
+      logger.info(chalk.green(t('common.standardCleanDone')));
+    } else if (cleanMode === 'forced') {
+      logger.info(chalk.blue(t('devRun.fullClean')));
+      await CleanService.fullClean();
+      logger.info(chalk.green(t('common.fullCleanDone')));
     }
 
     // Lancement du build pré-run en mode dev
-    try {
-      console.log(chalk.blue('Lancement du build pré-run en dev...'));
-      await BuildService.buildDev();
-      console.log(chalk.green('Build pré-run terminé.'));
-    } catch (error) {
-      console.error(chalk.red('Erreur lors du build pré-run :'), error);
-      return;
-    }
+    logger.info(chalk.blue(t('devRun.prebuild.start')));
+    await BuildService.buildDev();
+    logger.info(chalk.green(t('devRun.prebuild.done')));
   }
 
   // Vérification de la commande runDevCommand dans la config
   if (!templateConfig.runDevCommand) {
-    console.error(chalk.red('La commande runDevCommand n\'est pas définie dans le template.'));
-    return;
+    throw new TemplateError(t('devRun.error.noRunCommand'));
   }
 
   // Lancement des conteneurs en mode dev
   try {
-    console.log(chalk.blue(`Lancement des conteneurs en mode dev via : ${templateConfig.runDevCommand}`));
-    execSync(templateConfig.runDevCommand, { stdio: 'inherit' });
+    logger.info(chalk.blue(t('devRun.starting', { command: templateConfig.runDevCommand })));
+    runCommand(templateConfig.runDevCommand, { cwd: ProjectService.getProjectRoot() });
   } catch (error) {
-    console.error(chalk.red('Erreur lors du lancement des conteneurs en mode dev :'), error);
+    throw new DockerError(t('devRun.error.runFailed'), error);
   }
 
   // Pause finale pour l'utilisateur
-  await prompts({
-    type: 'text',
-    name: 'pause',
-    message: 'Appuyez sur Entrée pour continuer...',
-  });
+  await pause();
 }
\ No newline at end of file
@@ -1,8 +1,70 @@
-import { execSync } from 'child_process';
-import axios from 'axios';
 import chalk from 'chalk';
 import prompts from 'prompts';
 import { checkInternet, checkGit, checkRepo, checkDocker, checkDockerCompose } from './helpers.js';
+import { isJsonMode, printJson } from '../utils/output-utils.js';
+import { runCommand } from '../utils/operation-utils.js';
+import { HttpService } from '../services/http-service.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
+
+/**
+ * Résultat d'une vérification de prérequis.
+ */
+export interface DoctorCheck {
+  /** Identifiant stable de la vérification. */
+  id: 'internet' | 'git' | 'repo' | 'docker' | 'dockerCompose';
+  /** Libellé affiché. */
+  label: string;
+  /** Vrai si le prérequis est satisfait. */
+  ok: boolean;
+  /** Détail de l'échec, si disponible. */
+  detail?: string;
+}
+
+/**
+ * Exécute l'ensemble des vérifications de prérequis.
+ * Pour l'accès au dépôt GitHub, l'erreur est analysée pour fournir un détail.
+ *
+ * @returns La liste des résultats, dans l'ordre d'affichage.
+ */
+async function runChecks(): Promise<DoctorCheck[]> {
+  const repo = await checkRepo();
+
+  // Analyse de l'accès au dépôt et récupération du détail en cas d'erreur
+  let repoErrorDetail: string | undefined;
+  if (!repo) {
+    try {
+      await HttpService.get('https://github.com/Kactus83/app-template');
+    } catch (err: any) {
+      if (err.response && err.response.status) {
+        repoErrorDetail = t('doctor.httpStatus', { status: err.response.status });
+      } else {
+        repoErrorDetail = err.message;
+      }
+    }
+  }
+
+  return [
+    { id: 'internet', label: t('doctor.check.internet'), ok: await checkInternet() },
+    { id: 'git', label: t('doctor.check.git'), ok: checkGit() },
+    { id: 'repo', label: t('doctor.check.repo'), ok: repo, detail: repoErrorDetail },
+    { id: 'docker', label: t('doctor.check.docker'), ok: checkDocker() },
+    { id: 'dockerCompose', label: t('doctor.check.dockerCompose'), ok: checkDockerCompose() },
+  ];
+}
+
+/**
+ * Affiche l'état de chaque vérification.
+ * @param checks Résultats à afficher.
+ */
+function printChecks(checks: DoctorCheck[]): void {
+  for (const check of checks) {
+    const status = check.ok
+      ? chalk.green(t('common.ok'))
+      : chalk.red(check.detail ? t('common.failedWithDetail', { detail: check.detail }) : t('common.failed'));
+    logger.info(`${check.label.padEnd(18)} : ${status}`);
+  }
+}
 
 /**
  * Commande "doctor" qui exécute un diagnostic complet en vérifiant les prérequis,
@@ -13,6 +75,8 @@ import { checkInternet, checkGit, checkRepo, checkDocker, checkDockerCompose } f
  * Pour Docker, si le test initial échoue, l'utilisateur peut choisir de tenter
  * un correctif automatique (exécution d'un "docker system prune"). Ensuite, le test est retesté.
  * Pour l'accès au dépôt GitHub, l'erreur est analysée pour fournir un détail.
+ * Avec `--json`, les vérifications sont exécutées une seule fois, sans correctif,
+ * et le résultat est émis sous forme de document JSON.
  *
  * @returns Promise<void> Une fois le diagnostic et les éventuels correctifs terminés.
  *
@@ -23,99 +87,76 @@ import { checkInternet, checkGit, checkRepo, checkDocker, checkDockerCompose } f
  * Kactus83
  */
 export async function doctorCommand(): Promise<void> {
+  if (isJsonMode()) {
+    const checks = await runChecks();
+    printJson({ ok: checks.every(c => c.ok), checks });
+    return;
+  }
+
   console.clear();
-  console.log(chalk.blue('🩺 Diagnostic avancé avec tentatives de correctifs automatiques...\n'));
+  logger.info(chalk.blue(t('doctor.title')));
 
   // --- Vérification initiale des prérequis ---
-  const internetInitial = await checkInternet();
-  const gitInitial = checkGit();
-  let repoInitial = await checkRepo();
-  let dockerInitial = checkDocker();
-  let dockerComposeInitial = checkDockerCompose();
+  const initialChecks = await runChecks();
+  const initial = Object.fromEntries(initialChecks.map(c => [c.id, c.ok])) as Record<DoctorCheck['id'], boolean>;
 
-  // Analyse de l'accès au dépôt et récupération du détail en cas d'erreur
-  let repoErrorDetail = '';
-  if (!repoInitial) {
-    try {
-      await axios.get('https://github.com/Kactus83/app-template', { timeout: 5000 });
-    } catch (err: any) {
-      if (err.response && err.response.status) {
-        repoErrorDetail = `HTTP status code: ${err.response.status}`;
-      } else {
-        repoErrorDetail = err.message;
-      }
-    }
-  }
-
-  console.log(chalk.blue('--- État initial ---'));
-  console.log(`Connexion Internet : ${internetInitial ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Git                : ${gitInitial ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Accès au dépôt GitHub "app-template" : ${repoInitial ? chalk.green('OK') : chalk.red(`ÉCHEC (${repoErrorDetail})`)}`);
-  console.log(`Docker             : ${dockerInitial ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Docker Compose     : ${dockerComposeInitial ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log('');
+  logger.info(chalk.blue(t('doctor.initialState')));
+  printChecks(initialChecks);
+  logger.info('');
 
   // --- Tentatives de correctifs automatiques là où c'est envisageable ---
 
   // Pour Docker
-  if (!dockerInitial) {
-    console.log(chalk.red('❌ Docker n\'est pas disponible.'));
+  if (!initial.docker) {
+    logger.info(chalk.red(t('doctor.dockerUnavailable')));
     const resDocker = await prompts({
       type: 'confirm',
       name: 'fixDocker',
-      message: 'Voulez-vous tenter un correctif automatique pour Docker ?',
+      message: t('doctor.prompt.fixDocker'),
       initial: false,
     });
     if (resDocker.fixDocker) {
       try {
-        console.log(chalk.blue('Tentative de correction automatique pour Docker...'));
-        execSync('docker system prune --all --force', { stdio: 'inherit' });
+        logger.info(chalk.blue(t('doctor.fixingDocker')));
+        runCommand('docker system prune --all --force');
       } catch (error) {
-        console.error(chalk.red('Échec de la tentative de correction pour Docker.'));
+        logger.error(chalk.red(t('doctor.fixDockerFailed')));
       }
     }
   }
 
   // Pour GitHub (accès au dépôt) : pas de correctif automatique possible,
   // mais on invite l'utilisateur à vérifier sa connexion ou ses paramètres.
-  if (!repoInitial) {
-    console.log(chalk.red('❌ L\'accès au dépôt GitHub "app-template" a échoué.'));
-    console.log(chalk.yellow('→ Vérifiez votre connexion, vos paramètres proxy ou l\'URL du dépôt.'));
+  if (!initial.repo) {
+    logger.info(chalk.red(t('doctor.repoFailed')));
+    logger.info(chalk.yellow(t('doctor.repoAdvice')));
   }
 
   // Pas de correctifs automatiques envisageables pour Internet, Git ou Docker Compose.
-  if (!gitInitial) {
-    console.log(chalk.red('❌ Git n\'est pas installé.'));
+  if (!initial.git) {
+    logger.info(chalk.red(t('doctor.gitMissing')));
   }
-  if (!dockerComposeInitial) {
-    console.log(chalk.red('❌ Docker Compose n\'est pas installé.'));
+  if (!initial.dockerCompose) {
+    logger.info(chalk.red(t('doctor.dockerComposeMissing')));
   }
 
   // --- Re-test des prérequis après les tentatives de correctifs ---
-  const internetFinal = await checkInternet();
-  const gitFinal = checkGit();
-  const repoFinal = await checkRepo();
-  const dockerFinal = checkDocker();
-  const dockerComposeFinal = checkDockerCompose();
-
-  console.log(chalk.blue('\n--- État final après tentatives de correctifs ---'));
-  console.log(`Connexion Internet : ${internetFinal ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Git                : ${gitFinal ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Accès au dépôt GitHub "app-template" : ${repoFinal ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Docker             : ${dockerFinal ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Docker Compose     : ${dockerComposeFinal ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
+  const finalChecks = await runChecks();
+
+  logger.info(chalk.blue(t('doctor.finalState')));
+  printChecks(finalChecks);
 
   // --- Compte rendu final ---
-  if (internetFinal && gitFinal && repoFinal && dockerFinal && dockerComposeFinal) {
-    console.log(chalk.bold.green('\n🎉 Diagnostic avancé : Tous les prérequis sont satisfaits.'));
+  if (finalChecks.every(c => c.ok)) {
+    logger.info(chalk.bold.green(t('doctor.allOk')));
   } else {
-    console.log(chalk.bold.red('\n❗ Diagnostic avancé : Certains prérequis ne sont toujours pas satisfaits.'));
-    console.log(chalk.yellow('Veuillez suivre les conseils ci-dessus pour corriger les problèmes.'));
+    logger.info(chalk.bold.red(t('doctor.someFailed')));
+    logger.info(chalk.yellow(t('doctor.followAdvice')));
   }
 
   await prompts({
     type: 'text',
     name: 'pause',
-    message: 'Appuyez sur Entrée pour continuer...',
+    message: t('common.pressEnter'),
   });
 }
@@ -1,7 +1,10 @@
 import { execSync } from 'child_process';
-import axios from 'axios';
 import chalk from 'chalk';
 import prompts from 'prompts';
+import { HttpService } from '../services/http-service.js';
+import { logger } from '../services/logger-service.js';
+import { runCommand } from '../utils/operation-utils.js';
+import { t } from '../i18n/index.js';
 
 /**
  * Vérifie la connexion Internet en tentant d'accéder à google.com.
@@ -10,7 +13,7 @@ import prompts from 'prompts';
  */
 export async function checkInternet(): Promise<boolean> {
   try {
-    await axios.get('https://google.com', { timeout: 5000 });
+    await HttpService.get('https://google.com');
     return true;
   } catch {
     return false;
@@ -38,7 +41,7 @@ export function checkGit(): boolean {
  */
 export async function checkRepo(): Promise<boolean> {
   try {
-    await axios.get('https://github.com/Kactus83/app-template', { timeout: 5000 });
+    await HttpService.get('https://github.com/Kactus83/app-template');
     return true;
   } catch {
     return false;
@@ -82,14 +85,14 @@ export function openUrl(url: string): void {
   const platform = process.platform;
   try {
     if (platform === 'win32') {
-      execSync(`start "" "${url}"`);
+      runCommand(`start "" "${url}"`, { stdio: 'pipe' });
     } else if (platform === 'darwin') {
-      execSync(`open "${url}"`);
+      runCommand(`open "${url}"`, { stdio: 'pipe' });
     } else {
-      execSync(`xdg-open "${url}"`);
+      runCommand(`xdg-open "${url}"`, { stdio: 'pipe' });
     }
   } catch (error) {
-    console.error(chalk.red(`Erreur lors de l'ouverture de ${url}:`), error);
+    logger.error(chalk.red(t('helpers.error.openUrl', { url })), error);
   }
 }
 
@@ -103,12 +106,12 @@ export function openUrl(url: string): void {
  * - Swagger : http://localhost:3000/api-docs
  */
 export function openWebPages(): void {
-  console.log(chalk.blue('\nOuverture des fenêtres web du projet...'));
+  logger.info(chalk.blue(t('helpers.openingPages')));
   openUrl('http://localhost:8025');  // Mailhog
   openUrl('http://localhost:4200');   // Frontend
   openUrl('http://localhost:3000/docs');  // Documentation
   openUrl('http://localhost:3000/api-docs'); // Swagger
-  console.log(chalk.green('✅ Les fenêtres web ont été ouvertes.'));
+  logger.info(chalk.green(t('helpers.pagesOpened')));
 }
 
 /**
@@ -118,7 +121,7 @@ export function openWebPages(): void {
  */
 export async function runDetailedDiagnostic(): Promise<void> {
   console.clear();
-  console.log(chalk.magenta('🔍 Diagnostic détaillé de l\'environnement\n'));
+  logger.info(chalk.magenta(t('helpers.diagnostic.title')));
   
   const internet = await checkInternet();
   const git = checkGit();
@@ -126,39 +129,40 @@ export async function runDetailedDiagnostic(): Promise<void> {
   const docker = checkDocker();
   const dockerCompose = checkDockerCompose();
   
-  console.log(`Connexion Internet : ${internet ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Git                : ${git ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Dépôt GitHub       : ${repo ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Docker             : ${docker ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
-  console.log(`Docker Compose     : ${dockerCompose ? chalk.green('OK') : chalk.red('ÉCHEC')}`);
+  const status = (ok: boolean) => ok ? chalk.green(t('common.ok')) : chalk.red(t('common.failed'));
+  logger.info(`${t('helpers.diagnostic.internet').padEnd(19)}: ${status(internet)}`);
+  logger.info(`${t('helpers.diagnostic.git').padEnd(19)}: ${status(git)}`);
+  logger.info(`${t('helpers.diagnostic.repo').padEnd(19)}: ${status(repo)}`);
+  logger.info(`${t('helpers.diagnostic.docker').padEnd(19)}: ${status(docker)}`);
+  logger.info(`${t('helpers.diagnostic.dockerCompose').padEnd(19)}: ${status(dockerCompose)}`);
   
   // Conseils détaillés en cas d'échec
   if (!internet) {
-    console.log(chalk.yellow('→ Vérifiez votre connexion internet et vos paramètres réseau.'));
+    logger.info(chalk.yellow(t('helpers.advice.internet')));
   }
   if (!git) {
-    console.log(chalk.yellow('→ Installez Git depuis : https://git-scm.com/downloads'));
+    logger.info(chalk.yellow(t('helpers.advice.git')));
   }
   if (!repo) {
-    console.log(chalk.yellow('→ Vérifiez votre accès à GitHub ou l\'URL du dépôt "app-template".'));
+    logger.info(chalk.yellow(t('helpers.advice.repo')));
   }
   if (!docker) {
-    console.log(chalk.yellow('→ Installez Docker depuis : https://docs.docker.com/get-docker/'));
+    logger.info(chalk.yellow(t('helpers.advice.docker')));
   }
   if (!dockerCompose) {
-    console.log(chalk.yellow('→ Installez Docker Compose depuis : https://docs.docker.com/compose/install/'));
+    logger.info(chalk.yellow(t('helpers.advice.dockerCompose')));
   }
   
   if (internet && git && repo && docker && dockerCompose) {
-    console.log(chalk.bold.green('\n🎉 Diagnostic : Tout est opérationnel.'));
+    logger.info(chalk.bold.green(t('helpers.diagnostic.allOk')));
   } else {
-    console.log(chalk.bold.red('\n❗ Diagnostic : Certains prérequis ne sont pas satisfaits.'));
+    logger.info(chalk.bold.red(t('helpers.diagnostic.someFailed')));
   }
   
   await prompts({
     type: 'text',
     name: 'pause',
-    message: 'Appuyez sur Entrée pour continuer...',
+    message: t('common.pressEnter'),
   });
 }
 
@@ -171,16 +175,16 @@ export async function runDetailedDiagnostic(): Promise<void> {
  */
 export async function helpersCommand(): Promise<void> {
   console.clear();
-  console.log(chalk.magenta('🔧 Menu Helpers - Outils d\'assistance\n'));
+  logger.info(chalk.magenta(t('helpers.title')));
   
   const response = await prompts({
     type: 'select',
     name: 'option',
-    message: 'Que souhaitez-vous faire ?',
+    message: t('common.whatToDo'),
     choices: [
-      { title: '1. Effectuer un diagnostic complet de l\'environnement', value: 'diagnostic' },
-      { title: '2. Ouvrir interactivement les fenêtres web du projet', value: 'openWeb' },
-      { title: '3. Retour', value: 'return' }
+      { title: `1. ${t('helpers.menu.diagnostic')}`, value: 'diagnostic' },
+      { title: `2. ${t('helpers.menu.openWeb')}`, value: 'openWeb' },
+      { title: `3. ${t('common.back')}`, value: 'return' }
     ]
   });
   
@@ -189,7 +193,7 @@ export async function helpersCommand(): Promise<void> {
   } else if (response.option === 'openWeb') {
     // Option interactive pour ouvrir chaque fenêtre
     console.clear();
-    console.log(chalk.magenta('🌐 Ouverture interactive des fenêtres web\n'));
+    logger.info(chalk.magenta(t('helpers.openWeb.title')));
     
     const pages = [
       { title: 'Mailhog (http://localhost:8025)', url: 'http://localhost:8025' },
@@ -202,23 +206,23 @@ export async function helpersCommand(): Promise<void> {
       const res = await prompts({
         type: 'confirm',
         name: 'open',
-        message: `Voulez-vous ouvrir ${page.title} ?`,
+        message: t('helpers.openWeb.prompt', { page: page.title }),
         initial: true,
       });
       if (res.open) {
         openUrl(page.url);
-        console.log(chalk.green(`✅ ${page.title} ouvert.`));
+        logger.info(chalk.green(t('helpers.openWeb.opened', { page: page.title })));
       } else {
-        console.log(chalk.yellow(`→ ${page.title} non ouvert.`));
+        logger.info(chalk.yellow(t('helpers.openWeb.skipped', { page: page.title })));
       }
     }
     
     await prompts({
       type: 'text',
       name: 'pause',
-      message: 'Appuyez sur Entrée pour continuer...',
+      message: t('common.pressEnter'),
     });
   } else {
-    console.log(chalk.green('\nRetour au menu principal.'));
+    logger.info(chalk.green(`\n${t('common.backToMenu')}`));
   }
 }
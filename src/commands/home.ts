@@ -0,0 +1,193 @@
+/**
+ * @module commands/home
+ * Menu principal affiché lorsque `appwizard` est lancé sans argument :
+ * résumé de l'état du projet puis navigation entre les commandes,
+ * sans quitter le processus.
+ */
+
+import { execSync } from 'child_process';
+import prompts from 'prompts';
+import chalk from 'chalk';
+import { buildCommand } from './build.js';
+import { devRunCommand } from './dev-run.js';
+import { monitorCommand } from './monitor.js';
+import { cleanCommand } from './clean.js';
+import { templateCommand } from './template.js';
+import { credentialsCommand } from './credentials.js';
+import { AuthService } from '../services/auth-service.js';
+import { ProjectService } from '../services/project-service.js';
+import { ProfileService } from '../services/profile-service.js';
+import { TemplateConfigService } from '../services/template-config-service.js';
+import { isInteractive, pause } from '../utils/prompt-utils.js';
+import { isJsonMode, printJson } from '../utils/output-utils.js';
+import { logger } from '../services/logger-service.js';
+import { t, type MessageKey } from '../i18n/index.js';
+
+/**
+ * État du projet affiché en tête du menu principal.
+ */
+export interface ProjectStatus {
+  /** Racine du projet, ou `null` hors d'un projet appwizard. */
+  root: string | null;
+  /** Nom et version du template (depuis `containers/template.yaml`). */
+  template: { name: string; version: string } | null;
+  /**
+   * Profil actif, Service Account configuré et validité du token en cache,
+   * ou `null` si l'état est illisible (profils, configuration ou credentials invalides).
+   */
+  auth: { profile: string; configured: boolean; clientId: string | null; tokenValid: boolean } | null;
+  /** Services Docker en cours d'exécution, ou `null` si Docker est injoignable. */
+  runningServices: string[] | null;
+}
+
+/** Entrées du menu principal (libellés traduits à l'affichage). */
+const MENU_ENTRIES: { title: MessageKey; value: string; run: () => Promise<void> }[] = [
+  { title: 'home.menu.build',       value: 'build',       run: () => buildCommand() },
+  { title: 'home.menu.devRun',      value: 'dev-run',     run: () => devRunCommand() },
+  { title: 'home.menu.monitor',     value: 'monitor',     run: () => monitorCommand() },
+  { title: 'home.menu.clean',       value: 'clean',       run: () => cleanCommand() },
+  { title: 'home.menu.template',    value: 'template',    run: () => templateCommand() },
+  { title: 'home.menu.credentials', value: 'credentials', run: () => credentialsCommand() },
+];
+
+/**
+ * Commande par défaut : affiche l'état du projet puis un menu persistant.
+ * Chaque commande lancée depuis le menu revient au menu une fois terminée ;
+ * ses erreurs sont affichées sans interrompre la session.
+ * Hors terminal interactif (ou avec `--json`), seul l'état du projet est émis.
+ */
+export async function homeCommand(): Promise<void> {
+  if (isJsonMode()) {
+    printJson(await getProjectStatus());
+    return;
+  }
+  if (!isInteractive()) {
+    printProjectStatus(await getProjectStatus());
+    logger.info(chalk.gray(t('home.helpHint')));
+    return;
+  }
+
+  while (true) {
+    console.clear();
+    logger.info(chalk.cyan(t('home.title')));
+    printProjectStatus(await getProjectStatus());
+
+    const { choice } = await prompts({
+      type: 'select',
+      name: 'choice',
+      message: t('common.whatToDo'),
+      choices: [
+        ...MENU_ENTRIES.map(({ title, value }) => ({ title: t(title), value })),
+        { title: t('home.menu.quit'), value: 'quit' },
+      ],
+    });
+
+    const entry = MENU_ENTRIES.find(e => e.value === choice);
+    if (!entry) {
+      logger.info(chalk.green(t('common.farewell')));
+      return;
+    }
+
+    try {
+      await entry.run();
+    } catch (error) {
+      logger.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+      await pause();
+    }
+  }
+}
+
+/**
+ * Rassemble l'état du projet. Aucune des vérifications ne lève d'erreur :
+ * une information indisponible est signalée comme absente ou inconnue.
+ */
+async function getProjectStatus(): Promise<ProjectStatus> {
+  const root = ProjectService.findProjectRoot() ?? null;
+
+  let template: ProjectStatus['template'] = null;
+  if (root) {
+    try {
+      const config = await TemplateConfigService.loadTemplateConfig();
+      template = { name: config.name, version: config.version };
+    } catch {
+      template = null;
+    }
+  }
+
+  let auth: ProjectStatus['auth'] = null;
+  try {
+    const profile = await ProfileService.getActiveProfileName();
+    const service = new AuthService(profile);
+    const clientId = await service.getClientId();
+    const exp = await service.getTokenExpiry();
+    auth = {
+      profile,
+      configured: Boolean(clientId),
+      clientId: clientId ?? null,
+      tokenValid: exp !== undefined && exp > Date.now(),
+    };
+  } catch (error) {
+    logger.debug('Auth status unavailable:', error);
+  }
+
+  return {
+    root,
+    template,
+    auth,
+    runningServices: root ? getRunningServices(root) : null,
+  };
+}
+
+/**
+ * Liste les services Docker Compose en cours d'exécution.
+ * @param root Racine du projet (dossier du docker-compose).
+ * @returns Les services démarrés, ou `null` si Docker ne répond pas.
+ */
+function getRunningServices(root: string): string[] | null {
+  try {
+    const output = execSync('docker-compose ps --services --filter status=running', {
+      encoding: 'utf-8',
+      cwd: root,
+      stdio: 'pipe',
+    });
+    return output.split('\n').map(line => line.trim()).filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Affiche le résumé de l'état du projet.
+ */
+function printProjectStatus(status: ProjectStatus): void {
+  if (!status.root) {
+    logger.info(chalk.yellow(t('home.status.noProject', { dir: ProjectService.getWorkingDirectory() })));
+  } else {
+    logger.info(t('home.status.project', { root: status.root }));
+    logger.info(status.template
+      ? t('home.status.template', status.template)
+      : chalk.yellow(t('home.status.templateUnreadable')));
+  }
+
+  if (!status.auth) {
+    logger.info(chalk.yellow(t('home.status.authUnknown')));
+  } else if (!status.auth.configured) {
+    logger.info(chalk.yellow(t('home.status.noAuth', { profile: status.auth.profile })));
+  } else {
+    const token = status.auth.tokenValid
+      ? chalk.green(t('home.status.tokenValid'))
+      : chalk.yellow(t('home.status.tokenExpired'));
+    logger.info(t('home.status.auth', { clientId: status.auth.clientId ?? '', profile: status.auth.profile, token }));
+  }
+
+  if (status.root) {
+    if (status.runningServices === null) {
+      logger.info(chalk.yellow(t('home.status.dockerDown')));
+    } else if (status.runningServices.length === 0) {
+      logger.info(t('home.status.noContainers'));
+    } else {
+      logger.info(chalk.green(t('home.status.containers', { services: status.runningServices.join(', ') })));
+    }
+  }
+  logger.info('');
+}
@@ -3,32 +3,82 @@
  * Implémente la commande `appwizard login` :
  * - saisie manuelle,
  * - import de fichier JSON (sélection parmi ~/Downloads, filtré),
- * - ouverture du navigateur + import.
+ * - création dans le navigateur, credentials reçus sur un serveur local (callback),
+ * - vérification des credentials de l'environnement (`--from-env`), sans écriture.
+ * Le Service Account est enregistré dans le profil actif (`--profile`) ;
+ * un nouveau profil est créé après saisie de ses endpoints.
  */
 
-import open from 'open';
 import prompts from 'prompts';
 import fs from 'fs-extra';
 import * as path from 'path';
 import os from 'os';
 import { AuthService } from '../services/auth-service.js';
 import type { ServiceAccount } from '../types/auth.js';
+import type { LoginCommandOptions } from '../types/cli-options.js';
 import { ConfigService } from '../services/config-service.js';
+import { ProfileService } from '../services/profile-service.js';
+import { LoginCallbackService } from '../services/login-callback-service.js';
+import { UsageError } from '../errors/app-wizard-errors.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
-export async function loginCommand(): Promise<void> {
-  const auth   = new AuthService();
-  const config = await new ConfigService().getConfig();
+/**
+ * Crée un profil après saisie de ses endpoints (pré-remplis avec la configuration actuelle).
+ * @param profile Nom du profil à créer.
+ */
+async function createProfile(profile: string): Promise<void> {
+  logger.info(t('login.newProfile', { profile }));
+  const { endpoints } = await new ConfigService().getConfig(profile);
+  const resp = await prompts([
+    { type: 'text', name: 'backendUrl',  message: t('config.prompt.backendUrl'),  initial: endpoints.backendUrl  },
+    { type: 'text', name: 'frontendUrl', message: t('config.prompt.frontendUrl'), initial: endpoints.frontendUrl },
+  ]);
+  const backendUrl  = (resp as any).backendUrl as string | undefined;
+  const frontendUrl = (resp as any).frontendUrl as string | undefined;
+  if (!backendUrl || !frontendUrl) {
+    throw new UsageError(t('login.error.endpointsRequired'));
+  }
+  await ProfileService.saveProfile(profile, { endpoints: { backendUrl, frontendUrl } });
+}
+
+/**
+ * Vérifie les credentials de `APPWIZARD_CLIENT_ID`/`APPWIZARD_CLIENT_SECRET`
+ * en obtenant un token, sans écrire de fichier ni créer de profil.
+ * @throws UsageError si les variables ne sont pas définies.
+ */
+async function loginFromEnv(): Promise<void> {
+  const auth = new AuthService();
+  if (await auth.getCredentialSource() !== 'env') {
+    throw new UsageError(t('login.error.noEnv'));
+  }
+  await auth.getAccessToken();
+  logger.info(t('login.fromEnv.success', { clientId: (await auth.getClientId()) ?? '' }));
+}
+
+export async function loginCommand(options: LoginCommandOptions = {}): Promise<void> {
+  if (options.fromEnv) {
+    return loginFromEnv();
+  }
+
+  const profile = await ProfileService.getActiveProfileName();
+  if (!(await ProfileService.getProfile(profile))) {
+    await createProfile(profile);
+  }
+
+  const auth   = new AuthService(profile);
+  const config = await new ConfigService().getConfig(profile);
   const { frontendUrl } = config.endpoints;
 
   // 1) Choix du mode
   const modeResp = await prompts({
     type:    'select',
     name:    'mode',
-    message: 'Mode de récupération des credentials Service Account :',
+    message: t('login.prompt.mode'),
     choices: [
-      { title: 'Manuel (saisie)',           value: 'manual' },
-      { title: 'Fichier JSON (Downloads)',  value: 'file'   },
-      { title: 'Via navigateur (download)', value: 'web'    },
+      { title: t('login.mode.manual'), value: 'manual' },
+      { title: t('login.mode.file'),   value: 'file'   },
+      { title: t('login.mode.web'),    value: 'web'    },
     ],
     initial: 0,
   });
@@ -40,33 +90,23 @@ export async function loginCommand(): Promise<void> {
   if (mode === 'manual') {
     // Saisie manuelle
     const resp = await prompts([
-      { type: 'text',     name: 'clientId',     message: 'Client ID :'     },
-      { type: 'password', name: 'clientSecret', message: 'Client Secret :' },
+      { type: 'text',     name: 'clientId',     message: t('login.prompt.clientId')     },
+      { type: 'password', name: 'clientSecret', message: t('login.prompt.clientSecret') },
     ]);
     const clientId     = (resp as any).clientId as string | undefined;
     const clientSecret = (resp as any).clientSecret as string | undefined;
     if (!clientId || !clientSecret) {
-      console.error('❌ Les deux champs sont requis.');
-      return;
+      throw new UsageError(t('login.error.bothRequired'));
     }
     sa = { clientId, clientSecret };
   }
+  else if (mode === 'web') {
+    // Le frontend renvoie les credentials au serveur local du CLI
+    sa = await LoginCallbackService.receiveServiceAccount(frontendUrl);
+    logger.info(t('login.callbackReceived', { clientId: sa.clientId }));
+  }
   else {
-    // Mode file ou web
-    if (mode === 'web') {
-      console.log('🌐 Ouverture du navigateur pour créer votre Service Account…');
-      await open(`${frontendUrl}/service-account-creation`);
-
-      // Prompt pour attendre la création du Service Account
-      const resp = await prompts({
-        type:    'confirm',
-        name:    'confirm',
-        message: 'Avez-vous créé le Service Account ?',
-        initial: true,
-      });
-      console.log('→ Une fois le JSON téléchargé, choisissez-le ci-dessous.');
-    }
-
+    // Mode file
     const downloadDir = path.join(os.homedir(), 'Downloads');
     let files: string[] = [];
     try {
@@ -93,7 +133,7 @@ export async function loginCommand(): Promise<void> {
 
     if (otherFiles.length > 0) {
       // Séparateur non sélectionnable
-      choices.push({ title: '--- Autres JSON trouvés ---', value: '' });
+      choices.push({ title: t('login.otherJson'), value: '' });
       for (const f of otherFiles) {
         choices.push({
           title: f,
@@ -104,7 +144,7 @@ export async function loginCommand(): Promise<void> {
 
     // Option manuelle en dernier
     choices.push({
-      title: 'Entrer un chemin manuellement',
+      title: t('login.manualPath'),
       value: '__manual'
     });
 
@@ -112,7 +152,7 @@ export async function loginCommand(): Promise<void> {
     const sel = await prompts({
       type:    'select',
       name:    'choice',
-      message: `Sélectionnez le fichier JSON dans ${downloadDir}:`,
+      message: t('login.prompt.file', { dir: downloadDir }),
       choices,
       initial: 0,
     });
@@ -123,7 +163,7 @@ export async function loginCommand(): Promise<void> {
       const resp = await prompts({
         type:    'text',
         name:    'manual',
-        message: 'Chemin complet vers le JSON :'
+        message: t('login.prompt.path')
       });
       filePath = (resp as any).manual as string | undefined;
     } else if (filePath === '__manual') {
@@ -131,21 +171,19 @@ export async function loginCommand(): Promise<void> {
       const resp = await prompts({
         type:    'text',
         name:    'manual',
-        message: 'Chemin complet vers le JSON :'
+        message: t('login.prompt.path')
       });
       filePath = (resp as any).manual as string | undefined;
     }
 
     if (!filePath || !(await fs.pathExists(filePath))) {
-      console.error('❌ Fichier introuvable ou chemin invalide.');
-      return;
+      throw new UsageError(t('login.error.fileNotFound'));
     }
 
     // Lecture et validation du JSON
     const json = await fs.readJSON(filePath) as any;
     if (!json.clientId || !json.clientSecret) {
-      console.error('❌ Le JSON ne contient pas clientId/clientSecret.');
-      return;
+      throw new UsageError(t('login.error.invalidJson'));
     }
     sa = {
       clientId:     json.clientId as string,
@@ -153,14 +191,12 @@ export async function loginCommand(): Promise<void> {
     };
   }
 
-  // 3) Persistance et test du token
+  // 3) Test du token puis persistance
   if (sa) {
     await auth.setServiceAccount(sa);
-    try {
-      await auth.getAccessToken();
-      console.log('🎉 Authentification réussie !');
-    } catch (err: any) {
-      console.error('❌ Impossible de récupérer le token :', err.message || err);
+    logger.info(t('login.success'));
+    if (profile !== await ProfileService.getCurrentProfileName()) {
+      logger.info(t('login.profileHint', { profile }));
     }
   }
 }
@@ -1,6 +1,13 @@
 import { execSync } from 'child_process';
 import prompts from 'prompts';
 import chalk from 'chalk';
+import { DockerError } from '../errors/app-wizard-errors.js';
+import { runCommand } from '../utils/operation-utils.js';
+import { resolveOption } from '../utils/prompt-utils.js';
+import type { MonitorAction } from '../types/cli-options.js';
+import { ProjectService } from '../services/project-service.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
 /**
  * Commande CLI interactive permettant de gérer facilement les conteneurs Docker du projet.
@@ -14,96 +21,166 @@ import chalk from 'chalk';
  * - Inspecter un conteneur (accès au shell)
  *
  * L'utilisateur est guidé clairement à chaque étape.
+ * Une erreur Docker est affichée sans interrompre le menu ; la dernière erreur
+ * rencontrée est relevée à la sortie afin que le code de retour reflète l'échec.
  *
+ * Avec une action en argument (`appwizard monitor logs api`), l'action est exécutée
+ * directement, sans menu ; le service est demandé s'il n'est pas fourni.
+ *
+ * @param action  Action à exécuter directement.
+ * @param service Service Docker Compose visé par l'action.
  * @author Kactus83
  */
-export async function monitorCommand(): Promise<void> {
+export async function monitorCommand(action?: MonitorAction, service?: string): Promise<void> {
+  const root = ProjectService.getProjectRoot();
+
+  if (action) {
+    const container = await resolveOption(service, '[service]', async () => {
+      const containers = getAvailableContainers(root);
+      if (containers.length === 0) {
+        throw new DockerError(t('monitor.noContainers'));
+      }
+      return selectContainer(containers);
+    });
+    if (container) {
+      runAction(action, container, root);
+    }
+    return;
+  }
+
+  let lastError: DockerError | undefined;
+
   while (true) {
     console.clear();
-    console.log(chalk.cyan('🐳 Utilitaire Docker - Gestion interactive des conteneurs\n'));
+    logger.info(chalk.cyan(t('monitor.title')));
 
-    const { action } = await prompts({
+    const { choice } = await prompts({
       type: 'select',
-      name: 'action',
-      message: 'Que souhaitez-vous faire ?',
+      name: 'choice',
+      message: t('common.whatToDo'),
       choices: [
-        { title: '🔄 Redémarrer un conteneur', value: 'restart' },
-        { title: '♻️ Reconstruire et redémarrer un conteneur', value: 'rebuild' },
-        { title: '⏹️  Arrêter un conteneur', value: 'stop' },
-        { title: '📄 Voir les logs d\'un conteneur', value: 'logs' },
-        { title: '🔍 Inspecter un conteneur (shell)', value: 'inspect' },
-        { title: '🚪 Quitter', value: 'quit' },
+        { title: t('monitor.action.restart'), value: 'restart' },
+        { title: t('monitor.action.rebuild'), value: 'rebuild' },
+        { title: t('monitor.action.stop'), value: 'stop' },
+        { title: t('monitor.action.logs'), value: 'logs' },
+        { title: t('monitor.action.inspect'), value: 'inspect' },
+        { title: t('monitor.action.quit'), value: 'quit' },
       ],
     });
 
-    if (action === 'quit' || action === undefined) {
-      console.log(chalk.green('👋 Au revoir et bonne journée !'));
+    if (choice === 'quit' || choice === undefined) {
+      logger.info(chalk.green(t('common.farewell')));
       break;
     }
 
     // Récupération des conteneurs disponibles
-    const containers = getAvailableContainers();
+    let containers: string[];
+    try {
+      containers = getAvailableContainers(root);
+    } catch (error) {
+      lastError = error as DockerError;
+      logger.error(chalk.red(`❌ ${lastError.message}`));
+      await pause();
+      continue;
+    }
     if (containers.length === 0) {
-      console.log(chalk.red('❌ Aucun conteneur disponible.'));
+      logger.info(chalk.red(t('monitor.noContainers')));
       await pause();
       continue;
     }
 
-    const { container } = await prompts({
-      type: 'select',
-      name: 'container',
-      message: 'Sélectionnez un conteneur :',
-      choices: containers.map(name => ({ title: name, value: name })),
-    });
+    const container = await selectContainer(containers);
+    if (container === undefined) {
+      continue;
+    }
 
     try {
-      switch (action) {
-        case 'restart':
-          execSync(`docker-compose restart ${container}`, { stdio: 'inherit' });
-          console.log(chalk.green(`✅ Le conteneur "${container}" a été redémarré.`));
-          break;
-
-        case 'rebuild':
-          execSync(`docker-compose stop ${container}`, { stdio: 'inherit' });
-          execSync(`docker-compose rm -f ${container}`, { stdio: 'inherit' });
-          execSync(`docker-compose up --build -d ${container}`, { stdio: 'inherit' });
-          console.log(chalk.green(`✅ Le conteneur "${container}" a été reconstruit et redémarré.`));
-          break;
-
-        case 'stop':
-          execSync(`docker-compose stop ${container}`, { stdio: 'inherit' });
-          console.log(chalk.green(`✅ Le conteneur "${container}" a été arrêté.`));
-          break;
-
-        case 'logs':
-          console.log(chalk.blue(`📄 Logs en direct du conteneur "${container}". (Ctrl+C pour quitter)`));
-          execSync(`docker-compose logs -f ${container}`, { stdio: 'inherit' });
-          break;
-
-        case 'inspect':
-          console.log(chalk.blue(`🔍 Shell du conteneur "${container}". Tapez "exit" pour quitter.`));
-          execSync(`docker-compose exec ${container} sh`, { stdio: 'inherit' });
-          break;
-      }
+      runAction(choice, container, root);
     } catch (error) {
-      console.error(chalk.red(`❌ Erreur durant l'exécution : ${error}`));
+      lastError = error as DockerError;
+      logger.error(chalk.red(`❌ ${lastError.message}`));
     }
 
     await pause();
   }
+
+  if (lastError) {
+    throw lastError;
+  }
+}
+
+/**
+ * Demande à l'utilisateur de choisir un conteneur.
+ *
+ * @param containers Conteneurs proposés.
+ * @returns Le conteneur choisi, ou `undefined` si la sélection est annulée.
+ */
+async function selectContainer(containers: string[]): Promise<string | undefined> {
+  const { container } = await prompts({
+    type: 'select',
+    name: 'container',
+    message: t('monitor.prompt.container'),
+    choices: containers.map(name => ({ title: name, value: name })),
+  });
+  return container;
+}
+
+/**
+ * Exécute une action Docker Compose sur un conteneur.
+ *
+ * @param action    Action à exécuter.
+ * @param container Service Docker Compose visé.
+ * @param root      Racine du projet (dossier du docker-compose).
+ * @throws DockerError si la commande Docker Compose échoue.
+ */
+function runAction(action: MonitorAction, container: string, root: string): void {
+  try {
+    switch (action) {
+      case 'restart':
+        runCommand(`docker-compose restart ${container}`, { cwd: root });
+        logger.info(chalk.green(t('monitor.restarted', { container })));
+        break;
+
+      case 'rebuild':
+        runCommand(`docker-compose stop ${container}`, { cwd: root });
+        runCommand(`docker-compose rm -f ${container}`, { cwd: root });
+        runCommand(`docker-compose up --build -d ${container}`, { cwd: root });
+        logger.info(chalk.green(t('monitor.rebuilt', { container })));
+        break;
+
+      case 'stop':
+        runCommand(`docker-compose stop ${container}`, { cwd: root });
+        logger.info(chalk.green(t('monitor.stopped', { container })));
+        break;
+
+      case 'logs':
+        logger.info(chalk.blue(t('monitor.logs', { container })));
+        runCommand(`docker-compose logs -f ${container}`, { cwd: root });
+        break;
+
+      case 'inspect':
+        logger.info(chalk.blue(t('monitor.shell', { container })));
+        runCommand(`docker-compose exec ${container} sh`, { cwd: root });
+        break;
+    }
+  } catch (error) {
+    throw new DockerError(t('monitor.error.action', { action, container }), error);
+  }
 }
 
 /**
  * Récupère la liste des conteneurs disponibles via Docker Compose.
  *
+ * @param root Racine du projet (dossier du docker-compose).
  * @returns Liste des conteneurs Docker disponibles.
+ * @throws DockerError si Docker Compose ne répond pas.
  */
-function getAvailableContainers(): string[] {
+function getAvailableContainers(root: string): string[] {
   try {
-    const output = execSync('docker-compose ps --services', { encoding: 'utf-8' });
+    const output = execSync('docker-compose ps --services', { encoding: 'utf-8', cwd: root });
     return output.trim().split('\n').filter(Boolean);
-  } catch {
-    return [];
+  } catch (error) {
+    throw new DockerError(t('monitor.error.list'), error);
   }
 }
 
@@ -114,6 +191,6 @@ async function pause(): Promise<void> {
   await prompts({
     type: 'confirm',
     name: 'value',
-    message: 'Appuyez sur Entrée pour continuer...',
+    message: t('common.pressEnter'),
   });
 }
@@ -2,60 +2,181 @@ import prompts from 'prompts';
 import chalk from 'chalk';
 import { TemplateConfigService } from '../services/template-config-service.js';
 import { ServiceConfigManager } from '../services/service-config-manager.js';
+import { TemplateCacheService } from '../services/template-cache-service.js';
+import { FetchTemplateService } from '../services/fetch-template-service.js';
+import { ConfigService } from '../services/config-service.js';
+import type { TemplateCachePruneOptions } from '../types/cli-options.js';
+import { isJsonMode, printJson } from '../utils/output-utils.js';
+import { AppWizardError, TemplateError, UsageError } from '../errors/app-wizard-errors.js';
+import { logger } from '../services/logger-service.js';
+import { t } from '../i18n/index.js';
 
-
+/**
+ * Commande "template" : affiche les informations du template et le listing des services.
+ * Avec `--json`, émet un document unique contenant la configuration du template
+ * et les services (dev et prod), sans interaction.
+ */
 export async function templateCommand(): Promise<void> {
+  if (isJsonMode()) {
+    const templateConfig = await TemplateConfigService.loadTemplateConfig();
+    printJson({
+      template: templateConfig,
+      origin:   new ConfigService().getTemplateOrigin() ?? null,
+      services: {
+        dev: await ServiceConfigManager.listServices('dev'),
+        prod: await ServiceConfigManager.listServices('prod'),
+      },
+    });
+    return;
+  }
+
   try {
-    console.log(chalk.blue('=== Informations du Template ==='));
+    logger.info(chalk.blue(t('template.title')));
     const templateConfig = await TemplateConfigService.loadTemplateConfig();
-    console.log(chalk.green('Nom:'), templateConfig.name);
-    console.log(chalk.green('Version:'), templateConfig.version);
-    console.log(chalk.green('Description:'), templateConfig.description);
+    logger.info(chalk.green(t('template.name')), templateConfig.name);
+    logger.info(chalk.green(t('template.version')), templateConfig.version);
+    logger.info(chalk.green(t('template.description')), templateConfig.description);
+    const origin = new ConfigService().getTemplateOrigin();
+    logger.info(chalk.green(t('template.origin')), origin ? `${origin.id} (${origin.version})` : t('common.notDefined'));
 
     const choices = [
-      { title: 'Afficher les infos du template', value: 'templateInfo' },
-      { title: 'Afficher le listing des services avec leurs détails', value: 'servicesList' },
+      { title: t('template.choice.info'), value: 'templateInfo' },
+      { title: t('template.choice.services'), value: 'servicesList' },
     ];
 
     const response = await prompts({
       type: 'select',
       name: 'choice',
-      message: 'Que souhaitez-vous afficher ?',
+      message: t('template.prompt.display'),
       choices,
       initial: 0,
     });
 
     if (response.choice === 'templateInfo') {
-      console.log(chalk.blue('\n=== Détails du Template ==='));
-      console.log(JSON.stringify(templateConfig, null, 2));
+      logger.info(chalk.blue(t('template.details')));
+      logger.info(JSON.stringify(templateConfig, null, 2));
     } else if (response.choice === 'servicesList') {
-      console.log(chalk.blue('\n=== Listing des Services (DEV) ==='));
+      logger.info(chalk.blue(t('template.servicesDev')));
       const devServices = await ServiceConfigManager.listServices('dev');
       if (devServices.length === 0) {
-        console.log(chalk.yellow('Aucun service trouvé.'));
+        logger.info(chalk.yellow(t('template.noServices')));
       } else {
         devServices.forEach((service) => {
-          console.log(chalk.green(`Service: ${service.name}`));
-          console.log(`  Prod Address: ${service.prodAddress || 'Non défini'}`);
-          console.log('');
+          logger.info(chalk.green(t('template.service', { name: service.name })));
+          logger.info(t('template.prodAddress', { address: service.prodAddress || t('common.notDefined') }));
+          logger.info('');
         });
       }
 
-      console.log(chalk.blue('\n=== Listing des Services (PROD) ==='));
+      logger.info(chalk.blue(t('template.servicesProd')));
       const prodServices = await ServiceConfigManager.listServices('prod');
       if (prodServices.length === 0) {
-        console.log(chalk.yellow('Aucun service trouvé.'));
+        logger.info(chalk.yellow(t('template.noServices')));
       } else {
         prodServices.forEach((service) => {
-          console.log(chalk.green(`Service: ${service.name}`));
-          console.log(`  Prod Address: ${service.prodAddress || 'Non défini'}`);
-          console.log('');
+          logger.info(chalk.green(t('template.service', { name: service.name })));
+          logger.info(t('template.prodAddress', { address: service.prodAddress || t('common.notDefined') }));
+          logger.info('');
         });
       }
     } else {
-      console.log(chalk.yellow('Opération annulée.'));
+      logger.info(chalk.yellow(t('common.cancelled')));
     }
   } catch (error) {
-    console.error(chalk.red('Erreur lors de l\'exécution de la commande template:'), error);
+    throw error instanceof AppWizardError
+      ? error
+      : new TemplateError(t('template.error.command'), error);
+  }
+}
+/**
+ * Formate une taille en octets (Ko, Mo).
+ * @param size Taille en octets.
+ */
+function formatSize(size: number): string {
+  if (size >= 1024 * 1024) {
+    return `${(size / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${Math.ceil(size / 1024)} KB`;
+}
+
+/**
+ * Commande `appwizard template versions <template>` : liste les versions publiées d'un template,
+ * utilisables avec `appwizard create --template <id> --template-version <version>`.
+ *
+ * @param id Identifiant du template.
+ */
+export async function templateVersionsCommand(id: string): Promise<void> {
+  const versions = await FetchTemplateService.listVersions(id);
+  const cached   = new Set((await TemplateCacheService.versions(id)).map(entry => entry.version));
+  if (isJsonMode()) {
+    printJson(versions.map(version => ({ ...version, cached: cached.has(version.version) })));
+    return;
+  }
+
+  if (versions.length === 0) {
+    logger.info(t('template.versions.empty', { id }));
+    return;
+  }
+  logger.info(t('template.versions.title', { id }));
+  const width = Math.max(...versions.map(version => version.version.length));
+  for (const version of versions) {
+    const details = [
+      version.publishedAt ? t('template.versions.publishedAt', { date: version.publishedAt }) : undefined,
+      cached.has(version.version) ? t('template.versions.cached') : undefined,
+      version.description,
+    ].filter(Boolean).join(' · ');
+    logger.info(`   ${version.version.padEnd(width)}  ${chalk.gray(details)}`);
+  }
+}
+
+/**
+ * Commande `appwizard template cache list` : liste les templates du cache local,
+ * utilisables avec `appwizard create --offline`.
+ */
+export async function templateCacheListCommand(): Promise<void> {
+  const entries = await TemplateCacheService.list();
+  if (isJsonMode()) {
+    printJson(entries);
+    return;
+  }
+
+  if (entries.length === 0) {
+    logger.info(t('template.cache.empty'));
+    return;
+  }
+  logger.info(t('template.cache.title'));
+  const idWidth      = Math.max(...entries.map(entry => entry.id.length));
+  const versionWidth = Math.max(...entries.map(entry => entry.version.length));
+  for (const entry of entries) {
+    const details = [
+      entry.name,
+      formatSize(entry.size),
+      t('template.cache.cachedAt', { date: entry.cachedAt }),
+      t('template.cache.lastUsed', { date: entry.lastUsedAt }),
+    ].join(' · ');
+    logger.info(`   ${entry.id.padEnd(idWidth)}  ${entry.version.padEnd(versionWidth)}  ${chalk.gray(details)}`);
+  }
+}
+
+/**
+ * Commande `appwizard template cache prune` : ne conserve que les versions les plus récentes
+ * de chaque template (`--keep <n>`, 1 par défaut) ou vide le cache (`--all`).
+ *
+ * @param options Options de la ligne de commande.
+ */
+export async function templateCachePruneCommand(options: TemplateCachePruneOptions = {}): Promise<void> {
+  const keep = options.keep !== undefined ? Number(options.keep) : undefined;
+  if (keep !== undefined && (!Number.isInteger(keep) || keep < 1)) {
+    throw new UsageError(t('template.cache.error.keep', { value: String(options.keep) }));
+  }
+
+  const removed = await TemplateCacheService.prune({ keep, all: options.all });
+  if (isJsonMode()) {
+    printJson({ removed });
+    return;
+  }
+  for (const entry of removed) {
+    logger.info(t('template.cache.removed', { id: entry.id, version: entry.version }));
   }
-}
\ No newline at end of file
+  logger.info(t('template.cache.pruned', { count: removed.length }));
+}
@@ -0,0 +1,141 @@
+/**
+ * @module errors/app-wizard-errors
+ * Hiérarchie d'erreurs du CLI. Chaque catégorie est associée à un code de sortie
+ * stable, appliqué par le gestionnaire d'erreurs global de `cli.ts`, afin que les
+ * scripts appelants puissent distinguer les causes d'échec.
+ */
+
+import { t } from '../i18n/index.js';
+
+/**
+ * Codes de sortie du processus.
+ */
+export enum ExitCode {
+  Success  = 0,
+  /** Erreur inattendue (non typée). */
+  Unknown  = 1,
+  /** Mauvaise utilisation du CLI (option manquante ou invalide). */
+  Usage    = 2,
+  /** Configuration CLI ou fichiers du projet invalides. */
+  Config   = 10,
+  /** Service Account absent, refusé ou token expiré. */
+  Auth     = 20,
+  /** Backend injoignable ou réponse HTTP en erreur. */
+  Network  = 30,
+  /** Échec d'une commande Docker / Docker Compose. */
+  Docker   = 40,
+  /** Template introuvable, invalide ou incomplet. */
+  Template = 50,
+  /** Version du CLI refusée par le backend (mise à jour requise). */
+  Compatibility = 60,
+}
+
+/**
+ * Erreur de base du CLI.
+ */
+export class AppWizardError extends Error {
+  /** Code de sortie associé à la catégorie d'erreur. */
+  public readonly exitCode: ExitCode = ExitCode.Unknown;
+  /** Erreur d'origine, si l'erreur en enveloppe une autre. */
+  public readonly cause?: unknown;
+
+  /**
+   * @param message Message lisible par l'utilisateur.
+   * @param cause   Erreur d'origine (optionnelle).
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
+
+/** Mauvaise utilisation du CLI. */
+export class UsageError extends AppWizardError {
+  public readonly exitCode = ExitCode.Usage;
+}
+
+/** Configuration invalide ou incomplète. */
+export class ConfigError extends AppWizardError {
+  public readonly exitCode = ExitCode.Config;
+}
+
+/** Échec d'authentification auprès du backend. */
+export class AuthError extends AppWizardError {
+  public readonly exitCode = ExitCode.Auth;
+}
+
+/** Échec d'un appel réseau. */
+export class NetworkError extends AppWizardError {
+  public readonly exitCode = ExitCode.Network;
+}
+
+/** Échec d'une opération Docker. */
+export class DockerError extends AppWizardError {
+  public readonly exitCode = ExitCode.Docker;
+}
+
+/** Template introuvable ou invalide. */
+export class TemplateError extends AppWizardError {
+  public readonly exitCode = ExitCode.Template;
+}
+
+/** Version du CLI plus prise en charge par le backend. */
+export class CompatibilityError extends AppWizardError {
+  public readonly exitCode = ExitCode.Compatibility;
+}
+
+/**
+ * Extrait le message d'erreur d'une réponse du backend : champ `message`
+ * (chaîne ou liste de messages de validation), sinon le corps texte.
+ *
+ * @param data Corps de la réponse (objet JSON ou texte).
+ * @returns Le message, ou `undefined` si le corps n'en contient pas.
+ */
+export function backendErrorDetail(data: unknown): string | undefined {
+  if (data && typeof data === 'object') {
+    const message = (data as { message?: unknown }).message;
+    if (Array.isArray(message)) {
+      return message.join(', ');
+    }
+    return typeof message === 'string' && message ? message : undefined;
+  }
+  return typeof data === 'string' && data.trim() ? data.trim() : undefined;
+}
+
+/**
+ * Convertit une réponse HTTP en erreur typée :
+ * 401/403 deviennent des `AuthError`, le reste des `NetworkError`.
+ *
+ * @param status  Statut HTTP de la réponse.
+ * @param data    Corps de la réponse, dont le message du backend est repris.
+ * @param context Description de l'opération, préfixée au message.
+ * @param cause   Erreur d'origine (optionnelle).
+ */
+export function httpStatusError(status: number, data: unknown, context: string, cause?: unknown): AppWizardError {
+  const message = t('http.error.detail', { context, detail: backendErrorDetail(data) ?? `HTTP ${status}` });
+  if (status === 401 || status === 403) {
+    return new AuthError(message, cause);
+  }
+  return new NetworkError(message, cause);
+}
+
+/**
+ * Convertit une erreur HTTP (axios) en erreur typée :
+ * 401/403 deviennent des `AuthError`, le reste des `NetworkError`.
+ * Le message renvoyé par le backend est repris lorsqu'il est disponible.
+ *
+ * @param error   Erreur levée par axios (ou autre).
+ * @param context Description de l'opération, préfixée au message.
+ */
+export function toHttpError(error: unknown, context: string): AppWizardError {
+  if (error instanceof AppWizardError) {
+    return error;
+  }
+  const err = error as any;
+  if (err && err.isAxiosError && err.response) {
+    return httpStatusError(err.response.status, err.response.data, context, error);
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return new NetworkError(t('http.error.detail', { context, detail }), error);
+}
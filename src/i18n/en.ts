@@ -0,0 +1,604 @@
+/**
+ * @module i18n/en
+ * Catalogue anglais. Typé sur les clés du catalogue français :
+ * un message manquant est une erreur de compilation.
+ */
+
+import type { MessageKey } from './fr.js';
+
+export const en: Record<MessageKey, string> = {
+  // ─── Commun ───────────────────────────────────────────────────────────────
+  'common.back':              'Back',
+  'common.backToMenu':        'Back to the main menu.',
+  'common.quit':              'Quit',
+  'common.cancel':            'Cancel',
+  'common.cancelled':         'Operation cancelled.',
+  'common.whatToDo':          'What would you like to do?',
+  'common.chooseOption':      'Choose an option:',
+  'common.pressEnter':        'Press Enter to continue...',
+  'common.goodbye':           '👋 See you soon!',
+  'common.farewell':          '👋 Goodbye and have a nice day!',
+  'common.notDefined':        'Not defined',
+  'common.unknown':           'unknown',
+  'common.ok':                'OK',
+  'common.failed':            'FAILED',
+  'common.failedWithDetail':  'FAILED ({detail})',
+  'common.standardCleanDone': 'Standard clean completed.',
+  'common.fullCleanDone':     'Full clean completed.',
+  'common.envDev':            'Development (dev)',
+  'common.envProd':           'Production (prod)',
+
+  // ─── cli ──────────────────────────────────────────────────────────────────
+  'cli.description':          '🧙‍♂️ CLI to efficiently manage your NestJS/Angular project.',
+  'cli.option.version':       'Print the current CLI version',
+  'cli.option.help':          'Display help for the command',
+  'cli.option.json':          'Emit a structured JSON document (template, credentials, config, doctor)',
+  'cli.option.verbose':       'Print diagnostic messages',
+  'cli.option.quiet':         'Only print warnings and errors',
+  'cli.option.logFile':       'Write every message (including diagnostics) to a file',
+  'cli.option.dryRun':        'List commands, deletions and file rewrites without running them',
+  'cli.option.cwd':           'Directory from which the project root is searched',
+  'cli.option.lang':          'Message language (fr or en)',
+  'cli.option.profile':       'Authentication profile to use (endpoints and Service Account)',
+  'cli.option.credentialsFile': 'Service Account JSON file (clientId/clientSecret) to use without storing it',
+  'cli.option.config':        'Override a configuration key for this run (repeatable)',
+  'cli.cmd.login':            '🔑 Authenticate and manage user credentials.',
+  'cli.cmd.create':           '✨ Create a new project from the official template.',
+  'cli.cmd.config':           '⚙️  Show and edit the CLI configuration (global, project, profile).',
+  'cli.cmd.build':            '🚧 Run the build process (interactive menu by default).',
+  'cli.cmd.devRun':           '🏃‍♂️ Start the Docker containers in development mode.',
+  'cli.cmd.deploy':           '🚀 Deploy the project (interactive menu by default).',
+  'cli.cmd.clean':            '🧹 Clean the project (interactive menu by default).',
+  'cli.cmd.monitor':          '📈 Monitor and manage the Docker containers.',
+  'cli.cmd.helpers':          '🔧 Project support and repair tools.',
+  'cli.cmd.doctor':           '🩺 Check that every technical prerequisite is met.',
+  'cli.cmd.credentials':      '🔑 User credentials utility.',
+  'cli.credentials.lock':     '🔒 Encrypt the stored secret with a passphrase.',
+  'cli.credentials.unlock':   '🔓 Go back to encryption with the machine key (no passphrase).',
+  'cli.credentials.show':     '🔎 Show the claims of the cached token (subject, scopes, expiry).',
+  'cli.credentials.verify':   '✅ Check the Service Account and its permissions against the backend.',
+  'cli.credentials.list':     '📋 List the authentication profiles.',
+  'cli.credentials.use':      '👉 Set the profile used by default.',
+  'cli.credentials.remove':   '🗑️  Remove a profile and its Service Account.',
+  'cli.credentials.profile':  'Profile name',
+  'cli.credentials.yes':      'Confirm the removal without asking',
+  'cli.credentials.rotate':   '🔁 Generate a new secret for the Service Account and replace the stored one.',
+  'cli.credentials.revoke':   '⛔ Revoke a Service Account on the backend.',
+  'cli.credentials.clientId': 'Service Account id (the profile\'s one by default)',
+  'cli.credentials.remote':   'List the Service Accounts registered on the backend',
+  'cli.credentials.revokeYes': 'Confirm the revocation without asking',
+  'cli.cmd.template':         '📄 Show template information and the list of services.',
+  'cli.template.cache':       '🗄️  Manages the local template cache (~/.appwizard/cache/templates).',
+  'cli.template.cacheList':   'Lists cached templates',
+  'cli.template.cachePrune':  'Removes old versions from the cache',
+  'cli.template.keep':        'Number of versions kept per template (default 1)',
+  'cli.template.all':         'Empties the whole cache',
+  'cli.template.versions':    'List the published versions of a template',
+  'cli.template.id':          'Template id',
+  'cli.cmd.completion':       '⌨️  Generate the shell completion script (bash, zsh, fish).',
+  'cli.build.env':            'Build environment',
+  'cli.build.clean':          'Clean before building',
+  'cli.build.yes':            'Automatically accept the proposed fixes',
+  'cli.devRun.build':         'Run a pre-run build before starting',
+  'cli.devRun.noBuild':       'Start the containers without a pre-run build',
+  'cli.devRun.clean':         'Clean before the pre-run build',
+  'cli.deploy.yes':           'Confirm the deployment without asking',
+  'cli.login.fromEnv':        'Check the APPWIZARD_CLIENT_ID/APPWIZARD_CLIENT_SECRET credentials without writing anything to disk',
+  'cli.clean.mode':           'Clean type',
+  'cli.config.get':           'Print the effective value of a configuration key',
+  'cli.config.set':           'Store a configuration key (global file by default)',
+  'cli.config.unset':         'Remove a configuration key (global file by default)',
+  'cli.config.list':          'List the configuration keys and their effective values',
+  'cli.config.key':           'Configuration key',
+  'cli.config.value':         'New value',
+  'cli.config.project':       'Edit the project .appwizard file instead of ~/.appwizard/config.json',
+  'cli.config.showOrigin':    'Show where each value comes from (default, file, profile, environment, option)',
+  'cli.create.template':      'Id of the template to use',
+  'cli.create.templateVersion': 'Template version to use (latest version by default)',
+  'cli.create.offline':       'Only use templates from the local cache (no backend)',
+  'cli.monitor.action':       'Action to run directly, without the menu',
+  'cli.monitor.service':      'Docker Compose service targeted by the action',
+  'cli.completion.shell':     'Target shell',
+  'cli.completion.install':   'Installation:\n  bash: echo \'source <(appwizard completion bash)\' >> ~/.bashrc\n  zsh:  echo \'source <(appwizard completion zsh)\' >> ~/.zshrc\n  fish: appwizard completion fish > ~/.config/fish/completions/appwizard.fish',
+  'cli.examples':             'Examples:',
+  'cli.examples.home':        '(interactive main menu)',
+  'cli.dryRunBanner':         '🔎 Dry-run mode (--dry-run): no command will be run and no file will be modified.',
+  'cli.error.cwdNotFound':    'Directory {dir} (--cwd) does not exist.',
+  'cli.error.logFile':        'Cannot open log file {file} (--log-file): {detail}',
+
+  // ─── Utilitaires ──────────────────────────────────────────────────────────
+  'prompt.optionRequired':    'Option {flag} is required in non-interactive mode.',
+  'dryRun.removal':           'remove {path}',
+  'dryRun.alreadyEmpty':      '{path} is already empty',
+  'dryRun.mkdir':             'create directory {path}',
+  'dryRun.unchanged':         '{path} unchanged',
+  'dryRun.rewrite':           'rewrite {path}',
+  'dryRun.create':            'create {path}',
+  'logger.fileDisabled':      '⚠️  Log file {file} is not writable ({detail}): file logging disabled.',
+  'project.error.notFound':   'No appwizard project found from {dir} ({expected} expected). Run the command inside the project or use --cwd <dir>.',
+  'env.error.prodMissing':    'File .env.prod not found in {dir}',
+  'dbCredentials.title':      '\n⚙️  Setting up the missing DB credentials in .env.prod',
+  'dbCredentials.user':       'PostgreSQL user name',
+  'dbCredentials.password':   'PostgreSQL password',
+  'dbCredentials.database':   'Database name (POSTGRES_DB)',
+  'dbCredentials.error.incomplete': 'All DB information is required. Aborting.',
+  'dbCredentials.saved':      '✓ .env.prod updated with the DB credentials.',
+  'compose.error.fileMissing':    'File {file} not found.',
+  'compose.error.cycle':          'Cycle detected or incomplete deployment order.',
+
+  // ─── Erreurs ──────────────────────────────────────────────────────────────
+  'http.error.detail':        '{context}: {detail}',
+  'http.retrying':            '⏳ Backend unavailable ({reason}): retrying in {seconds}s ({attempt}/{max})…',
+  'http.refreshingToken':     '🔄 Token rejected by the backend: refreshing and retrying.',
+  'http.error.proxyTimeout':  'Proxy {proxy}: connection timed out',
+  'http.error.proxyRefused':  'Tunnel refused by proxy {proxy} (HTTP {status})',
+  'http.error.invalidProxy':  'Invalid proxy URL (network.proxy, HTTPS_PROXY or HTTP_PROXY).',
+  'http.error.clientCertIncomplete': 'Incomplete client certificate: network.clientCert and network.clientKey must be set together.',
+  'http.error.readFile':      'Unreadable file for {key}: {file}',
+
+  // ─── home ─────────────────────────────────────────────────────────────────
+  'home.title':               '🧙‍♂️ appwizard - Main menu\n',
+  'home.helpHint':            'Run `appwizard --help` for the list of commands.',
+  'home.menu.build':          '🚧 Build',
+  'home.menu.devRun':         '🏃‍♂️ Dev run',
+  'home.menu.monitor':        '📈 Monitor (Docker containers)',
+  'home.menu.clean':          '🧹 Clean',
+  'home.menu.template':       '📄 Template',
+  'home.menu.credentials':    '🔑 Credentials',
+  'home.menu.quit':           '🚪 Quit',
+  'home.status.noProject':    '📁 Project    : no project found from {dir}',
+  'home.status.project':      '📁 Project    : {root}',
+  'home.status.template':     '📄 Template   : {name} v{version}',
+  'home.status.templateUnreadable': '📄 Template   : template.yaml unreadable',
+  'home.status.authUnknown':  '🔑 Auth       : unknown (unreadable profiles or credentials, see `appwizard doctor`)',
+  'home.status.noAuth':       '🔑 Auth       : no Service Account for profile {profile} (`appwizard login`)',
+  'home.status.auth':         '🔑 Auth       : {clientId} — profile {profile} ({token})',
+  'home.status.tokenValid':   'valid token',
+  'home.status.tokenExpired': 'token expired or missing',
+  'home.status.dockerDown':   '🐳 Containers : status unavailable (Docker unreachable)',
+  'home.status.noContainers': '🐳 Containers : no container running',
+  'home.status.containers':   '🐳 Containers : {services}',
+
+  // ─── build ────────────────────────────────────────────────────────────────
+  'build.menu.title':         '             Build Options',
+  'build.menu.noClean':       'Build without clean',
+  'build.menu.clean':         'Build with clean',
+  'build.menu.forcedClean':   'Build with forced clean',
+  'build.prompt.cleanMode':   'Choose a cleaning option:',
+  'build.prompt.env':         'Which environment do you want to build your project for?',
+  'build.standardClean':      '[Standard clean]',
+  'build.fullClean':          '[Full clean]',
+  'build.cancelled':          'Build cancelled.',
+  'build.error.envIncomplete': 'The .env.dev and/or .env.prod files are incomplete. They have been repaired automatically. Fill in the missing values, then run the build again.',
+  'build.startDev':           'Starting the build in development mode...',
+  'build.startProd':          'Starting the build in production mode...',
+  'build.checkingConfig':     'Checking the configuration...',
+  'build.configValid':        'Configuration validated.',
+
+  // ─── clean ────────────────────────────────────────────────────────────────
+  'clean.menu.title':         '             Clean Options',
+  'clean.menu.normal':        'Normal clean',
+  'clean.menu.forced':        'Forced clean',
+  'clean.menu.forcedDetail':  'Forced clean (removes Docker images and builder cache)',
+  'clean.normal.header':      '[Normal clean]',
+  'clean.forced.header':      '[Forced clean]',
+  'clean.normal.running':     'Normal clean in progress...',
+  'clean.normal.done':        'Normal clean completed.',
+  'clean.forced.running':     'Forced Docker clean in progress...',
+
+  // ─── config ───────────────────────────────────────────────────────────────
+  'config.current':           '\n⚙️  Current CLI configuration:',
+  'config.prompt.section':    'Which section do you want to edit?',
+  'config.section.endpoints': 'endpoints (URLs)',
+  'config.section.lang':      'Message language (lang)',
+  'config.section.reset':     'Reset the whole configuration',
+  'config.prompt.backendUrl': 'New backend URL:',
+  'config.prompt.frontendUrl': 'New frontend URL:',
+  'config.prompt.lang':       'CLI message language:',
+  'config.lang.auto':         'Automatic (LANG variable)',
+  'config.endpointsUpdated':  '✅ Endpoints updated.',
+  'config.profileEndpointsSaved': '💾 Endpoints saved in profile "{profile}".',
+  'config.resetDone':         '⚠️  Configuration reset to default values.',
+  'config.set.done':          '✅ {key} = {value} stored in {file}.',
+  'config.unset.done':        '✅ {key} removed from {file}.',
+  'config.overridden':        'ℹ️  {key} is still overridden by {origin}.',
+  'config.unsetValue':        '(not set)',
+  'config.error.unknownKey':  'Unknown configuration key: "{key}". Available keys: {keys}',
+  'config.error.invalidValue': 'Invalid value for {key}: "{value}" (http(s) URL expected).',
+  'config.error.invalidLang': 'Invalid language: "{value}" (allowed values: {langs}).',
+  'config.error.invalidCloud': 'Invalid cloud provider: "{value}" (allowed values: {clouds}).',
+  'config.error.invalidTimeout': 'Invalid timeout: "{value}" (expected a positive integer in milliseconds).',
+  'config.error.override':    'Invalid configuration override: "{override}" (expected format: key=value).',
+  'config.error.malformed':   'Unreadable configuration file: {file} (invalid JSON).',
+  'config.error.provider':    'Inconsistent provider section: {issues}',
+  'config.migrated':          'Configuration file {file} migrated from schema v{from} to v{to}.',
+
+  // ─── create ───────────────────────────────────────────────────────────────
+  'create.prompt.where':      'Where should the project be created?',
+  'create.where.current':     'Current directory',
+  'create.where.subfolder':   'New subdirectory',
+  'create.cleaning':          '⚠️ Cleaning {dir} (except {kept})',
+  'create.prompt.folderName': 'Subdirectory name:',
+  'create.validate.notEmpty': 'Cannot be empty',
+  'create.error.folderExists': 'Directory {dir} already exists.',
+  'create.error.noTemplates': 'No template available.',
+  'create.error.noCachedTemplates': 'No cached template. Run "appwizard create" with a backend connection first.',
+  'create.error.unknownTemplate': 'Template "{id}" not found. Available templates: {ids}',
+  'create.error.unknownVersion': 'Version "{version}" of template {id} not found. Available versions: {versions}',
+  'create.prompt.template':   'Select a template:',
+  'create.prompt.version':    'Select the version of {id}:',
+  'create.gitMissing':        '⚠️ Git is not installed, skipping.',
+  'create.originSaved':       '📌 Template {id} ({version}) recorded in {file}; "appwizard create --template {id} --template-version {version}" recreates the same baseline.',
+  'create.done':              '🎉 Project "{name}" is ready in {dir}!',
+
+  // ─── credentials ──────────────────────────────────────────────────────────
+  'credentials.title':        '\n🔑 Service Account status\n',
+  'credentials.profile':      '   profile        : {profile}',
+  'credentials.none':         'ℹ️  No Service Account configured for profile "{profile}". Run `appwizard login --profile {profile}`.',
+  'credentials.clientId':     '   clientId       : {clientId}',
+  'credentials.remaining':    '   token remaining: {remaining}\n',
+  'credentials.storage':      '   storage        : {storage}',
+  'credentials.storage.locked': '🔒 locked (passphrase)',
+  'credentials.storage.machine': '🔑 encrypted (machine key)',
+  'credentials.storage.env':  '🌿 environment variables (not stored)',
+  'credentials.storage.file': '📄 --credentials-file (not stored)',
+  'credentials.action.renew': 'Renew the token',
+  'credentials.action.clear': 'Remove the Service Account',
+  'credentials.action.lock':  'Lock with a passphrase',
+  'credentials.action.unlock': 'Unlock (machine key)',
+  'credentials.renewed':      '🔄 Token renewed successfully.',
+  'credentials.show.title':   '\n🔎 Service Account token (unverified claims)\n',
+  'credentials.show.noToken': '   no cached token (run `appwizard credentials verify`)',
+  'credentials.show.subject': '   subject        : {subject}',
+  'credentials.show.scopes':  '   scopes         : {scopes}',
+  'credentials.show.noScopes': '(none)',
+  'credentials.show.issuer':  '   issuer         : {issuer}',
+  'credentials.show.issuedAt': '   issued at      : {date}',
+  'credentials.show.expiresAt': '   expires at     : {date} ({remaining} left)',
+  'credentials.verify.token': '✅ Service Account accepted: new token obtained.',
+  'credentials.verify.templates': '✅ Template access granted ({count} template(s)).',
+  'credentials.verify.error.templates': 'Template list access',
+  'credentials.list.title':   '\n🔑 Authentication profiles (* = active profile)\n',
+  'credentials.list.noAccount': '(no Service Account)',
+  'credentials.use.done':     '✅ Current profile: "{profile}".',
+  'credentials.remove.confirm': 'Remove profile "{profile}" and its Service Account?',
+  'credentials.remove.cancelled': '❌ Removal cancelled.',
+  'credentials.remove.done':  '✅ Profile "{profile}" removed.',
+  'credentials.remote.title': '\n🔑 Backend Service Accounts (* = the profile\'s one)\n',
+  'credentials.remote.none':  'ℹ️  No Service Account registered on the backend.',
+  'credentials.remote.created': 'created {date}',
+  'credentials.remote.lastUsed': 'used {date}',
+  'credentials.rotate.done':  '🔁 Secret of {clientId} rotated, verified and stored.',
+  'credentials.revoke.confirm': 'Revoke Service Account {clientId}? Scripts using it will no longer be able to authenticate.',
+  'credentials.revoke.cancelled': '❌ Revocation cancelled.',
+  'credentials.revoke.done':  '⛔ Service Account {clientId} revoked.',
+
+  // ─── deploy ───────────────────────────────────────────────────────────────
+  'deploy.title':             '         DEPLOY OPTIONS (PROD)        ',
+  'deploy.prompt.confirm':    '1) Do you confirm the production deployment?',
+  'deploy.cancelled':         '\n✖ Deployment cancelled.',
+  'deploy.unavailable':       'Feature currently unavailable.',
+  'deploy.unavailablePause':  'Feature currently unavailable. Press Enter to finish…',
+
+  // ─── dev-run ──────────────────────────────────────────────────────────────
+  'devRun.title':             '             Dev Run Options',
+  'devRun.prompt.build':      'Do you want to run a pre-run build (with optional clean) before starting the dev run?',
+  'devRun.prompt.clean':      'Do you want to clean the environment before the build?',
+  'devRun.prompt.cleanType':  'Which kind of clean do you want?',
+  'devRun.cleanType.light':   'Light (standard clean)',
+  'devRun.cleanType.full':    'Full (complete clean)',
+  'devRun.standardClean':     'Running a standard clean...',
+  'devRun.fullClean':         'Running a full clean...',
+  'devRun.prebuild.start':    'Starting the dev pre-run build...',
+  'devRun.prebuild.done':     'Pre-run build completed.',
+  'devRun.error.noRunCommand': 'The runDevCommand is not defined in the template.',
+  'devRun.starting':          'Starting the containers in dev mode with: {command}',
+  'devRun.error.runFailed':   'Error while starting the containers in dev mode',
+
+  // ─── doctor / helpers ─────────────────────────────────────────────────────
+  'doctor.check.internet':    'Internet connection',
+  'doctor.check.git':         'Git',
+  'doctor.check.repo':        'Access to the "app-template" GitHub repository',
+  'doctor.check.docker':      'Docker',
+  'doctor.check.dockerCompose': 'Docker Compose',
+  'doctor.httpStatus':        'HTTP status code: {status}',
+  'doctor.title':             '🩺 Advanced diagnosis with automatic fix attempts...\n',
+  'doctor.initialState':      '--- Initial state ---',
+  'doctor.dockerUnavailable': '❌ Docker is not available.',
+  'doctor.prompt.fixDocker':  'Do you want to try an automatic fix for Docker?',
+  'doctor.fixingDocker':      'Trying an automatic fix for Docker...',
+  'doctor.fixDockerFailed':   'The Docker fix attempt failed.',
+  'doctor.repoFailed':        '❌ Access to the "app-template" GitHub repository failed.',
+  'doctor.repoAdvice':        '→ Check your connection, your proxy settings or the repository URL.',
+  'doctor.gitMissing':        '❌ Git is not installed.',
+  'doctor.dockerComposeMissing': '❌ Docker Compose is not installed.',
+  'doctor.finalState':        '\n--- Final state after fix attempts ---',
+  'doctor.allOk':             '\n🎉 Advanced diagnosis: every prerequisite is met.',
+  'doctor.someFailed':        '\n❗ Advanced diagnosis: some prerequisites are still not met.',
+  'doctor.followAdvice':      'Follow the advice above to fix the problems.',
+  'helpers.error.openUrl':    'Error while opening {url}:',
+  'helpers.openingPages':     '\nOpening the project web pages...',
+  'helpers.pagesOpened':      '✅ The web pages have been opened.',
+  'helpers.diagnostic.title': '🔍 Detailed environment diagnosis\n',
+  'helpers.diagnostic.internet': 'Internet connection',
+  'helpers.diagnostic.git':   'Git',
+  'helpers.diagnostic.repo':  'GitHub repository',
+  'helpers.diagnostic.docker': 'Docker',
+  'helpers.diagnostic.dockerCompose': 'Docker Compose',
+  'helpers.advice.internet':  '→ Check your internet connection and network settings.',
+  'helpers.advice.git':       '→ Install Git from: https://git-scm.com/downloads',
+  'helpers.advice.repo':      '→ Check your GitHub access or the URL of the "app-template" repository.',
+  'helpers.advice.docker':    '→ Install Docker from: https://docs.docker.com/get-docker/',
+  'helpers.advice.dockerCompose': '→ Install Docker Compose from: https://docs.docker.com/compose/install/',
+  'helpers.diagnostic.allOk': '\n🎉 Diagnosis: everything is operational.',
+  'helpers.diagnostic.someFailed': '\n❗ Diagnosis: some prerequisites are not met.',
+  'helpers.title':            '🔧 Helpers menu - Support tools\n',
+  'helpers.menu.diagnostic':  'Run a full environment diagnosis',
+  'helpers.menu.openWeb':     'Interactively open the project web pages',
+  'helpers.openWeb.title':    '🌐 Interactive opening of the web pages\n',
+  'helpers.openWeb.prompt':   'Do you want to open {page}?',
+  'helpers.openWeb.opened':   '✅ {page} opened.',
+  'helpers.openWeb.skipped':  '→ {page} not opened.',
+
+  // ─── login ────────────────────────────────────────────────────────────────
+  'login.prompt.mode':        'How do you want to provide the Service Account credentials?',
+  'login.mode.manual':        'Manual (typed in)',
+  'login.mode.file':          'JSON file (Downloads)',
+  'login.mode.web':           'Through the browser (Service Account creation)',
+  'login.prompt.clientId':    'Client ID:',
+  'login.prompt.clientSecret': 'Client Secret:',
+  'login.error.bothRequired': 'Both fields are required.',
+  'login.newProfile':         '🆕 New profile "{profile}": enter its endpoints.',
+  'login.error.endpointsRequired': 'Both endpoints are required.',
+  'login.profileHint':        'ℹ️  Profile "{profile}": use `--profile {profile}` or `appwizard credentials use {profile}`.',
+  'login.openingBrowser':     '🌐 Opening the browser to create your Service Account…',
+  'login.browserUrl':         '   If the browser does not open, go to: {url}',
+  'login.waitingCallback':    '⏳ Waiting for the credentials sent by the browser…',
+  'login.callbackReceived':   '📥 Service Account {clientId} received from the browser.',
+  'login.callbackRejected':   '⚠️  Callback request rejected (invalid state).',
+  'login.callbackPage':       'Service Account sent to appwizard. You can close this page.',
+  'login.error.callbackTimeout': 'No Service Account received from the browser after {seconds}s. Run `appwizard login` again.',
+  'login.otherJson':          '--- Other JSON files found ---',
+  'login.manualPath':         'Enter a path manually',
+  'login.prompt.file':        'Select the JSON file in {dir}:',
+  'login.prompt.path':        'Full path to the JSON file:',
+  'login.error.fileNotFound': 'File not found or invalid path.',
+  'login.error.invalidJson':  'The JSON does not contain clientId/clientSecret.',
+  'login.success':            '🎉 Authentication successful!',
+  'login.fromEnv.success':    '🎉 Environment credentials are valid (clientId {clientId}); nothing was stored.',
+  'login.error.noEnv':        'Set APPWIZARD_CLIENT_ID and APPWIZARD_CLIENT_SECRET to use --from-env.',
+
+  // ─── monitor ──────────────────────────────────────────────────────────────
+  'monitor.title':            '🐳 Docker utility - Interactive container management\n',
+  'monitor.action.restart':   '🔄 Restart a container',
+  'monitor.action.rebuild':   '♻️ Rebuild and restart a container',
+  'monitor.action.stop':      '⏹️  Stop a container',
+  'monitor.action.logs':      '📄 Show the logs of a container',
+  'monitor.action.inspect':   '🔍 Inspect a container (shell)',
+  'monitor.action.quit':      '🚪 Quit',
+  'monitor.noContainers':     '❌ No container available.',
+  'monitor.prompt.container': 'Select a container:',
+  'monitor.restarted':        '✅ Container "{container}" has been restarted.',
+  'monitor.rebuilt':          '✅ Container "{container}" has been rebuilt and restarted.',
+  'monitor.stopped':          '✅ Container "{container}" has been stopped.',
+  'monitor.logs':             '📄 Live logs of container "{container}". (Ctrl+C to quit)',
+  'monitor.shell':            '🔍 Shell of container "{container}". Type "exit" to quit.',
+  'monitor.error.action':     'Error while running "{action}" on "{container}"',
+  'monitor.error.list':       'Unable to list the containers with docker-compose',
+
+  // ─── template ─────────────────────────────────────────────────────────────
+  'template.title':           '=== Template information ===',
+  'template.name':            'Name:',
+  'template.version':         'Version:',
+  'template.description':     'Description:',
+  'template.origin':          'Source template:',
+  'template.choice.info':     'Show the template information',
+  'template.choice.services': 'Show the list of services with their details',
+  'template.prompt.display':  'What do you want to display?',
+  'template.details':         '\n=== Template details ===',
+  'template.servicesDev':     '\n=== Services (DEV) ===',
+  'template.servicesProd':    '\n=== Services (PROD) ===',
+  'template.noServices':      'No service found.',
+  'template.service':         'Service: {name}',
+  'template.prodAddress':     '  Prod Address: {address}',
+  'template.error.command':   'Error while running the template command',
+  'template.versions.empty':  'No published versions for template {id} (only the latest version is available).',
+  'template.versions.title':  '🏷️  Versions of template {id}:',
+  'template.versions.publishedAt': 'published on {date}',
+  'template.versions.cached': 'cached',
+  'template.cache.empty':     'No cached template.',
+  'template.cache.title':     '🗄️  Cached templates:',
+  'template.cache.cachedAt':  'cached on {date}',
+  'template.cache.lastUsed':  'used on {date}',
+  'template.cache.error.keep': 'Invalid value for --keep: "{value}" (positive integer expected).',
+  'template.cache.removed':   '🗑️  {id} ({version}) removed from the cache.',
+  'template.cache.pruned':    '✅ Cache pruned: {count} version(s) removed.',
+
+  // ─── Services : auth ──────────────────────────────────────────────────────
+  'auth.saved':               '✅ Service Account saved.',
+  'auth.error.noServiceAccount': 'No Service Account configured for profile "{profile}". Run `appwizard login --profile {profile}`.',
+  'auth.tokenCached':         '🔄 Cached token is valid (expires at {expiresAt})',
+  'auth.requestingToken':     '🔑 Requesting a new token from: {url}',
+  'auth.error.tokenRequest':  'Unable to retrieve the token',
+  'auth.tokenResponse':       '🎁 Token response from the backend:',
+  'auth.error.invalidToken':  'Invalid token response: {body}',
+  'auth.tokenStored':         '🔄 Token retrieved and cached (valid for {seconds}s).',
+  'auth.removed':             '✅ Service Account removed.',
+  'auth.nothingToRemove':     'ℹ️  No Service Account to remove.',
+  'auth.locked':              '🔒 Storage locked: the passphrase will be asked for (or read from APPWIZARD_PASSPHRASE) to use the Service Account.',
+  'auth.alreadyLocked':       'ℹ️  Storage is already locked.',
+  'auth.unlocked':            '🔓 Storage unlocked: the secret is encrypted with the machine key.',
+  'auth.alreadyUnlocked':     'ℹ️  Storage is not locked.',
+  'auth.error.wrongPassphrase': 'Wrong passphrase: unable to decrypt the Service Account.',
+  'auth.error.decrypt':       'Unable to decrypt {file} with the machine key. Run `appwizard login` again.',
+  'auth.source.env':          'ℹ️  Service Account {clientId} read from environment variables.',
+  'auth.source.file':         'ℹ️  Service Account {clientId} read from {file}.',
+  'auth.error.envIncomplete': '{id} and {secret} must be set together.',
+  'auth.error.credentialsFileNotFound': 'Credentials file not found: {file}',
+  'auth.error.credentialsFileInvalid': '{file} does not contain clientId/clientSecret.',
+
+  // ─── Services : keystore ──────────────────────────────────────────────────
+  'keystore.prompt.passphrase': 'Credentials storage passphrase:',
+  'keystore.prompt.confirm':  'Confirm the passphrase:',
+  'keystore.error.emptyPassphrase': 'The passphrase cannot be empty.',
+  'keystore.error.mismatch':  'The two passphrases do not match.',
+  'keystore.error.passphraseRequired': 'Credentials storage passphrase required: set APPWIZARD_PASSPHRASE in non-interactive mode.',
+  'keystore.error.noMachineKey': 'Machine key not found ({file}): the Service Account cannot be decrypted. Run `appwizard login` again.',
+
+  // ─── Services : profiles ──────────────────────────────────────────────────
+  'profile.error.unknown':    'Unknown profile "{profile}". Available profiles: {profiles}',
+  'profile.error.invalidName': 'Invalid profile name: "{profile}" (letters, digits, ".", "_" and "-").',
+  'profile.error.read':       'Unable to read {file}.',
+  'profile.error.migrate':    'Unable to move the legacy Service Account {legacy} to {dest}.',
+  'profile.legacyKept':       '⚠️  {legacy} (legacy format) was not migrated: {dest} already exists. Remove it if it is no longer needed.',
+
+  // ─── Services : service-accounts ──────────────────────────────────────────
+  'serviceAccount.error.list': 'Unable to list the Service Accounts',
+  'serviceAccount.error.rotate': 'Unable to rotate the Service Account secret',
+  'serviceAccount.error.rotateResponse': 'Invalid rotation response: no new secret received.',
+  'serviceAccount.error.rotateVerify': 'The new secret of {clientId} is stored but could not be verified (the old secret is no longer valid). Run `appwizard credentials verify`; if it is rejected, run `appwizard credentials rotate` or `appwizard login` again.',
+  'serviceAccount.error.rotateSave': 'The new secret of {clientId} could not be stored and the old one is no longer valid. It is printed above (clientId:clientSecret): store it with `appwizard login`.',
+  'serviceAccount.error.rotateNotStored': 'Rotation only applies to the stored Service Account: unset APPWIZARD_CLIENT_ID/APPWIZARD_CLIENT_SECRET and --credentials-file.',
+  'serviceAccount.error.revoke': 'Unable to revoke Service Account {clientId}',
+
+  // ─── Services : build ─────────────────────────────────────────────────────
+  'buildService.prebuild':    'Running the prebuild ({env}): {command}',
+  'buildService.prebuildDone': '{env} prebuild completed successfully.',
+  'buildService.error.prebuild': 'Error during the {env} prebuild',
+  'buildService.buildDone':   'Build in {env} mode completed successfully.',
+  'buildService.error.build': 'Error during the build in {env} mode',
+  'buildService.error.noArtifactRegistry': 'No artifact registry configured for the prod build. Set it with: appwizard config set provider.artifactRegistry <registry>',
+  'buildService.imageMismatch': 'Image name discrepancies were detected:',
+  'buildService.imageDiscrepancy': '- Service {service}: current = "{current}", expected = "{expected}"',
+  'buildService.notDefined':  'not defined',
+  'buildService.prompt.fixImages': 'Do you want to automatically fix these image names according to the standards?',
+
+  // ─── Services : clean ─────────────────────────────────────────────────────
+  'cleanService.cleaned':     'Cleaned: {path}',
+  'cleanService.dirNotFound': 'Directory not found: {path}',
+  'cleanService.fileRemoved': 'File removed: {path}',
+  'cleanService.fileNotFound': 'File not found: {path}',
+  'cleanService.cleaningDirs': 'Cleaning directories...',
+  'cleanService.removingSignals': 'Removing signal files...',
+  'cleanService.dockerRunning': 'Running the forced Docker clean...',
+  'cleanService.error.docker': 'Error during the forced Docker clean',
+  'cleanService.dockerDone':  'Forced Docker clean completed.',
+
+  // ─── Services : compatibility ─────────────────────────────────────────────
+  'compatibility.outdated':   '⚠️  A new appwizard version is available ({version} → {latest}). Upgrade with: {command}',
+  'compatibility.error.unsupported': 'appwizard {version} is no longer supported by the backend (minimum: {min}). Please upgrade appwizard: {command}',
+  'compatibility.error.check': 'CLI version check',
+
+  // ─── Services : config ────────────────────────────────────────────────────
+  'configService.endpointsSaved': '✅ Endpoints updated in {path}',
+  'configService.langSaved':  '✅ Language updated in {path}',
+  'configService.removed':    '⚠️  Configuration removed.',
+  'configService.reset':      '⚠️  Configuration reset to default values.',
+
+  // ─── Services : config-schema ─────────────────────────────────────────────
+  'configSchema.error.invalid': 'Invalid configuration file: {file}{issues}',
+  'configSchema.error.newer': 'Configuration file {file} uses schema v{version}, newer than the one supported by this CLI (v{supported}). Please update appwizard.',
+  'configSchema.issue.type':  '{path}: expected type {expected}',
+  'configSchema.issue.values': '{path}: invalid value "{value}" (allowed values: {values})',
+  'configSchema.issue.url':   '{path}: expected an http(s) URL ("{value}")',
+  'configSchema.issue.integer': '{path}: expected a positive integer ("{value}")',
+  'configSchema.issue.unknownKey': '{path}: unknown key',
+  'configSchema.issue.required': '{path}: value required',
+  'configSchema.issue.volumeProvider': 'the shared volume targets "{volume}" while provider.cloud is "{cloud}"',
+
+  // ─── Services : credentials ───────────────────────────────────────────────
+  'credentialsService.saved': '✅ User credential saved successfully.',
+  'credentialsService.error.save': '❌ Error while saving the user credential:',
+  'credentialsService.error.read': '❌ Error while reading the user credential file.',
+
+  // ─── Services : docker-compose ────────────────────────────────────────────
+  'compose.error.notFoundIn': 'File {file} not found in {dir}',
+  'compose.error.serviceNotFound': 'Service \'{service}\' not found in {file}',
+  'compose.error.serviceNotInOrder': 'Service \'{service}\' not found in the order deduced from {file}.',
+  'compose.error.noHealthcheck': 'Service \'{service}\' has no healthcheck defined in {file}',
+  'compose.imageChange':      'Service {service}: current image "{current}" -> expected "{expected}"',
+  'compose.imageMissing':     'missing',
+  'compose.imagesUpdated':    'File {file} updated with compliant image names.',
+  'compose.imagesOk':         'Image names in {file} are already compliant.',
+  'volumes.devNoop':          'In the development environment, the volume check is a no-op. No change is applied.',
+  'volumes.noSection':        'No \'volumes\' section found in the docker-compose file.',
+  'volumes.updating':         'Updating the configuration of volume \'{volume}\':',
+  'volumes.driver':           '- Current driver: {current}, expected: {expected}',
+  'volumes.options':          '- Current options: {current}, expected: {expected}',
+  'volumes.updated':          'The docker-compose file has been updated with the correct volume configuration.',
+  'volumes.ok':               'The docker-compose volumes are already correctly configured.',
+
+  // ─── Services : fetch-template ────────────────────────────────────────────
+  'fetch.error.list':         'Unable to list the templates',
+  'fetch.error.download':     'Template download failed',
+  'fetch.error.versions':     'Unable to list the template versions',
+  'fetch.error.invalidZip':   'The received file is not a valid ZIP ({detail})',
+  'fetch.noChecksum':         '⚠️  The backend did not provide a SHA-256 checksum for template {id}: archive integrity not verified.',
+  'fetch.error.interrupted':  'Download of template {id} interrupted, incomplete archive refused ({detail}).',
+  'fetch.error.truncated':    'Template {id} archive is incomplete: {size} bytes received out of {expected} announced.',
+  'fetch.error.checksum':     'Template {id} archive is corrupted: SHA-256 checksum {actual}, expected {expected}.',
+  'fetch.error.unsigned':     'Template {id} is not signed although a publisher public key is configured (templates.publicKey).',
+  'fetch.error.signature':    'Invalid signature for template {id}: the archive was modified or not signed by the expected publisher.',
+  'fetch.error.publicKey':    'Invalid public key for templates.publicKey: {file}',
+  'fetch.error.cacheCorrupted': 'The cached archive of template {id} ({version}) was modified; clean the cache (appwizard template cache prune --all) and retry without --offline.',
+  'fetch.extracting':         '📂 Extracting {count} file(s) to {dir} ({overwritten} replaced)…',
+  'fetch.deployed':           '✅ Template deployed.',
+  'fetch.fromCache':          '📦 Template {id} ({version}) read from the local cache.',
+
+  // ─── Services : archive ───────────────────────────────────────────────────
+  'archive.error.tooManyEntries': 'Archive refused: {count} entries (maximum {max}).',
+  'archive.error.unsafePath': 'Archive refused: unsafe path "{entry}" (absolute or outside the target folder).',
+  'archive.error.outside':    'Archive refused: "{entry}" would be written outside the target folder (existing symbolic link).',
+  'archive.error.duplicate':  'Archive refused: duplicate entry "{entry}".',
+  'archive.error.encrypted':  'Archive refused: encrypted entry "{entry}".',
+  'archive.error.fileTooLarge': 'Archive refused: "{entry}" is {size} bytes uncompressed (maximum {max}).',
+  'archive.error.tooLarge':   'Archive refused: uncompressed size exceeds {max} bytes.',
+  'archive.error.conflict':   'Unable to extract the template: {path} already exists with another type (file/folder).',
+  'archive.error.symlink':    'Archive refused: symbolic link "{entry}" points outside the target folder ({target}).',
+  'archive.error.throughSymlink': 'Archive refused: "{entry}" would be written through symbolic link "{link}".',
+  'archive.error.corrupted':  'Corrupted archive: entry "{entry}" is unreadable.',
+  'archive.error.write':      'Unable to write {path}',
+  'archive.overwritten':      '↻ {path} replaced.',
+
+  // ─── Services : git ───────────────────────────────────────────────────────
+  'git.initialized':          '✅ Git repository initialized and committed.',
+  'git.committed':            '✅ Commit done.',
+  'git.error.commit':         '❌ Commit failed. Please commit manually.',
+  'git.prompt.commit':        'A Git repository already exists. Do you want to commit the project creation automatically?',
+  'git.prompt.init':          'No Git repository was detected. Do you want to initialize one in this directory?',
+  'git.initMessage':          'Initialize project {name}',
+  'git.commitMessage':        'Create project {name}',
+
+  // ─── Services : secrets ───────────────────────────────────────────────────
+  'secrets.missingKey':       'Missing key in {file}: {key}',
+  'secrets.requiredKeys':     'Required keys for {file}: {keys}',
+  'secrets.creatingFile':     'Creating file {file}...',
+  'secrets.updated':          '{file} updated with {count} missing key(s).',
+  'secrets.created':          '{file} created.',
+  'secrets.complete':         '{file} already contains every required key.',
+  'secrets.error.dbIncomplete': 'The database secrets are not correctly set in .env.prod',
+  'secrets.dbLoaded':         'Database secrets retrieved successfully.',
+
+  // ─── Services : service-config ────────────────────────────────────────────
+  'serviceConfig.found':      'Configuration found for {service}:',
+  'serviceConfig.error.read': 'Error while reading the config of {service}: {error}',
+  'serviceConfig.invalid':    'No valid configuration found for {service}: {error}',
+  'serviceConfig.skipped':    '⚠️  Service \'{service}\' skipped: {error}',
+  'serviceConfig.template':   'Template: {name} - Version: {version}',
+  'serviceConfig.composeMissing': '⚠️ File {file} not found in {dir}',
+  'serviceConfig.configured': 'Service \'{service}\' (order: {order}) configured with prodAddress: {address}',
+  'serviceConfig.error.check': '⚠️  Error while checking service \'{service}\': {error}',
+
+  // ─── Services : template-config ───────────────────────────────────────────
+  'templateConfig.error.notFound': 'File template.yaml not found in {dir}',
+  'templateConfig.creating':  '⚠️  template.yaml not found, creating it from defaultTemplateConfig.',
+  'templateConfig.error.missingKey': 'Missing or invalid key: {key}',
+  'templateConfig.invalid':   '⚠️  Error while reading/validating template.yaml ({error}). Repairing.',
+  'templateConfig.repaired':  '⚠️  The template configuration has been repaired. Please check containers/template.yaml.',
+
+  // ─── Services : plugins ───────────────────────────────────────────────────
+  'plugin.error.load':        '⚠️  Plugin "{plugin}" not loaded: {error}',
+  'plugin.error.noRegister':  'the module does not export a register(program, context) function',
+  'plugin.error.invalidList': '⚠️  The "plugins" key of template.yaml must be a list of npm package names. Plugins ignored.',
+  'plugin.error.templateConfig': '⚠️  Plugins ignored: template.yaml is unreadable ({error}).',
+};
@@ -0,0 +1,607 @@
+/**
+ * @module i18n/fr
+ * Catalogue de référence (français). Les clés de ce catalogue définissent
+ * l'ensemble des messages du CLI ; les autres langues doivent toutes les traduire.
+ */
+
+export const fr = {
+  // ─── Commun ───────────────────────────────────────────────────────────────
+  'common.back':              'Retour',
+  'common.backToMenu':        'Retour au menu principal.',
+  'common.quit':              'Quitter',
+  'common.cancel':            'Annuler',
+  'common.cancelled':         'Opération annulée.',
+  'common.whatToDo':          'Que souhaitez-vous faire ?',
+  'common.chooseOption':      'Choisissez une option:',
+  'common.pressEnter':        'Appuyez sur Entrée pour continuer...',
+  'common.goodbye':           '👋 À bientôt !',
+  'common.farewell':          '👋 Au revoir et bonne journée !',
+  'common.notDefined':        'Non défini',
+  'common.unknown':           'inconnu',
+  'common.ok':                'OK',
+  'common.failed':            'ÉCHEC',
+  'common.failedWithDetail':  'ÉCHEC ({detail})',
+  'common.standardCleanDone': 'Nettoyage standard terminé.',
+  'common.fullCleanDone':     'Nettoyage complet terminé.',
+  'common.envDev':            'Développement (dev)',
+  'common.envProd':           'Production (prod)',
+
+  // ─── cli ──────────────────────────────────────────────────────────────────
+  'cli.description':          '🧙‍♂️ CLI pour gérer efficacement votre projet NestJS/Angular.',
+  'cli.option.version':       'Affiche la version actuelle du CLI',
+  'cli.option.help':          'Affiche l\'aide de la commande',
+  'cli.option.json':          'Émet un document JSON structuré (template, credentials, config, doctor)',
+  'cli.option.verbose':       'Affiche les messages de diagnostic',
+  'cli.option.quiet':         'N\'affiche que les avertissements et les erreurs',
+  'cli.option.logFile':       'Enregistre tous les messages (y compris diagnostic) dans un fichier',
+  'cli.option.dryRun':        'Liste les commandes, suppressions et réécritures de fichiers sans les exécuter',
+  'cli.option.cwd':           'Répertoire de départ pour la recherche de la racine du projet',
+  'cli.option.lang':          'Langue des messages (fr ou en)',
+  'cli.option.profile':       'Profil d\'authentification à utiliser (endpoints et Service Account)',
+  'cli.option.credentialsFile': 'Fichier JSON de Service Account (clientId/clientSecret) à utiliser sans l\'enregistrer',
+  'cli.option.config':        'Surcharge une clé de configuration pour cette exécution (répétable)',
+  'cli.cmd.login':            '🔑 Authentification et gestion des credentials utilisateur.',
+  'cli.cmd.create':           '✨ Crée un nouveau projet à partir du template officiel.',
+  'cli.cmd.config':           '⚙️  Affiche et modifie la configuration du CLI (globale, projet, profil).',
+  'cli.cmd.build':            '🚧 Lance le processus de build (menu interactif par défaut).',
+  'cli.cmd.devRun':           '🏃‍♂️ Lance les conteneurs Docker en mode développement.',
+  'cli.cmd.deploy':           '🚀 Déploie le projet (menu interactif par défaut).',
+  'cli.cmd.clean':            '🧹 Lance le nettoyage du projet (menu interactif par défaut).',
+  'cli.cmd.monitor':          '📈 Surveille les conteneurs Docker et permet de les gérer.',
+  'cli.cmd.helpers':          '🔧 Outils d’aide et de réparation du projet.',
+  'cli.cmd.doctor':           '🩺 Vérifie que tous les prérequis techniques sont satisfaits.',
+  'cli.cmd.credentials':      '🔑 Utilitaire pour les credentials utilisateur.',
+  'cli.credentials.lock':     '🔒 Chiffre le secret stocké avec une passphrase.',
+  'cli.credentials.unlock':   '🔓 Revient au chiffrement par la clé machine (sans passphrase).',
+  'cli.credentials.show':     '🔎 Affiche les claims du token en cache (sujet, scopes, expiration).',
+  'cli.credentials.verify':   '✅ Vérifie le Service Account et ses droits auprès du backend.',
+  'cli.credentials.list':     '📋 Liste les profils d\'authentification.',
+  'cli.credentials.use':      '👉 Définit le profil utilisé par défaut.',
+  'cli.credentials.remove':   '🗑️  Supprime un profil et son Service Account.',
+  'cli.credentials.profile':  'Nom du profil',
+  'cli.credentials.yes':      'Confirme la suppression sans demander',
+  'cli.credentials.rotate':   '🔁 Génère un nouveau secret pour le Service Account et remplace le secret stocké.',
+  'cli.credentials.revoke':   '⛔ Révoque un Service Account auprès du backend.',
+  'cli.credentials.clientId': 'Identifiant du Service Account (celui du profil par défaut)',
+  'cli.credentials.remote':   'Liste les Service Accounts enregistrés auprès du backend',
+  'cli.credentials.revokeYes': 'Confirme la révocation sans demander',
+  'cli.cmd.template':         '📄 Affiche les informations du template et le listing des services.',
+  'cli.template.cache':       '🗄️  Gère le cache local des templates (~/.appwizard/cache/templates).',
+  'cli.template.cacheList':   'Liste les templates en cache',
+  'cli.template.cachePrune':  'Supprime les anciennes versions du cache',
+  'cli.template.keep':        'Nombre de versions conservées par template (1 par défaut)',
+  'cli.template.all':         'Vide entièrement le cache',
+  'cli.template.versions':    'Liste les versions publiées d\'un template',
+  'cli.template.id':          'Identifiant du template',
+  'cli.cmd.completion':       '⌨️  Génère le script de complétion du shell (bash, zsh, fish).',
+  'cli.build.env':            'Environnement de build',
+  'cli.build.clean':          'Nettoyage avant le build',
+  'cli.build.yes':            'Accepte automatiquement les corrections proposées',
+  'cli.devRun.build':         'Effectue un build pré-run avant le lancement',
+  'cli.devRun.noBuild':       'Lance les conteneurs sans build pré-run',
+  'cli.devRun.clean':         'Nettoyage avant le build pré-run',
+  'cli.deploy.yes':           'Confirme le déploiement sans demander',
+  'cli.login.fromEnv':        'Vérifie les credentials de APPWIZARD_CLIENT_ID/APPWIZARD_CLIENT_SECRET sans rien écrire sur disque',
+  'cli.clean.mode':           'Type de nettoyage',
+  'cli.config.get':           'Affiche la valeur effective d\'une clé de configuration',
+  'cli.config.set':           'Enregistre une clé de configuration (fichier global par défaut)',
+  'cli.config.unset':         'Supprime une clé de configuration (fichier global par défaut)',
+  'cli.config.list':          'Liste les clés de configuration et leurs valeurs effectives',
+  'cli.config.key':           'Clé de configuration',
+  'cli.config.value':         'Nouvelle valeur',
+  'cli.config.project':       'Modifie le fichier .appwizard du projet au lieu de ~/.appwizard/config.json',
+  'cli.config.showOrigin':    'Affiche l\'origine de chaque valeur (défaut, fichier, profil, environnement, option)',
+  'cli.create.template':      'Identifiant du template à utiliser',
+  'cli.create.templateVersion': 'Version du template à utiliser (dernière version par défaut)',
+  'cli.create.offline':       'Utilise uniquement les templates du cache local (sans backend)',
+  'cli.monitor.action':       'Action à exécuter directement, sans passer par le menu',
+  'cli.monitor.service':      'Service Docker Compose visé par l\'action',
+  'cli.completion.shell':     'Shell cible',
+  'cli.completion.install':   'Installation :\n  bash : echo \'source <(appwizard completion bash)\' >> ~/.bashrc\n  zsh  : echo \'source <(appwizard completion zsh)\' >> ~/.zshrc\n  fish : appwizard completion fish > ~/.config/fish/completions/appwizard.fish',
+  'cli.examples':             'Exemples d\'utilisation:',
+  'cli.examples.home':        '(menu principal interactif)',
+  'cli.dryRunBanner':         '🔎 Mode simulation (--dry-run) : aucune commande ni modification de fichier ne sera exécutée.',
+  'cli.error.cwdNotFound':    'Le répertoire {dir} (--cwd) n\'existe pas.',
+  'cli.error.logFile':        'Impossible d\'ouvrir le fichier de log {file} (--log-file) : {detail}',
+
+  // ─── Utilitaires ──────────────────────────────────────────────────────────
+  'prompt.optionRequired':    'L\'option {flag} est requise en mode non interactif.',
+  'dryRun.removal':           'suppression de {path}',
+  'dryRun.alreadyEmpty':      '{path} est déjà vide',
+  'dryRun.mkdir':             'création du dossier {path}',
+  'dryRun.unchanged':         '{path} inchangé',
+  'dryRun.rewrite':           'réécriture de {path}',
+  'dryRun.create':            'création de {path}',
+  'logger.fileDisabled':      '⚠️  Fichier de log {file} inaccessible ({detail}) : journalisation dans le fichier désactivée.',
+  'project.error.notFound':   'Aucun projet appwizard trouvé depuis {dir} ({expected} attendus). Placez-vous dans le projet ou utilisez --cwd <dir>.',
+  'env.error.prodMissing':    'Le fichier .env.prod est introuvable dans {dir}',
+  'dbCredentials.title':      '\n⚙️  Configuration des identifiants DB manquants dans .env.prod',
+  'dbCredentials.user':       'Nom d\'utilisateur PostgreSQL',
+  'dbCredentials.password':   'Mot de passe PostgreSQL',
+  'dbCredentials.database':   'Nom de la base de données (POSTGRES_DB)',
+  'dbCredentials.error.incomplete': 'Toutes les informations DB sont requises. Abandon.',
+  'dbCredentials.saved':      '✓ .env.prod mis à jour avec les credentials DB.',
+  'compose.error.fileMissing':    'Fichier {file} introuvable.',
+  'compose.error.cycle':          'Cycle détecté ou ordre de déploiement incomplet.',
+
+  // ─── Erreurs ──────────────────────────────────────────────────────────────
+  'http.error.detail':        '{context} : {detail}',
+  'http.retrying':            '⏳ Backend indisponible ({reason}) : nouvelle tentative dans {seconds}s ({attempt}/{max})…',
+  'http.refreshingToken':     '🔄 Token refusé par le backend : renouvellement et nouvel essai.',
+  'http.error.proxyTimeout':  'Proxy {proxy} : délai de connexion dépassé',
+  'http.error.proxyRefused':  'Tunnel refusé par le proxy {proxy} (HTTP {status})',
+  'http.error.invalidProxy':  'URL de proxy invalide (network.proxy, HTTPS_PROXY ou HTTP_PROXY).',
+  'http.error.clientCertIncomplete': 'Certificat client incomplet : network.clientCert et network.clientKey doivent être définis ensemble.',
+  'http.error.readFile':      'Fichier illisible pour {key} : {file}',
+
+  // ─── home ─────────────────────────────────────────────────────────────────
+  'home.title':               '🧙‍♂️ appwizard - Menu principal\n',
+  'home.helpHint':            'Lancez `appwizard --help` pour la liste des commandes.',
+  'home.menu.build':          '🚧 Build',
+  'home.menu.devRun':         '🏃‍♂️ Dev run',
+  'home.menu.monitor':        '📈 Monitor (conteneurs Docker)',
+  'home.menu.clean':          '🧹 Clean',
+  'home.menu.template':       '📄 Template',
+  'home.menu.credentials':    '🔑 Credentials',
+  'home.menu.quit':           '🚪 Quitter',
+  'home.status.noProject':    '📁 Projet     : aucun projet trouvé depuis {dir}',
+  'home.status.project':      '📁 Projet     : {root}',
+  'home.status.template':     '📄 Template   : {name} v{version}',
+  'home.status.templateUnreadable': '📄 Template   : template.yaml illisible',
+  'home.status.authUnknown':  '🔑 Auth       : état inconnu (profils ou credentials illisibles, voir `appwizard doctor`)',
+  'home.status.noAuth':       '🔑 Auth       : aucun Service Account pour le profil {profile} (`appwizard login`)',
+  'home.status.auth':         '🔑 Auth       : {clientId} — profil {profile} ({token})',
+  'home.status.tokenValid':   'token valide',
+  'home.status.tokenExpired': 'token expiré ou absent',
+  'home.status.dockerDown':   '🐳 Conteneurs : état indisponible (Docker injoignable)',
+  'home.status.noContainers': '🐳 Conteneurs : aucun conteneur démarré',
+  'home.status.containers':   '🐳 Conteneurs : {services}',
+
+  // ─── build ────────────────────────────────────────────────────────────────
+  'build.menu.title':         '             Build Options',
+  'build.menu.noClean':       'Build sans clean',
+  'build.menu.clean':         'Build avec clean',
+  'build.menu.forcedClean':   'Build avec clean forcé',
+  'build.prompt.cleanMode':   'Choisissez une option de nettoyage:',
+  'build.prompt.env':         'Dans quel environnement souhaitez-vous builder votre projet ?',
+  'build.standardClean':      '[Nettoyage standard]',
+  'build.fullClean':          '[Nettoyage complet]',
+  'build.cancelled':          'Build annulé.',
+  'build.error.envIncomplete': 'Les fichiers .env.dev et/ou .env.prod sont incomplets. Les fichiers ont été automatiquement corrigés. Veuillez renseigner les valeurs manquantes, puis relancer le build.',
+  'build.startDev':           'Lancement du build en mode développement...',
+  'build.startProd':          'Lancement du build en mode production...',
+  'build.checkingConfig':     'Vérification de la configuration...',
+  'build.configValid':        'Configuration validée.',
+
+  // ─── clean ────────────────────────────────────────────────────────────────
+  'clean.menu.title':         '             Clean Options',
+  'clean.menu.normal':        'Clean normal',
+  'clean.menu.forced':        'Clean forcé',
+  'clean.menu.forcedDetail':  'Clean forcé (supprime images Docker et cache builder)',
+  'clean.normal.header':      '[Clean normal]',
+  'clean.forced.header':      '[Clean forcé]',
+  'clean.normal.running':     'Nettoyage normal en cours...',
+  'clean.normal.done':        'Nettoyage normal terminé.',
+  'clean.forced.running':     'Nettoyage forcé Docker en cours...',
+
+  // ─── config ───────────────────────────────────────────────────────────────
+  'config.current':           '\n⚙️  Configuration CLI actuelle :',
+  'config.prompt.section':    'Quelle section souhaitez-vous modifier ?',
+  'config.section.endpoints': 'endpoints (URLs)',
+  'config.section.lang':      'Langue des messages (lang)',
+  'config.section.reset':     'Réinitialiser toute la config',
+  'config.prompt.backendUrl': 'Nouvelle URL backend :',
+  'config.prompt.frontendUrl': 'Nouvelle URL frontend :',
+  'config.prompt.lang':       'Langue des messages du CLI :',
+  'config.lang.auto':         'Automatique (variable LANG)',
+  'config.endpointsUpdated':  '✅ Endpoints mis à jour.',
+  'config.profileEndpointsSaved': '💾 Endpoints enregistrés dans le profil "{profile}".',
+  'config.resetDone':         '⚠️  Config réinitialisée aux valeurs par défaut.',
+  'config.set.done':          '✅ {key} = {value} enregistré dans {file}.',
+  'config.unset.done':        '✅ {key} supprimé de {file}.',
+  'config.overridden':        'ℹ️  {key} reste surchargé par {origin}.',
+  'config.unsetValue':        '(non définie)',
+  'config.error.unknownKey':  'Clé de configuration inconnue : "{key}". Clés disponibles : {keys}',
+  'config.error.invalidValue': 'Valeur invalide pour {key} : "{value}" (URL http(s) attendue).',
+  'config.error.invalidLang': 'Langue invalide : "{value}" (valeurs possibles : {langs}).',
+  'config.error.invalidCloud': 'Fournisseur cloud invalide : "{value}" (valeurs possibles : {clouds}).',
+  'config.error.invalidTimeout': 'Délai invalide : "{value}" (entier positif en millisecondes attendu).',
+  'config.error.override':    'Surcharge de configuration invalide : "{override}" (format attendu : clé=valeur).',
+  'config.error.malformed':   'Fichier de configuration illisible : {file} (JSON invalide).',
+  'config.error.provider':    'Section provider incohérente : {issues}',
+  'config.migrated':          'Fichier de configuration {file} migré du schéma v{from} vers v{to}.',
+
+  // ─── create ───────────────────────────────────────────────────────────────
+  'create.prompt.where':      'Où créer le projet ?',
+  'create.where.current':     'Dossier courant',
+  'create.where.subfolder':   'Nouveau sous-dossier',
+  'create.cleaning':          '⚠️ Nettoyage de {dir} (sauf {kept})',
+  'create.prompt.folderName': 'Nom du sous-dossier :',
+  'create.validate.notEmpty': 'Ne peut pas être vide',
+  'create.error.folderExists': 'Le dossier {dir} existe déjà.',
+  'create.error.noTemplates': 'Aucun template disponible.',
+  'create.error.noCachedTemplates': 'Aucun template en cache. Lancez d\'abord "appwizard create" avec une connexion au backend.',
+  'create.error.unknownTemplate': 'Template "{id}" introuvable. Templates disponibles : {ids}',
+  'create.error.unknownVersion': 'Version "{version}" du template {id} introuvable. Versions disponibles : {versions}',
+  'create.prompt.template':   'Sélectionnez un template :',
+  'create.prompt.version':    'Sélectionnez la version de {id} :',
+  'create.gitMissing':        '⚠️ Git non installé, skip.',
+  'create.originSaved':       '📌 Template {id} ({version}) enregistré dans {file} ; "appwizard create --template {id} --template-version {version}" recrée la même base.',
+  'create.done':              '🎉 Projet "{name}" prêt dans {dir} !',
+
+  // ─── credentials ──────────────────────────────────────────────────────────
+  'credentials.title':        '\n🔑 État du Service Account\n',
+  'credentials.profile':      '   profil       : {profile}',
+  'credentials.none':         'ℹ️  Aucun Service Account configuré pour le profil "{profile}". Lancez `appwizard login --profile {profile}`.',
+  'credentials.clientId':     '   clientId     : {clientId}',
+  'credentials.remaining':    '   token restant: {remaining}\n',
+  'credentials.storage':      '   stockage     : {storage}',
+  'credentials.storage.locked': '🔒 verrouillé (passphrase)',
+  'credentials.storage.machine': '🔑 chiffré (clé machine)',
+  'credentials.storage.env':  '🌿 variables d\'environnement (non enregistré)',
+  'credentials.storage.file': '📄 --credentials-file (non enregistré)',
+  'credentials.action.renew': 'Renouveler le token',
+  'credentials.action.clear': 'Supprimer le Service Account',
+  'credentials.action.lock':  'Verrouiller avec une passphrase',
+  'credentials.action.unlock': 'Déverrouiller (clé machine)',
+  'credentials.renewed':      '🔄 Token renouvelé avec succès.',
+  'credentials.show.title':   '\n🔎 Token du Service Account (claims non vérifiés)\n',
+  'credentials.show.noToken': '   aucun token en cache (lancez `appwizard credentials verify`)',
+  'credentials.show.subject': '   sujet        : {subject}',
+  'credentials.show.scopes':  '   scopes       : {scopes}',
+  'credentials.show.noScopes': '(aucun)',
+  'credentials.show.issuer':  '   émetteur     : {issuer}',
+  'credentials.show.issuedAt': '   émis le      : {date}',
+  'credentials.show.expiresAt': '   expire le    : {date} (reste {remaining})',
+  'credentials.verify.token': '✅ Service Account accepté : nouveau token obtenu.',
+  'credentials.verify.templates': '✅ Accès aux templates autorisé ({count} template(s)).',
+  'credentials.verify.error.templates': 'Accès à la liste des templates',
+  'credentials.list.title':   '\n🔑 Profils d\'authentification (* = profil actif)\n',
+  'credentials.list.noAccount': '(aucun Service Account)',
+  'credentials.use.done':     '✅ Profil courant : "{profile}".',
+  'credentials.remove.confirm': 'Supprimer le profil "{profile}" et son Service Account ?',
+  'credentials.remove.cancelled': '❌ Suppression annulée.',
+  'credentials.remove.done':  '✅ Profil "{profile}" supprimé.',
+  'credentials.remote.title': '\n🔑 Service Accounts du backend (* = celui du profil)\n',
+  'credentials.remote.none':  'ℹ️  Aucun Service Account enregistré auprès du backend.',
+  'credentials.remote.created': 'créé le {date}',
+  'credentials.remote.lastUsed': 'utilisé le {date}',
+  'credentials.rotate.done':  '🔁 Secret de {clientId} renouvelé, vérifié et enregistré.',
+  'credentials.revoke.confirm': 'Révoquer le Service Account {clientId} ? Les scripts qui l\'utilisent ne pourront plus s\'authentifier.',
+  'credentials.revoke.cancelled': '❌ Révocation annulée.',
+  'credentials.revoke.done':  '⛔ Service Account {clientId} révoqué.',
+
+  // ─── deploy ───────────────────────────────────────────────────────────────
+  'deploy.title':             '         DEPLOY OPTIONS (PROD)        ',
+  'deploy.prompt.confirm':    '1) Confirmez-vous le déploiement en production ?',
+  'deploy.cancelled':         '\n✖ Déploiement annulé.',
+  'deploy.unavailable':       'Fonctionnalité actuellement indisponible.',
+  'deploy.unavailablePause':  'Fonctionnalité actuellement indisponible. Appuyez sur Entrée pour terminer…',
+
+  // ─── dev-run ──────────────────────────────────────────────────────────────
+  'devRun.title':             '             Dev Run Options',
+  'devRun.prompt.build':      'Souhaitez-vous effectuer un build pré-run (avec nettoyage optionnel) avant de lancer le dev run ?',
+  'devRun.prompt.clean':      'Souhaitez-vous effectuer un nettoyage de l\'environnement avant le build ?',
+  'devRun.prompt.cleanType':  'Quel type de nettoyage voulez-vous ?',
+  'devRun.cleanType.light':   'Light (nettoyage standard)',
+  'devRun.cleanType.full':    'Intégral (nettoyage complet)',
+  'devRun.standardClean':     'Exécution d\'un nettoyage standard...',
+  'devRun.fullClean':         'Exécution d\'un nettoyage complet...',
+  'devRun.prebuild.start':    'Lancement du build pré-run en dev...',
+  'devRun.prebuild.done':     'Build pré-run terminé.',
+  'devRun.error.noRunCommand': 'La commande runDevCommand n\'est pas définie dans le template.',
+  'devRun.starting':          'Lancement des conteneurs en mode dev via : {command}',
+  'devRun.error.runFailed':   'Erreur lors du lancement des conteneurs en mode dev',
+
+  // ─── doctor / helpers ─────────────────────────────────────────────────────
+  'doctor.check.internet':    'Connexion Internet',
+  'doctor.check.git':         'Git',
+  'doctor.check.repo':        'Accès au dépôt GitHub "app-template"',
+  'doctor.check.docker':      'Docker',
+  'doctor.check.dockerCompose': 'Docker Compose',
+  'doctor.httpStatus':        'HTTP status code: {status}',
+  'doctor.title':             '🩺 Diagnostic avancé avec tentatives de correctifs automatiques...\n',
+  'doctor.initialState':      '--- État initial ---',
+  'doctor.dockerUnavailable': '❌ Docker n\'est pas disponible.',
+  'doctor.prompt.fixDocker':  'Voulez-vous tenter un correctif automatique pour Docker ?',
+  'doctor.fixingDocker':      'Tentative de correction automatique pour Docker...',
+  'doctor.fixDockerFailed':   'Échec de la tentative de correction pour Docker.',
+  'doctor.repoFailed':        '❌ L\'accès au dépôt GitHub "app-template" a échoué.',
+  'doctor.repoAdvice':        '→ Vérifiez votre connexion, vos paramètres proxy ou l\'URL du dépôt.',
+  'doctor.gitMissing':        '❌ Git n\'est pas installé.',
+  'doctor.dockerComposeMissing': '❌ Docker Compose n\'est pas installé.',
+  'doctor.finalState':        '\n--- État final après tentatives de correctifs ---',
+  'doctor.allOk':             '\n🎉 Diagnostic avancé : Tous les prérequis sont satisfaits.',
+  'doctor.someFailed':        '\n❗ Diagnostic avancé : Certains prérequis ne sont toujours pas satisfaits.',
+  'doctor.followAdvice':      'Veuillez suivre les conseils ci-dessus pour corriger les problèmes.',
+  'helpers.error.openUrl':    'Erreur lors de l\'ouverture de {url}:',
+  'helpers.openingPages':     '\nOuverture des fenêtres web du projet...',
+  'helpers.pagesOpened':      '✅ Les fenêtres web ont été ouvertes.',
+  'helpers.diagnostic.title': '🔍 Diagnostic détaillé de l\'environnement\n',
+  'helpers.diagnostic.internet': 'Connexion Internet',
+  'helpers.diagnostic.git':   'Git',
+  'helpers.diagnostic.repo':  'Dépôt GitHub',
+  'helpers.diagnostic.docker': 'Docker',
+  'helpers.diagnostic.dockerCompose': 'Docker Compose',
+  'helpers.advice.internet':  '→ Vérifiez votre connexion internet et vos paramètres réseau.',
+  'helpers.advice.git':       '→ Installez Git depuis : https://git-scm.com/downloads',
+  'helpers.advice.repo':      '→ Vérifiez votre accès à GitHub ou l\'URL du dépôt "app-template".',
+  'helpers.advice.docker':    '→ Installez Docker depuis : https://docs.docker.com/get-docker/',
+  'helpers.advice.dockerCompose': '→ Installez Docker Compose depuis : https://docs.docker.com/compose/install/',
+  'helpers.diagnostic.allOk': '\n🎉 Diagnostic : Tout est opérationnel.',
+  'helpers.diagnostic.someFailed': '\n❗ Diagnostic : Certains prérequis ne sont pas satisfaits.',
+  'helpers.title':            '🔧 Menu Helpers - Outils d\'assistance\n',
+  'helpers.menu.diagnostic':  'Effectuer un diagnostic complet de l\'environnement',
+  'helpers.menu.openWeb':     'Ouvrir interactivement les fenêtres web du projet',
+  'helpers.openWeb.title':    '🌐 Ouverture interactive des fenêtres web\n',
+  'helpers.openWeb.prompt':   'Voulez-vous ouvrir {page} ?',
+  'helpers.openWeb.opened':   '✅ {page} ouvert.',
+  'helpers.openWeb.skipped':  '→ {page} non ouvert.',
+
+  // ─── login ────────────────────────────────────────────────────────────────
+  'login.prompt.mode':        'Mode de récupération des credentials Service Account :',
+  'login.mode.manual':        'Manuel (saisie)',
+  'login.mode.file':          'Fichier JSON (Downloads)',
+  'login.mode.web':           'Via navigateur (création du Service Account)',
+  'login.prompt.clientId':    'Client ID :',
+  'login.prompt.clientSecret': 'Client Secret :',
+  'login.error.bothRequired': 'Les deux champs sont requis.',
+  'login.newProfile':         '🆕 Nouveau profil "{profile}" : renseignez ses endpoints.',
+  'login.error.endpointsRequired': 'Les deux endpoints sont requis.',
+  'login.profileHint':        'ℹ️  Profil "{profile}" : utilisez `--profile {profile}` ou `appwizard credentials use {profile}`.',
+  'login.openingBrowser':     '🌐 Ouverture du navigateur pour créer votre Service Account…',
+  'login.browserUrl':         '   Si le navigateur ne s\'ouvre pas, ouvrez : {url}',
+  'login.waitingCallback':    '⏳ En attente des credentials envoyés par le navigateur…',
+  'login.callbackReceived':   '📥 Service Account {clientId} reçu du navigateur.',
+  'login.callbackRejected':   '⚠️  Requête de callback refusée (state invalide).',
+  'login.callbackPage':       'Service Account transmis à appwizard. Vous pouvez fermer cette page.',
+  'login.error.callbackTimeout': 'Aucun Service Account reçu du navigateur après {seconds}s. Relancez `appwizard login`.',
+  'login.otherJson':          '--- Autres JSON trouvés ---',
+  'login.manualPath':         'Entrer un chemin manuellement',
+  'login.prompt.file':        'Sélectionnez le fichier JSON dans {dir}:',
+  'login.prompt.path':        'Chemin complet vers le JSON :',
+  'login.error.fileNotFound': 'Fichier introuvable ou chemin invalide.',
+  'login.error.invalidJson':  'Le JSON ne contient pas clientId/clientSecret.',
+  'login.success':            '🎉 Authentification réussie !',
+  'login.fromEnv.success':    '🎉 Credentials de l\'environnement valides (clientId {clientId}) ; rien n\'a été enregistré.',
+  'login.error.noEnv':        'Définissez APPWIZARD_CLIENT_ID et APPWIZARD_CLIENT_SECRET pour utiliser --from-env.',
+
+  // ─── monitor ──────────────────────────────────────────────────────────────
+  'monitor.title':            '🐳 Utilitaire Docker - Gestion interactive des conteneurs\n',
+  'monitor.action.restart':   '🔄 Redémarrer un conteneur',
+  'monitor.action.rebuild':   '♻️ Reconstruire et redémarrer un conteneur',
+  'monitor.action.stop':      '⏹️  Arrêter un conteneur',
+  'monitor.action.logs':      '📄 Voir les logs d\'un conteneur',
+  'monitor.action.inspect':   '🔍 Inspecter un conteneur (shell)',
+  'monitor.action.quit':      '🚪 Quitter',
+  'monitor.noContainers':     '❌ Aucun conteneur disponible.',
+  'monitor.prompt.container': 'Sélectionnez un conteneur :',
+  'monitor.restarted':        '✅ Le conteneur "{container}" a été redémarré.',
+  'monitor.rebuilt':          '✅ Le conteneur "{container}" a été reconstruit et redémarré.',
+  'monitor.stopped':          '✅ Le conteneur "{container}" a été arrêté.',
+  'monitor.logs':             '📄 Logs en direct du conteneur "{container}". (Ctrl+C pour quitter)',
+  'monitor.shell':            '🔍 Shell du conteneur "{container}". Tapez "exit" pour quitter.',
+  'monitor.error.action':     'Erreur durant l\'exécution de "{action}" sur "{container}"',
+  'monitor.error.list':       'Impossible de lister les conteneurs via docker-compose',
+
+  // ─── template ─────────────────────────────────────────────────────────────
+  'template.title':           '=== Informations du Template ===',
+  'template.name':            'Nom:',
+  'template.version':         'Version:',
+  'template.description':     'Description:',
+  'template.origin':          'Template d\'origine:',
+  'template.choice.info':     'Afficher les infos du template',
+  'template.choice.services': 'Afficher le listing des services avec leurs détails',
+  'template.prompt.display':  'Que souhaitez-vous afficher ?',
+  'template.details':         '\n=== Détails du Template ===',
+  'template.servicesDev':     '\n=== Listing des Services (DEV) ===',
+  'template.servicesProd':    '\n=== Listing des Services (PROD) ===',
+  'template.noServices':      'Aucun service trouvé.',
+  'template.service':         'Service: {name}',
+  'template.prodAddress':     '  Prod Address: {address}',
+  'template.error.command':   'Erreur lors de l\'exécution de la commande template',
+  'template.versions.empty':  'Aucune version publiée pour le template {id} (seule la dernière version est disponible).',
+  'template.versions.title':  '🏷️  Versions du template {id} :',
+  'template.versions.publishedAt': 'publiée le {date}',
+  'template.versions.cached': 'en cache',
+  'template.cache.empty':     'Aucun template en cache.',
+  'template.cache.title':     '🗄️  Templates en cache :',
+  'template.cache.cachedAt':  'mis en cache le {date}',
+  'template.cache.lastUsed':  'utilisé le {date}',
+  'template.cache.error.keep': 'Valeur invalide pour --keep : "{value}" (entier positif attendu).',
+  'template.cache.removed':   '🗑️  {id} ({version}) supprimé du cache.',
+  'template.cache.pruned':    '✅ Cache nettoyé : {count} version(s) supprimée(s).',
+
+  // ─── Services : auth ──────────────────────────────────────────────────────
+  'auth.saved':               '✅ Service Account enregistré.',
+  'auth.error.noServiceAccount': 'Aucun Service Account configuré pour le profil "{profile}". Lancez `appwizard login --profile {profile}`.',
+  'auth.tokenCached':         '🔄 Token cache valide (expire à {expiresAt})',
+  'auth.requestingToken':     '🔑 Demande d’un nouveau token à : {url}',
+  'auth.error.tokenRequest':  'Impossible de récupérer le token',
+  'auth.tokenResponse':       '🎁 Réponse token du backend :',
+  'auth.error.invalidToken':  'Réponse de token invalide : {body}',
+  'auth.tokenStored':         '🔄 Token récupéré et mis en cache (valide {seconds}s).',
+  'auth.removed':             '✅ Service Account supprimé.',
+  'auth.nothingToRemove':     'ℹ️  Aucun Service Account à supprimer.',
+  'auth.locked':              '🔒 Stockage verrouillé : la passphrase sera demandée (ou lue dans APPWIZARD_PASSPHRASE) pour utiliser le Service Account.',
+  'auth.alreadyLocked':       'ℹ️  Le stockage est déjà verrouillé.',
+  'auth.unlocked':            '🔓 Stockage déverrouillé : le secret est chiffré avec la clé machine.',
+  'auth.alreadyUnlocked':     'ℹ️  Le stockage n\'est pas verrouillé.',
+  'auth.error.wrongPassphrase': 'Passphrase incorrecte : impossible de déchiffrer le Service Account.',
+  'auth.error.decrypt':       'Impossible de déchiffrer {file} avec la clé machine. Relancez `appwizard login`.',
+  'auth.source.env':          'ℹ️  Service Account {clientId} lu dans les variables d\'environnement.',
+  'auth.source.file':         'ℹ️  Service Account {clientId} lu dans {file}.',
+  'auth.error.envIncomplete': '{id} et {secret} doivent être définies ensemble.',
+  'auth.error.credentialsFileNotFound': 'Fichier de credentials introuvable : {file}',
+  'auth.error.credentialsFileInvalid': '{file} ne contient pas clientId/clientSecret.',
+
+  // ─── Services : keystore ──────────────────────────────────────────────────
+  'keystore.prompt.passphrase': 'Passphrase du stockage des credentials :',
+  'keystore.prompt.confirm':  'Confirmez la passphrase :',
+  'keystore.error.emptyPassphrase': 'La passphrase ne peut pas être vide.',
+  'keystore.error.mismatch':  'Les deux passphrases ne correspondent pas.',
+  'keystore.error.passphraseRequired': 'Passphrase du stockage des credentials requise : définissez APPWIZARD_PASSPHRASE en mode non interactif.',
+  'keystore.error.noMachineKey': 'Clé machine introuvable ({file}) : le Service Account ne peut pas être déchiffré. Relancez `appwizard login`.',
+
+  // ─── Services : profils ───────────────────────────────────────────────────
+  'profile.error.unknown':    'Profil "{profile}" inconnu. Profils disponibles : {profiles}',
+  'profile.error.invalidName': 'Nom de profil invalide : "{profile}" (lettres, chiffres, ".", "_" et "-").',
+  'profile.error.read':       'Impossible de lire {file}.',
+  'profile.error.migrate':    'Impossible de déplacer l\'ancien Service Account {legacy} vers {dest}.',
+  'profile.legacyKept':       '⚠️  {legacy} (ancien format) n\'est pas migré : {dest} existe déjà. Supprimez-le s\'il n\'est plus utile.',
+
+  // ─── Services : service-accounts ──────────────────────────────────────────
+  'serviceAccount.error.list': 'Impossible de lister les Service Accounts',
+  'serviceAccount.error.rotate': 'Impossible de renouveler le secret du Service Account',
+  'serviceAccount.error.rotateResponse': 'Réponse de rotation invalide : aucun nouveau secret reçu.',
+  'serviceAccount.error.rotateVerify': 'Le nouveau secret de {clientId} est enregistré mais n\'a pas pu être vérifié (l\'ancien secret n\'est plus valide). Relancez `appwizard credentials verify` ; s\'il est refusé, relancez `appwizard credentials rotate` ou `appwizard login`.',
+  'serviceAccount.error.rotateSave': 'Le nouveau secret de {clientId} n\'a pas pu être enregistré et l\'ancien n\'est plus valide. Il est affiché ci-dessus (clientId:clientSecret) : enregistrez-le avec `appwizard login`.',
+  'serviceAccount.error.rotateNotStored': 'La rotation ne concerne que le Service Account enregistré : retirez APPWIZARD_CLIENT_ID/APPWIZARD_CLIENT_SECRET et --credentials-file.',
+  'serviceAccount.error.revoke': 'Impossible de révoquer le Service Account {clientId}',
+
+  // ─── Services : build ─────────────────────────────────────────────────────
+  'buildService.prebuild':    'Exécution du prébuild ({env}) : {command}',
+  'buildService.prebuildDone': 'Prébuild {env} terminé avec succès.',
+  'buildService.error.prebuild': 'Erreur lors du prébuild {env}',
+  'buildService.buildDone':   'Build en mode {env} terminé avec succès.',
+  'buildService.error.build': 'Erreur lors du build en mode {env}',
+  'buildService.error.noArtifactRegistry': 'Aucun registry d\'artefacts configuré pour le build prod. Renseignez-le avec : appwizard config set provider.artifactRegistry <registry>',
+  'buildService.imageMismatch': 'Des écarts dans les noms d\'images ont été détectés :',
+  'buildService.imageDiscrepancy': '- Service {service}: actuel = "{current}", attendu = "{expected}"',
+  'buildService.notDefined':  'non défini',
+  'buildService.prompt.fixImages': 'Voulez-vous corriger automatiquement ces noms d\'images selon les standards ?',
+
+  // ─── Services : clean ─────────────────────────────────────────────────────
+  'cleanService.cleaned':     'Nettoyé: {path}',
+  'cleanService.dirNotFound': 'Dossier non trouvé: {path}',
+  'cleanService.fileRemoved': 'Fichier supprimé: {path}',
+  'cleanService.fileNotFound': 'Fichier non trouvé: {path}',
+  'cleanService.cleaningDirs': 'Nettoyage des dossiers...',
+  'cleanService.removingSignals': 'Suppression des fichiers de signalisation...',
+  'cleanService.dockerRunning': 'Exécution du nettoyage forcé Docker...',
+  'cleanService.error.docker': 'Erreur lors du nettoyage forcé Docker',
+  'cleanService.dockerDone':  'Nettoyage forcé Docker terminé.',
+
+  // ─── Services : compatibility ─────────────────────────────────────────────
+  'compatibility.outdated':   '⚠️  Une nouvelle version d\'appwizard est disponible ({version} → {latest}). Mettez à jour : {command}',
+  'compatibility.error.unsupported': 'La version {version} d\'appwizard n\'est plus prise en charge par le backend (minimum : {min}). Mettez à jour appwizard : {command}',
+  'compatibility.error.check': 'Vérification de la version du CLI',
+
+  // ─── Services : config ────────────────────────────────────────────────────
+  'configService.endpointsSaved': '✅ Endpoints mis à jour dans {path}',
+  'configService.langSaved':  '✅ Langue mise à jour dans {path}',
+  'configService.removed':    '⚠️  Configuration supprimée.',
+  'configService.reset':      '⚠️  Configuration réinitialisée aux valeurs par défaut.',
+
+  // ─── Services : config-schema ─────────────────────────────────────────────
+  'configSchema.error.invalid': 'Fichier de configuration invalide : {file}{issues}',
+  'configSchema.error.newer': 'Le fichier de configuration {file} utilise le schéma v{version}, plus récent que celui pris en charge par ce CLI (v{supported}). Mettez à jour appwizard.',
+  'configSchema.issue.type':  '{path} : type {expected} attendu',
+  'configSchema.issue.values': '{path} : valeur "{value}" invalide (valeurs possibles : {values})',
+  'configSchema.issue.url':   '{path} : URL http(s) attendue ("{value}")',
+  'configSchema.issue.integer': '{path} : entier positif attendu ("{value}")',
+  'configSchema.issue.unknownKey': '{path} : clé inconnue',
+  'configSchema.issue.required': '{path} : valeur requise',
+  'configSchema.issue.volumeProvider': 'le volume partagé cible "{volume}" alors que provider.cloud vaut "{cloud}"',
+
+  // ─── Services : credentials ───────────────────────────────────────────────
+  'credentialsService.saved': '✅ Credential utilisateur enregistré avec succès.',
+  'credentialsService.error.save': '❌ Erreur lors de l’enregistrement du credential utilisateur:',
+  'credentialsService.error.read': '❌ Erreur lors de la lecture du fichier de credential utilisateur.',
+
+  // ─── Services : docker-compose ────────────────────────────────────────────
+  'compose.error.notFoundIn': 'Fichier {file} introuvable dans {dir}',
+  'compose.error.serviceNotFound': 'Service \'{service}\' non trouvé dans {file}',
+  'compose.error.serviceNotInOrder': 'Service \'{service}\' non trouvé dans l\'ordre déduit du {file}.',
+  'compose.error.noHealthcheck': 'Le service \'{service}\' ne possède pas de healthcheck défini dans {file}',
+  'compose.imageChange':      'Service {service} : image actuelle "{current}" -> attendue "{expected}"',
+  'compose.imageMissing':     'absente',
+  'compose.imagesUpdated':    'Fichier {file} mis à jour avec les noms d\'images conformes.',
+  'compose.imagesOk':         'Les noms d\'images dans {file} sont déjà conformes.',
+  'volumes.devNoop':          'En environnement de développement, la vérification des volumes est factice. Aucun changement n\'est appliqué.',
+  'volumes.noSection':        'Aucune section \'volumes\' trouvée dans le fichier docker-compose.',
+  'volumes.updating':         'Mise à jour de la configuration du volume \'{volume}\':',
+  'volumes.driver':           '- Driver actuel: {current}, attendu: {expected}',
+  'volumes.options':          '- Options actuelles: {current}, attendues: {expected}',
+  'volumes.updated':          'Le fichier docker-compose a été mis à jour avec la configuration correcte pour les volumes.',
+  'volumes.ok':               'Les volumes du fichier docker-compose sont déjà correctement configurés.',
+
+  // ─── Services : fetch-template ────────────────────────────────────────────
+  'fetch.error.list':         'Impossible de lister les templates',
+  'fetch.error.download':     'Échec du téléchargement du template',
+  'fetch.error.versions':     'Impossible de lister les versions du template',
+  'fetch.error.invalidZip':   'Le fichier reçu n\'est pas un ZIP valide ({detail})',
+  'fetch.noChecksum':         '⚠️  Le backend n\'a pas fourni d\'empreinte SHA-256 pour le template {id} : intégrité de l\'archive non vérifiée.',
+  'fetch.error.interrupted':  'Téléchargement du template {id} interrompu, archive incomplète refusée ({detail}).',
+  'fetch.error.truncated':    'Archive du template {id} incomplète : {size} octets reçus sur {expected} annoncés.',
+  'fetch.error.checksum':     'Archive du template {id} altérée : empreinte SHA-256 {actual}, {expected} attendue.',
+  'fetch.error.unsigned':     'Le template {id} n\'est pas signé alors qu\'une clé publique d\'éditeur est configurée (templates.publicKey).',
+  'fetch.error.signature':    'Signature du template {id} invalide : l\'archive a été modifiée ou n\'a pas été signée par l\'éditeur attendu.',
+  'fetch.error.publicKey':    'Clé publique invalide pour templates.publicKey : {file}',
+  'fetch.error.cacheCorrupted': 'L\'archive en cache du template {id} ({version}) a été modifiée ; nettoyez le cache (appwizard template cache prune --all) puis relancez sans --offline.',
+  'fetch.extracting':         '📂 Extraction de {count} fichier(s) vers {dir} ({overwritten} remplacé(s))…',
+  'fetch.deployed':           '✅ Template déployé.',
+  'fetch.fromCache':          '📦 Template {id} ({version}) lu depuis le cache local.',
+
+  // ─── Services : archive ───────────────────────────────────────────────────
+  'archive.error.tooManyEntries': 'Archive refusée : {count} entrées (maximum {max}).',
+  'archive.error.unsafePath': 'Archive refusée : chemin dangereux « {entry} » (absolu ou hors du dossier cible).',
+  'archive.error.outside':    'Archive refusée : « {entry} » serait écrit hors du dossier cible (lien symbolique existant).',
+  'archive.error.duplicate':  'Archive refusée : entrée « {entry} » en double.',
+  'archive.error.encrypted':  'Archive refusée : entrée chiffrée « {entry} ».',
+  'archive.error.fileTooLarge': 'Archive refusée : « {entry} » fait {size} octets décompressé (maximum {max}).',
+  'archive.error.tooLarge':   'Archive refusée : taille décompressée supérieure à {max} octets.',
+  'archive.error.conflict':   'Impossible d\'extraire le template : {path} existe déjà avec un autre type (fichier/dossier).',
+  'archive.error.symlink':    'Archive refusée : le lien symbolique « {entry} » pointe hors du dossier cible ({target}).',
+  'archive.error.throughSymlink': 'Archive refusée : « {entry} » serait écrit à travers le lien symbolique « {link} ».',
+  'archive.error.corrupted':  'Archive corrompue : entrée « {entry} » illisible.',
+  'archive.error.write':      'Impossible d\'écrire {path}',
+  'archive.overwritten':      '↻ {path} remplacé.',
+
+  // ─── Services : git ───────────────────────────────────────────────────────
+  'git.initialized':          '✅ Dépôt Git initialisé et commit effectué.',
+  'git.committed':            '✅ Commit effectué.',
+  'git.error.commit':         '❌ Erreur lors du commit. Veuillez effectuer le commit manuellement.',
+  'git.prompt.commit':        'Un dépôt Git est déjà présent. Voulez-vous committer la création du projet automatiquement ?',
+  'git.prompt.init':          'Aucun dépôt Git n\'a été détecté. Voulez-vous initialiser un dépôt Git dans ce dossier ?',
+  'git.initMessage':          'Initialisation du projet {name}',
+  'git.commitMessage':        'Création du projet {name}',
+
+  // ─── Services : secrets ───────────────────────────────────────────────────
+  'secrets.missingKey':       'Clé manquante dans {file} : {key}',
+  'secrets.requiredKeys':     'Clés requises pour {file} : {keys}',
+  'secrets.creatingFile':     'Création du fichier {file}...',
+  'secrets.updated':          '{file} mis à jour avec {count} clé(s) manquante(s).',
+  'secrets.created':          '{file} créé.',
+  'secrets.complete':         '{file} contient déjà toutes les clés requises.',
+  'secrets.error.dbIncomplete': 'Les secrets de la base de données ne sont pas correctement renseignés dans .env.prod',
+  'secrets.dbLoaded':         'Secrets de la base de données récupérés avec succès.',
+
+  // ─── Services : service-config ────────────────────────────────────────────
+  'serviceConfig.found':      'Configuration trouvée pour {service}:',
+  'serviceConfig.error.read': 'Erreur lors de la lecture de la config pour {service}: {error}',
+  'serviceConfig.invalid':    'Aucune configuration valide trouvée pour {service}: {error}',
+  'serviceConfig.skipped':    '⚠️  Service \'{service}\' ignoré: {error}',
+  'serviceConfig.template':   'Template: {name} - Version: {version}',
+  'serviceConfig.composeMissing': '⚠️ Fichier {file} introuvable dans {dir}',
+  'serviceConfig.configured': 'Service \'{service}\' (order: {order}) configuré avec prodAddress: {address}',
+  'serviceConfig.error.check': '⚠️  Erreur lors de la vérification du service \'{service}\': {error}',
+
+  // ─── Services : template-config ───────────────────────────────────────────
+  'templateConfig.error.notFound': 'Fichier template.yaml introuvable dans {dir}',
+  'templateConfig.creating':  '⚠️  template.yaml non trouvé, création depuis defaultTemplateConfig.',
+  'templateConfig.error.missingKey': 'Clé manquante ou invalide : {key}',
+  'templateConfig.invalid':   '⚠️  Erreur de lecture/validation de template.yaml ({error}). Réparation.',
+  'templateConfig.repaired':  '⚠️  La configuration du template a été réparée. Veuillez vérifier containers/template.yaml.',
+
+  // ─── Services : plugins ───────────────────────────────────────────────────
+  'plugin.error.load':        '⚠️  Plugin "{plugin}" non chargé : {error}',
+  'plugin.error.noRegister':  'le module n\'exporte pas de fonction register(program, context)',
+  'plugin.error.invalidList': '⚠️  La clé "plugins" de template.yaml doit être une liste de noms de paquets npm. Plugins ignorés.',
+  'plugin.error.templateConfig': '⚠️  Plugins ignorés : template.yaml illisible ({error}).',
+};
+
+/**
+ * Clé d'un message du catalogue.
+ */
+export type MessageKey = keyof typeof fr;
@@ -0,0 +1,85 @@
+/**
+ * @module i18n
+ * Catalogue des messages du CLI (français et anglais).
+ * La langue est choisie via `--lang`, la clé `lang` de la configuration CLI,
+ * puis la variable d'environnement `LANG` ; le français reste la langue par défaut.
+ */
+
+import { fr, type MessageKey } from './fr.js';
+import { en } from './en.js';
+
+export type { MessageKey } from './fr.js';
+
+/**
+ * Langues disponibles.
+ */
+export type Locale = 'fr' | 'en';
+
+export const LOCALES: Locale[] = ['fr', 'en'];
+
+const DEFAULT_LOCALE: Locale = 'fr';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { fr, en };
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+/**
+ * Indique si une valeur est une langue supportée.
+ * @param value Valeur à tester.
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+/**
+ * Déduit la langue d'une valeur de type `LANG` (`en_US.UTF-8`, `fr_FR`, `en`…).
+ * @param value Valeur de la variable d'environnement.
+ * @returns La langue correspondante, ou `undefined` si elle n'est pas supportée (`C`, `POSIX`…).
+ */
+export function localeFromEnv(value: string | undefined = process.env.LANG): Locale | undefined {
+  const language = value?.split(/[_.@-]/)[0].toLowerCase();
+  return isLocale(language) ? language : undefined;
+}
+
+/**
+ * Détermine la langue à utiliser : option `--lang`, puis clé `lang` de la configuration,
+ * puis variable `LANG`. La configuration prime sur `LANG`, qui est positionnée
+ * par le système et non choisie pour le CLI.
+ *
+ * @param flag       Valeur de `--lang`.
+ * @param configLang Valeur de la clé `lang` de la configuration CLI.
+ */
+export function resolveLocale(flag?: string, configLang?: string): Locale {
+  if (isLocale(flag)) return flag;
+  if (isLocale(configLang)) return configLang;
+  return localeFromEnv() ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Définit la langue des messages.
+ * @param locale Langue à utiliser.
+ */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+}
+
+/**
+ * Retourne la langue courante.
+ */
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * Traduit un message dans la langue courante.
+ * Les paramètres `{nom}` du message sont remplacés par les valeurs fournies.
+ *
+ * @param key    Clé du message.
+ * @param params Valeurs des paramètres.
+ */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = CATALOGS[currentLocale][key] ?? fr[key];
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * @module services/archive-extract-service
+ * Extraction contrôlée des archives ZIP de templates : toutes les entrées sont vérifiées
+ * avant la moindre écriture (chemins absolus ou sortant du dossier cible, liens symboliques,
+ * doublons, nombre d'entrées et tailles décompressées), puis écrites directement dans le dossier cible.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import type AdmZip from 'adm-zip';
+import type { ExtractionLimits, ExtractionPlan, PlannedFile } from '../types/template.js';
+import { TemplateError } from '../errors/app-wizard-errors.js';
+import { isDryRun, printDryRun } from '../utils/operation-utils.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+/** Limites par défaut : largement au-dessus des templates publiés, bien en dessous d'une archive piégée. */
+export const DEFAULT_EXTRACTION_LIMITS: ExtractionLimits = {
+  maxEntries:   20000,
+  maxFileSize:  100 * 1024 * 1024,
+  maxTotalSize: 500 * 1024 * 1024,
+};
+
+/** Système hôte « Unix » dans le champ `version made by` : les attributs externes portent un mode Unix. */
+const HOST_UNIX   = 3;
+const S_IFMT      = 0o170000;
+const S_IFLNK     = 0o120000;
+/** Entrée chiffrée (bit 0 des flags). */
+const FLAG_ENCRYPTED = 0x1;
+/** Taille maximale de la cible d'un lien symbolique. */
+const MAX_LINK_TARGET = 4096;
+
+/** Indique si `child` est `parent` ou se trouve sous `parent`. */
+function isInside(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+export class ArchiveExtractService {
+  /**
+   * Contrôle toutes les entrées d'une archive et établit la liste des fichiers à écrire
+   * dans le dossier cible ; rien n'est écrit.
+   *
+   * @param zip       Archive ouverte.
+   * @param targetDir Dossier cible (il peut ne pas encore exister).
+   * @param limits    Limites d'extraction.
+   * @throws TemplateError si une entrée est dangereuse, en conflit avec le dossier cible ou hors limites.
+   */
+  public static async plan(
+    zip: AdmZip,
+    targetDir: string,
+    limits: ExtractionLimits = DEFAULT_EXTRACTION_LIMITS
+  ): Promise<ExtractionPlan> {
+    const entries = zip.getEntries();
+    if (entries.length > limits.maxEntries) {
+      throw new TemplateError(t('archive.error.tooManyEntries', { count: entries.length, max: limits.maxEntries }));
+    }
+
+    const root     = path.resolve(targetDir);
+    const realRoot = await ArchiveExtractService.realpathOfExisting(root);
+    const plan: ExtractionPlan = { targetDir: root, directories: [], files: [], totalSize: 0 };
+    const seen = new Set<string>();
+
+    for (const entry of entries) {
+      const relative = ArchiveExtractService.entryPath(entry.entryName);
+      if (!relative) {
+        continue;
+      }
+      if (seen.has(relative)) {
+        throw new TemplateError(t('archive.error.duplicate', { entry: entry.entryName }));
+      }
+      seen.add(relative);
+
+      const dest = path.join(root, ...relative.split('/'));
+      await ArchiveExtractService.assertInside(realRoot, entry.isDirectory ? dest : path.dirname(dest), entry.entryName);
+      const existing = await fs.lstat(dest).catch(() => undefined);
+
+      if (entry.isDirectory) {
+        // un lien cassé ou en boucle n'est pas un dossier : conflit, sans erreur système brute
+        const resolved = existing?.isSymbolicLink() ? await fs.stat(dest).catch(() => undefined) : existing;
+        if (existing && !resolved?.isDirectory()) {
+          throw new TemplateError(t('archive.error.conflict', { path: dest }));
+        }
+        if (!existing) {
+          plan.directories.push(relative);
+        }
+        continue;
+      }
+
+      if (entry.header.flags & FLAG_ENCRYPTED) {
+        throw new TemplateError(t('archive.error.encrypted', { entry: entry.entryName }));
+      }
+      const size = entry.header.size;
+      if (size > limits.maxFileSize) {
+        throw new TemplateError(t('archive.error.fileTooLarge', { entry: entry.entryName, size, max: limits.maxFileSize }));
+      }
+      plan.totalSize += size;
+      if (plan.totalSize > limits.maxTotalSize) {
+        throw new TemplateError(t('archive.error.tooLarge', { max: limits.maxTotalSize }));
+      }
+      if (existing?.isDirectory()) {
+        throw new TemplateError(t('archive.error.conflict', { path: dest }));
+      }
+
+      const unixMode = entry.header.made >> 8 === HOST_UNIX ? entry.attr >>> 16 : 0;
+      const file: PlannedFile = { entryName: entry.entryName, path: relative, size, overwrite: Boolean(existing) };
+      if ((unixMode & S_IFMT) === S_IFLNK) {
+        file.symlink = ArchiveExtractService.linkTarget(entry, root, dest);
+      } else if (unixMode & 0o777) {
+        file.mode = unixMode & 0o777;
+      }
+      plan.files.push(file);
+    }
+
+    // une entrée ne peut pas être écrite à travers un lien créé par l'archive elle-même
+    const links = new Set(plan.files.filter(file => file.symlink !== undefined).map(file => file.path));
+    for (const relative of seen) {
+      const parts = relative.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        if (links.has(parts.slice(0, i).join('/'))) {
+          throw new TemplateError(t('archive.error.throughSymlink', { entry: relative, link: parts.slice(0, i).join('/') }));
+        }
+      }
+    }
+    return plan;
+  }
+
+  /**
+   * Écrit les fichiers d'un plan dans le dossier cible et indique ceux qui sont remplacés.
+   * En mode `--dry-run`, chaque fichier qui serait créé ou remplacé est seulement affiché.
+   *
+   * @param zip  Archive dont est issu le plan.
+   * @param plan Plan établi par {@link ArchiveExtractService.plan}.
+   * @throws TemplateError si une entrée est illisible ou ne peut pas être écrite.
+   */
+  public static async extract(zip: AdmZip, plan: ExtractionPlan): Promise<void> {
+    if (isDryRun()) {
+      for (const file of plan.files) {
+        printDryRun(t(file.overwrite ? 'dryRun.rewrite' : 'dryRun.create', { path: path.join(plan.targetDir, file.path) }));
+      }
+      return;
+    }
+
+    for (const directory of plan.directories) {
+      await fs.mkdirp(path.join(plan.targetDir, directory));
+    }
+    for (const file of plan.files) {
+      const dest = path.join(plan.targetDir, ...file.path.split('/'));
+      try {
+        await fs.mkdirp(path.dirname(dest));
+        if (file.overwrite) {
+          // un lien existant est remplacé, jamais suivi
+          await fs.remove(dest);
+        }
+        if (file.symlink !== undefined) {
+          await fs.symlink(file.symlink, dest);
+        } else {
+          const data = ArchiveExtractService.readEntry(zip.getEntry(file.entryName)!);
+          await fs.writeFile(dest, data, file.mode ? { mode: file.mode } : {});
+        }
+      } catch (error) {
+        if (error instanceof TemplateError) {
+          throw error;
+        }
+        throw new TemplateError(t('archive.error.write', { path: dest }), error);
+      }
+      if (file.overwrite) {
+        logger.info(t('archive.overwritten', { path: file.path }));
+      } else {
+        logger.debug(`Created ${dest}`);
+      }
+    }
+  }
+
+  /**
+   * Chemin relatif (séparateurs `/`) d'une entrée ; chaîne vide pour la racine de l'archive.
+   * @throws TemplateError si le chemin est absolu ou remonte au-dessus de la racine.
+   */
+  private static entryPath(entryName: string): string {
+    const normalized = entryName.replace(/\\/g, '/');
+    if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized) || normalized.includes('\0')) {
+      throw new TemplateError(t('archive.error.unsafePath', { entry: entryName }));
+    }
+    const parts = normalized.split('/').filter(part => part !== '' && part !== '.');
+    if (parts.includes('..')) {
+      throw new TemplateError(t('archive.error.unsafePath', { entry: entryName }));
+    }
+    return parts.join('/');
+  }
+
+  /**
+   * Cible d'un lien symbolique de l'archive.
+   * @throws TemplateError si la cible est absolue ou sort du dossier cible.
+   */
+  private static linkTarget(entry: AdmZip.IZipEntry, root: string, dest: string): string {
+    if (entry.header.size > MAX_LINK_TARGET) {
+      throw new TemplateError(t('archive.error.symlink', { entry: entry.entryName, target: '…' }));
+    }
+    const target = ArchiveExtractService.readEntry(entry).toString('utf8');
+    if (!target || path.isAbsolute(target) || path.win32.isAbsolute(target)
+      || !isInside(root, path.resolve(path.dirname(dest), target))) {
+      throw new TemplateError(t('archive.error.symlink', { entry: entry.entryName, target }));
+    }
+    return target;
+  }
+
+  /**
+   * Décompresse une entrée. La taille annoncée borne la décompression (adm-zip) et le CRC est vérifié ;
+   * une entrée annoncée vide n'est pas décompressée.
+   * @throws TemplateError si l'entrée est corrompue.
+   */
+  private static readEntry(entry: AdmZip.IZipEntry): Buffer {
+    if (entry.header.size === 0) {
+      return Buffer.alloc(0);
+    }
+    let data: Buffer;
+    try {
+      data = entry.getData();
+    } catch (error) {
+      throw new TemplateError(t('archive.error.corrupted', { entry: entry.entryName }), error);
+    }
+    if (data.length !== entry.header.size) {
+      throw new TemplateError(t('archive.error.corrupted', { entry: entry.entryName }));
+    }
+    return data;
+  }
+
+  /**
+   * Vérifie qu'un chemin, liens existants résolus, reste dans le dossier cible.
+   * @throws TemplateError si le chemin sort du dossier cible.
+   */
+  private static async assertInside(realRoot: string, target: string, entryName: string): Promise<void> {
+    if (!isInside(realRoot, await ArchiveExtractService.realpathOfExisting(target))) {
+      throw new TemplateError(t('archive.error.outside', { entry: entryName }));
+    }
+  }
+
+  /** Chemin réel d'un chemin dont seule une partie existe : le plus proche parent existant est résolu. */
+  private static async realpathOfExisting(target: string): Promise<string> {
+    const missing: string[] = [];
+    let current = target;
+    for (;;) {
+      try {
+        return path.join(await fs.realpath(current), ...missing.reverse());
+      } catch {
+        const parent = path.dirname(current);
+        if (parent === current) {
+          return target;
+        }
+        missing.push(path.basename(current));
+        current = parent;
+      }
+    }
+  }
+}
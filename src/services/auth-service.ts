@@ -2,61 +2,250 @@
  * @module services/auth-service
  * Gère la persistance du Service Account et la récupération / cache
  * du token d’accès auprès du backend.
+ * `clientSecret` et le token en cache sont chiffrés sur disque (AES-256-GCM),
+ * avec la clé machine ou, une fois le stockage verrouillé, une clé dérivée d’une passphrase.
+ * Chaque profil (`--profile`) dispose de son propre Service Account et de ses endpoints.
+ * Les credentials fournis par l’environnement ou `--credentials-file` priment sur le
+ * Service Account enregistré et ne sont jamais écrits sur disque (token gardé en mémoire).
  */
 
 import fs from 'fs-extra';
-import * as path from 'path';
-import os from 'os';
-import { mkdirp } from 'mkdirp';
-import axios from 'axios';
 import { ConfigService } from './config-service.js';
+import { KeystoreService } from './keystore-service.js';
+import { ProfileService } from './profile-service.js';
+import { BackendClient } from './backend-client.js';
 import type { EndpointsConfig, VersionConfig } from '../types/cli-config.js';
-import type { ServiceAccount, StoredServiceAccount } from '../types/auth.js';
+import type { CredentialSource, KeySource, ServiceAccount, ServiceAccountFile, StoredServiceAccount, TokenInfo } from '../types/auth.js';
+import { AuthError, UsageError } from '../errors/app-wizard-errors.js';
+import { getGlobalOptions } from '../utils/cli-context.js';
+import { decrypt, encrypt, type EncryptedPayload } from '../utils/crypto-utils.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
 
-const STORAGE_DIR     = path.join(os.homedir(), '.appwizard');
-const STORAGE_FILE    = path.join(STORAGE_DIR, 'service-account.json');
 // default TTL if backend doesn't return expires_in
 const DEFAULT_TTL_SEC = 900;
 
+const TOKEN_PATH = '/auth/services-accounts/token';
+
+const ENV_CLIENT_ID     = 'APPWIZARD_CLIENT_ID';
+const ENV_CLIENT_SECRET = 'APPWIZARD_CLIENT_SECRET';
+
 export class AuthService {
+  /** Tokens obtenus avec des credentials non enregistrés, indexés par clientId (durée du processus). */
+  private static memoryTokens = new Map<string, Pick<StoredServiceAccount, 'accessToken' | 'expiresAt'>>();
+  /** Source déjà signalée à l’utilisateur (une seule fois par exécution). */
+  private static reportedSource?: CredentialSource;
+
   private data!: StoredServiceAccount;
+  /** Origine des credentials chargés. */
+  private source: CredentialSource = 'stored';
+  /** Profil et fichier de Service Account chargés. */
+  private profileName!: string;
+  private file!: string;
+  /** Source de la clé de chiffrement du fichier chargé. */
+  private keySource: KeySource = 'machine';
+  /** Sel de dérivation, pour un stockage verrouillé par passphrase. */
+  private salt?: string;
+  /** Secrets encore chiffrés (déchiffrés à la demande par `unlockSecrets`). */
+  private secrets?: EncryptedPayload;
   private config = new ConfigService();
 
-  /** Charge ou initialise le fichier JSON de Service Account. */
+  /**
+   * @param profile Profil à utiliser (profil actif par défaut).
+   */
+  constructor(private readonly profile?: string) {}
+
+  /**
+   * Charge ou initialise le fichier JSON de Service Account, sans déchiffrer les secrets.
+   * Un fichier de l’ancien format (secrets en clair) est immédiatement réécrit chiffré.
+   */
   private async load(): Promise<void> {
-    await mkdirp(STORAGE_DIR);
-    if (await fs.pathExists(STORAGE_FILE)) {
-      this.data = await fs.readJSON(STORAGE_FILE) as StoredServiceAccount;
-    } else {
-      this.data = {} as StoredServiceAccount;
+    this.profileName = this.profile ?? await ProfileService.getActiveProfileName();
+    this.file        = ProfileService.getCredentialsPath(this.profileName);
+    this.source    = 'stored';
+    this.data      = {} as StoredServiceAccount;
+    this.keySource = 'machine';
+    this.salt      = undefined;
+    this.secrets   = undefined;
+    if (!(await fs.pathExists(this.file))) {
+      return;
+    }
+
+    const raw = await fs.readJSON(this.file) as Partial<ServiceAccountFile & StoredServiceAccount>;
+    if (raw.secrets) {
+      this.data      = { clientId: raw.clientId, expiresAt: raw.expiresAt } as StoredServiceAccount;
+      this.keySource = raw.keySource ?? 'machine';
+      this.salt      = raw.salt;
+      this.secrets   = raw.secrets;
+      return;
+    }
+
+    this.data = raw as StoredServiceAccount;
+    logger.addSecret(this.data.clientSecret);
+    logger.addSecret(this.data.accessToken);
+    if (this.data.clientSecret) {
+      await this.save();
+      logger.debug(`Service account file migrated to encrypted storage: ${this.file}`);
+    }
+  }
+
+  /**
+   * Charge les credentials effectifs, par ordre de priorité : variables d’environnement,
+   * `--credentials-file`, puis Service Account enregistré pour le profil.
+   */
+  private async loadEffective(): Promise<void> {
+    const external = await AuthService.readExternalCredentials();
+    if (!external) {
+      await this.load();
+      return;
+    }
+
+    this.profileName = this.profile ?? await ProfileService.getActiveProfileName();
+    this.source      = external.source;
+    this.secrets     = undefined;
+    this.keySource   = 'machine';
+    this.data        = { ...external.sa, ...AuthService.memoryTokens.get(external.sa.clientId) };
+    logger.addSecret(external.sa.clientSecret);
+    logger.addSecret(this.data.accessToken);
+
+    if (AuthService.reportedSource !== external.source) {
+      AuthService.reportedSource = external.source;
+      logger.info(external.source === 'env'
+        ? t('auth.source.env', { clientId: external.sa.clientId })
+        : t('auth.source.file', { clientId: external.sa.clientId, file: getGlobalOptions().credentialsFile ?? '' }));
+    }
+  }
+
+  /**
+   * Indique si les credentials viennent de l’environnement ou de `--credentials-file`.
+   * Des credentials externes invalides sont signalés lors de leur utilisation, pas ici.
+   */
+  public static async usesExternalCredentials(): Promise<boolean> {
+    return (await AuthService.readExternalCredentials().catch(() => undefined)) !== undefined;
+  }
+
+  /**
+   * Lit les credentials fournis hors du stockage : variables d’environnement, puis `--credentials-file`.
+   * @returns Les credentials et leur origine, ou `undefined` si aucun n’est fourni.
+   * @throws UsageError si une seule des deux variables est définie ou si le fichier est invalide.
+   */
+  private static async readExternalCredentials(): Promise<{ sa: ServiceAccount; source: CredentialSource } | undefined> {
+    const clientId     = process.env[ENV_CLIENT_ID];
+    const clientSecret = process.env[ENV_CLIENT_SECRET];
+    if (clientId && clientSecret) {
+      return { sa: { clientId, clientSecret }, source: 'env' };
+    }
+    if (clientId || clientSecret) {
+      throw new UsageError(t('auth.error.envIncomplete', { id: ENV_CLIENT_ID, secret: ENV_CLIENT_SECRET }));
+    }
+
+    const file = getGlobalOptions().credentialsFile;
+    if (!file) {
+      return undefined;
+    }
+    if (!(await fs.pathExists(file))) {
+      throw new UsageError(t('auth.error.credentialsFileNotFound', { file }));
+    }
+    let json: any;
+    try {
+      json = await fs.readJSON(file);
+    } catch {
+      json = undefined;
+    }
+    if (typeof json?.clientId !== 'string' || typeof json?.clientSecret !== 'string') {
+      throw new UsageError(t('auth.error.credentialsFileInvalid', { file }));
+    }
+    return { sa: { clientId: json.clientId, clientSecret: json.clientSecret }, source: 'file' };
+  }
+
+  /**
+   * Déchiffre `clientSecret` et le token en cache.
+   * La passphrase est demandée si le stockage est verrouillé.
+   * @throws AuthError si la clé est absente ou incorrecte.
+   */
+  private async unlockSecrets(): Promise<void> {
+    if (!this.secrets) {
+      return;
+    }
+    const key = await this.getKey(false);
+    let secrets: Pick<StoredServiceAccount, 'clientSecret' | 'accessToken'>;
+    try {
+      secrets = JSON.parse(decrypt(this.secrets, key));
+    } catch {
+      if (this.keySource === 'passphrase') {
+        KeystoreService.forgetPassphraseKey(this.salt!);
+        throw new AuthError(t('auth.error.wrongPassphrase'));
+      }
+      throw new AuthError(t('auth.error.decrypt', { file: this.file }));
     }
+    this.data.clientSecret = secrets.clientSecret;
+    this.data.accessToken  = secrets.accessToken;
+    logger.addSecret(secrets.clientSecret);
+    logger.addSecret(secrets.accessToken);
+    this.secrets = undefined;
+  }
+
+  /**
+   * Retourne la clé de chiffrement du stockage.
+   * @param create Génère la clé machine si elle n’existe pas (écriture uniquement).
+   */
+  private async getKey(create: boolean): Promise<Buffer> {
+    return this.keySource === 'passphrase'
+      ? KeystoreService.getPassphraseKey(this.salt!)
+      : KeystoreService.getMachineKey(create);
   }
 
-  /** Sauvegarde `this.data` sur disque. */
+  /**
+   * Chiffre les secrets et sauvegarde `this.data` sur disque (permissions 0600).
+   * Pour des credentials non enregistrés, seul le token est conservé, en mémoire.
+   */
   private async save(): Promise<void> {
-    await fs.writeJSON(STORAGE_FILE, this.data, { spaces: 2 });
+    if (this.source !== 'stored') {
+      AuthService.memoryTokens.set(this.data.clientId, {
+        accessToken: this.data.accessToken,
+        expiresAt:   this.data.expiresAt,
+      });
+      return;
+    }
+    const key = await this.getKey(true);
+    const file: ServiceAccountFile = {
+      clientId: this.data.clientId,
+      ...(this.data.expiresAt !== undefined ? { expiresAt: this.data.expiresAt } : {}),
+      keySource: this.keySource,
+      ...(this.salt ? { salt: this.salt } : {}),
+      secrets: encrypt(JSON.stringify({
+        clientSecret: this.data.clientSecret,
+        accessToken:  this.data.accessToken,
+      }), key),
+    };
+    await KeystoreService.writeSecretFile(this.file, file);
   }
 
   /**
-   * Enregistre un Service Account, et purge le token cache.
+   * Vérifie un Service Account auprès du backend puis l'enregistre avec son token.
+   * Les credentials de l'environnement ou de `--credentials-file` sont ignorés :
+   * ce sont bien ceux fournis qui sont testés.
    * @param sa Credentials du Service Account.
+   * @throws AuthError si le backend refuse les credentials (rien n'est alors enregistré).
+   * @throws NetworkError si le backend est injoignable.
    */
   public async setServiceAccount(sa: ServiceAccount): Promise<void> {
     await this.load();
-    this.data.clientId     = sa.clientId;
-    this.data.clientSecret = sa.clientSecret;
-    delete this.data.accessToken;
-    delete this.data.expiresAt;
+    logger.addSecret(sa.clientSecret);
+    const { accessToken, expiresAt } = await this.requestToken(sa);
+    this.secrets = undefined;
+    this.data    = { clientId: sa.clientId, clientSecret: sa.clientSecret, accessToken, expiresAt };
     await this.save();
-    console.log('✅ Service Account enregistré.');
+    logger.info(t('auth.saved'));
   }
 
   /**
-   * Récupère le Service Account stocké.
+   * Récupère le Service Account utilisé (environnement, `--credentials-file` ou stockage).
    * @returns Les credentials, ou `undefined` s’ils n’existent pas.
    */
   public async getServiceAccount(): Promise<ServiceAccount|undefined> {
-    await this.load();
+    await this.loadEffective();
+    await this.unlockSecrets();
     if (this.data.clientId && this.data.clientSecret) {
       return {
         clientId:     this.data.clientId,
@@ -66,45 +255,216 @@ export class AuthService {
     return undefined;
   }
 
+  /**
+   * Récupère la date d’expiration du token en cache.
+   * @returns Le timestamp (ms) d’expiration, ou `undefined` si aucun token n’est en cache.
+   */
+  public async getTokenExpiry(): Promise<number|undefined> {
+    await this.loadEffective();
+    return this.data.expiresAt;
+  }
+
+  /**
+   * Décode le token en cache, sans vérifier sa signature.
+   * @returns Les claims utiles, ou `undefined` si aucun token n’est en cache.
+   */
+  public async getTokenInfo(): Promise<TokenInfo|undefined> {
+    await this.loadEffective();
+    await this.unlockSecrets();
+    if (!this.data.accessToken) {
+      return undefined;
+    }
+    const claims = AuthService.decodeJwtClaims(this.data.accessToken);
+    const seconds = (value: unknown) => typeof value === 'number' ? value * 1000 : undefined;
+    const scopes =
+      typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean)
+      : Array.isArray(claims.scopes)   ? claims.scopes.map(String)
+      : Array.isArray(claims.scp)      ? claims.scp.map(String)
+      : typeof claims.scp === 'string' ? claims.scp.split(' ').filter(Boolean)
+      : [];
+    return {
+      subject:   typeof claims.sub === 'string' ? claims.sub : undefined,
+      scopes,
+      issuer:    typeof claims.iss === 'string' ? claims.iss : undefined,
+      issuedAt:  seconds(claims.iat),
+      expiresAt: seconds(claims.exp) ?? this.data.expiresAt,
+      claims,
+    };
+  }
+
+  /**
+   * Décode la charge utile d’un JWT (sans vérification).
+   * @returns Les claims, ou un objet vide si le token n’est pas un JWT.
+   */
+  private static decodeJwtClaims(token: string): Record<string, any> {
+    const payload = token.split('.')[1];
+    if (!payload) {
+      return {};
+    }
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return claims && typeof claims === 'object' ? claims : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Récupère l’identifiant du Service Account utilisé, sans déchiffrer son secret.
+   * @returns Le clientId, ou `undefined` si aucun Service Account n’est configuré.
+   */
+  public async getClientId(): Promise<string|undefined> {
+    await this.loadEffective();
+    return this.data.clientId || undefined;
+  }
+
+  /**
+   * Récupère l’identifiant du Service Account enregistré pour le profil,
+   * sans tenir compte de l’environnement ni de `--credentials-file`.
+   */
+  public async getStoredClientId(): Promise<string|undefined> {
+    await this.load();
+    return this.data.clientId || undefined;
+  }
+
+  /**
+   * Indique l’origine des credentials utilisés (environnement, `--credentials-file` ou stockage).
+   */
+  public async getCredentialSource(): Promise<CredentialSource> {
+    await this.loadEffective();
+    return this.source;
+  }
+
+  /**
+   * Indique si le stockage est verrouillé (secrets chiffrés avec une passphrase).
+   */
+  public async isLocked(): Promise<boolean> {
+    await this.load();
+    return this.keySource === 'passphrase';
+  }
+
+  /**
+   * Verrouille le stockage : les secrets sont rechiffrés avec une clé dérivée
+   * d’une nouvelle passphrase, et ne sont plus lisibles avec la seule clé machine.
+   * @throws AuthError si aucun Service Account n’est configuré.
+   */
+  public async lock(): Promise<void> {
+    await this.load();
+    if (!this.data.clientId) {
+      throw new AuthError(t('auth.error.noServiceAccount', { profile: this.profileName }));
+    }
+    if (this.keySource === 'passphrase') {
+      logger.info(t('auth.alreadyLocked'));
+      return;
+    }
+    await this.unlockSecrets();
+    this.keySource = 'passphrase';
+    this.salt      = KeystoreService.newSalt();
+    await KeystoreService.getPassphraseKey(this.salt, true);
+    await this.save();
+    logger.info(t('auth.locked'));
+  }
+
+  /**
+   * Déverrouille le stockage : les secrets sont rechiffrés avec la clé machine,
+   * la passphrase n’est plus demandée.
+   * @throws AuthError si aucun Service Account n’est configuré ou si la passphrase est incorrecte.
+   */
+  public async unlock(): Promise<void> {
+    await this.load();
+    if (!this.data.clientId) {
+      throw new AuthError(t('auth.error.noServiceAccount', { profile: this.profileName }));
+    }
+    if (this.keySource === 'machine') {
+      logger.info(t('auth.alreadyUnlocked'));
+      return;
+    }
+    await this.unlockSecrets();
+    this.keySource = 'machine';
+    this.salt      = undefined;
+    await this.save();
+    logger.info(t('auth.unlocked'));
+  }
+
   /**
    * Renvoie un `access_token` valide.
    * Si un token en cache est encore valide (5s de marge), il est réutilisé ;
    * sinon, on en obtient un nouveau via client_credentials.
-   * @throws si aucun Service Account n’est configuré.
+   * @param options.forceRefresh Ignore le token en cache (révoqué par le backend avant son expiration).
+   * @throws AuthError si aucun Service Account n’est configuré ou si le backend le refuse.
+   * @throws NetworkError si le backend est injoignable.
    */
-  public async getAccessToken(): Promise<string> {
-    await this.load();
+  public async getAccessToken(options: { forceRefresh?: boolean } = {}): Promise<string> {
+    await this.loadEffective();
+    await this.unlockSecrets();
+    if (!this.data.clientId || !this.data.clientSecret) {
+      throw new AuthError(t('auth.error.noServiceAccount', { profile: this.profileName }));
+    }
 
     const now = Date.now();
     if (
+      !options.forceRefresh &&
       this.data.accessToken &&
       this.data.expiresAt &&
       now < this.data.expiresAt - 5000
     ) {
-      console.log(`🔄 Token cache valide (expire à ${new Date(this.data.expiresAt).toISOString()})`);
+      logger.debug(t('auth.tokenCached', { expiresAt: new Date(this.data.expiresAt).toISOString() }));
       return this.data.accessToken;
     }
 
-    // Récupère endpoints & version depuis la config
-    const { endpoints, version } = await this.config.getConfig();
-    const tokenUrl = `${endpoints.backendUrl}/auth/services-accounts/token`;
+    // Mise en cache
+    const { accessToken, expiresAt } = await this.requestToken(this.data);
+    this.data.accessToken = accessToken;
+    this.data.expiresAt   = expiresAt;
+    await this.save();
+
+    logger.debug(t('auth.tokenStored', { seconds: Math.round((expiresAt - now) / 1000) }));
+    return accessToken;
+  }
 
-    console.log(`🔑 Demande d’un nouveau token à : ${tokenUrl}`);
-    const resp = await axios.post(
-      tokenUrl,
-      {
-        clientId:     this.data.clientId,
-        clientSecret: this.data.clientSecret,
+  /**
+   * Remplace le secret du Service Account enregistré (rotation) et purge le token cache.
+   * Le fichier est remplacé atomiquement et conserve son mode de chiffrement (clé machine
+   * ou passphrase) ; les secrets doivent déjà être déchiffrés (`getServiceAccount`), afin
+   * qu'aucune saisie de passphrase ne puisse échouer une fois le secret renouvelé par le backend.
+   *
+   * @param sa Nouveaux credentials.
+   */
+  public async storeRotatedServiceAccount(sa: ServiceAccount): Promise<void> {
+    if (!this.file) {
+      await this.load();
+    }
+    await this.unlockSecrets();
+    this.data = { clientId: sa.clientId, clientSecret: sa.clientSecret };
+    logger.addSecret(sa.clientSecret);
+    await this.save();
+  }
+
+  /**
+   * Demande un token au backend (client_credentials).
+   * @param sa Credentials à utiliser.
+   * @returns Le token et son expiration (timestamp en ms).
+   * @throws AuthError si le backend refuse les credentials ou renvoie une réponse invalide.
+   */
+  private async requestToken(sa: ServiceAccount): Promise<{ accessToken: string; expiresAt: number }> {
+    const now = Date.now();
+    // Récupère l’endpoint du backend depuis la config (pour le diagnostic)
+    const { endpoints } = await this.config.getConfig(this.profileName);
+    logger.debug(t('auth.requestingToken', { url: `${endpoints.backendUrl}${TOKEN_PATH}` }));
+    const resp = await BackendClient.request<unknown>({
+      method:  'POST',
+      path:    TOKEN_PATH,
+      data: {
+        clientId:     sa.clientId,
+        clientSecret: sa.clientSecret,
       },
-      {
-        headers: {
-          'x-frontend-version': version.frontend,
-        }
-      }
-    );
+      context: t('auth.error.tokenRequest'),
+      auth:    false,
+      profile: this.profileName,
+    });
 
-    // Debug : vérifier la forme de la réponse
-    console.log('🎁 Réponse token du backend :', resp.data);
+    // Debug : vérifier la forme de la réponse (token masqué par le logger)
+    logger.debug(t('auth.tokenResponse'), resp.data);
 
     const body = resp.data as any;
     const accessToken = body.access_token ?? body.token;
@@ -114,27 +474,23 @@ export class AuthService {
         : DEFAULT_TTL_SEC;
 
     if (!accessToken || typeof expiresIn !== 'number') {
-      throw new Error(`Réponse de token invalide : ${JSON.stringify(resp.data)}`);
+      throw new AuthError(t('auth.error.invalidToken', { body: JSON.stringify(resp.data) }));
     }
 
-    // Mise en cache
-    this.data.accessToken = accessToken;
-    this.data.expiresAt   = now + expiresIn * 1000;
-    await this.save();
-
-    console.log(`🔄 Token récupéré et mis en cache (valide ${expiresIn}s).`);
-    return accessToken;
+    logger.addSecret(accessToken);
+    return { accessToken, expiresAt: now + expiresIn * 1000 };
   }
 
   /**
    * Supprime totalement le Service Account et le token cache.
    */
   public async clear(): Promise<void> {
-    if (await fs.pathExists(STORAGE_FILE)) {
-      await fs.remove(STORAGE_FILE);
-      console.log('✅ Service Account supprimé.');
+    await this.load();
+    if (await fs.pathExists(this.file)) {
+      await fs.remove(this.file);
+      logger.info(t('auth.removed'));
     } else {
-      console.log('ℹ️  Aucun Service Account à supprimer.');
+      logger.info(t('auth.nothingToRemove'));
     }
   }
 }
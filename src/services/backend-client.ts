@@ -0,0 +1,148 @@
+/**
+ * @module services/backend-client
+ * Client HTTP commun des appels au backend :
+ * - ajoute le token du Service Account et le header `x-frontend-version`,
+ * - applique les options réseau communes (proxy, autorités de certification, délai),
+ * - vérifie au premier appel que la version du CLI est acceptée par le backend,
+ * - sur 401, renouvelle le token une seule fois et rejoue la requête,
+ * - sur 5xx ou erreur réseau, réessaie avec un délai exponentiel,
+ * - convertit les réponses en erreur en reprenant le message du backend.
+ */
+
+import axios from 'axios';
+import type { Readable } from 'stream';
+import { AuthService } from './auth-service.js';
+import { ConfigService } from './config-service.js';
+import { HttpService } from './http-service.js';
+import { CompatibilityService } from './compatibility-service.js';
+import { ProfileService } from './profile-service.js';
+import type { BackendRequest, BackendResponse } from '../types/backend.js';
+import { httpStatusError, toHttpError } from '../errors/app-wizard-errors.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+/** Nombre maximal de tentatives sur 5xx ou erreur réseau. */
+const MAX_ATTEMPTS  = 3;
+/** Délai avant la première nouvelle tentative, doublé à chaque essai. */
+const BASE_DELAY_MS = 500;
+
+export class BackendClient {
+  /**
+   * Envoie une requête au backend du profil.
+   * @param request Description de la requête.
+   * @returns La réponse (statut < 400).
+   * @throws ConfigError si les options réseau sont invalides (proxy, fichiers de certificats).
+   * @throws CompatibilityError si la version du CLI n'est plus prise en charge par le backend.
+   * @throws AuthError si le backend refuse le Service Account (401/403), même après renouvellement du token.
+   * @throws NetworkError si le backend est injoignable ou répond en erreur.
+   */
+  public static async request<T>(request: BackendRequest): Promise<BackendResponse<T>> {
+    const { endpoints, version, network } = await new ConfigService().getConfig(request.profile);
+    const url     = `${endpoints.backendUrl}${request.path}`;
+    const options = await HttpService.requestOptions(url, network);
+    const profile = request.profile ?? await ProfileService.getActiveProfileName();
+    // credentials hors stockage : aucune écriture sur le disque, pas même le cache de compatibilité
+    const persist = !(await AuthService.usesExternalCredentials());
+    if (request.versionCheck !== false) {
+      await CompatibilityService.ensureCompatible(profile, endpoints.backendUrl, version.frontend, persist);
+    }
+    const maxAttempts = request.retry === false ? 1 : MAX_ATTEMPTS;
+    const auth = request.auth === false ? undefined : new AuthService(request.profile);
+
+    let token     = auth ? await auth.getAccessToken() : undefined;
+    let refreshed = false;
+    let attempt   = 1;
+
+    for (;;) {
+      let resp;
+      try {
+        resp = await axios.request({
+          ...options,
+          method:       request.method ?? 'GET',
+          url,
+          data:         request.data,
+          headers: {
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            'x-frontend-version': version.frontend,
+          },
+          responseType:   request.responseType ?? 'json',
+          validateStatus: () => true,
+        });
+      } catch (error) {
+        // erreur réseau : pas de réponse du backend
+        if (attempt < maxAttempts) {
+          await BackendClient.backoff(attempt++, error instanceof Error ? error.message : String(error));
+          continue;
+        }
+        throw toHttpError(error, request.context);
+      }
+
+      logger.debug(`${request.method ?? 'GET'} ${url} → ${resp.status}`);
+
+      if (resp.status === 401 && auth && !refreshed) {
+        // token révoqué avant son expiration : un seul renouvellement
+        await BackendClient.readBody(resp.data);
+        logger.debug(t('http.refreshingToken'));
+        refreshed = true;
+        token = await auth.getAccessToken({ forceRefresh: true });
+        continue;
+      }
+      if (resp.status === 426) {
+        // version du CLI refusée (Upgrade Required)
+        await BackendClient.readBody(resp.data);
+        const minVersion = resp.headers['x-min-frontend-version'];
+        throw await CompatibilityService.rejected(
+          profile,
+          endpoints.backendUrl,
+          version.frontend,
+          typeof minVersion === 'string' ? minVersion : undefined,
+          persist
+        );
+      }
+      if (resp.status >= 500 && attempt < maxAttempts) {
+        await BackendClient.readBody(resp.data);
+        await BackendClient.backoff(attempt++, `HTTP ${resp.status}`);
+        continue;
+      }
+      if (resp.status >= 400) {
+        const error = httpStatusError(resp.status, await BackendClient.readBody(resp.data), request.context);
+        throw resp.status === 404 && request.notFoundError
+          ? new request.notFoundError(error.message)
+          : error;
+      }
+      return { status: resp.status, headers: resp.headers as Record<string, unknown>, data: resp.data as T };
+    }
+  }
+
+  /**
+   * Attend avant une nouvelle tentative (500 ms, puis 1 s, 2 s…).
+   * @param attempt Numéro de la tentative échouée.
+   * @param reason  Cause de l'échec, affichée à l'utilisateur.
+   */
+  private static async backoff(attempt: number, reason: string): Promise<void> {
+    const delayMs = BASE_DELAY_MS * 2 ** (attempt - 1);
+    logger.warn(t('http.retrying', { reason, seconds: delayMs / 1000, attempt: attempt + 1, max: MAX_ATTEMPTS }));
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+
+  /**
+   * Lit le corps d'une réponse en erreur ; un flux est consommé puis décodé (JSON si possible).
+   * @param data Corps de la réponse axios.
+   */
+  private static async readBody(data: unknown): Promise<unknown> {
+    const stream = data as Readable | undefined;
+    if (!stream || typeof stream.pipe !== 'function') {
+      return data;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+}
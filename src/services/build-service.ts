@@ -1,12 +1,19 @@
-import { execSync } from 'child_process';
 import chalk from 'chalk';
 import prompts from 'prompts';
 import { TemplateConfigService } from './template-config-service.js';
 import { DockerComposeService } from './docker-compose-service.js';
+import type { CliConfig } from '../types/cli-config.js';
+import { resolveOption } from '../utils/prompt-utils.js';
+import { ConfigError, DockerError } from '../errors/app-wizard-errors.js';
+import { runCommand } from '../utils/operation-utils.js';
+import { ProjectService } from './project-service.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
 
 export class BuildService {
   /**
    * Exécute le prébuild puis le build des services en mode développement.
+   * @throws DockerError si le prébuild ou le build échoue.
    */
   static async buildDev(): Promise<void> {
     // Récupération de la configuration du template
@@ -14,51 +21,61 @@ export class BuildService {
 
     // Prébuild en mode dev (si défini)
     if (templateConfig.prebuildDevCommand) {
-      console.log(chalk.blue(`Exécution du prébuild (dev) : ${templateConfig.prebuildDevCommand}`));
+      logger.info(chalk.blue(t('buildService.prebuild', { env: 'dev', command: templateConfig.prebuildDevCommand })));
       try {
-        execSync(templateConfig.prebuildDevCommand, { stdio: 'inherit' });
-        console.log(chalk.green('Prébuild dev terminé avec succès.'));
+        runCommand(templateConfig.prebuildDevCommand, { cwd: ProjectService.getProjectRoot() });
+        logger.info(chalk.green(t('buildService.prebuildDone', { env: 'dev' })));
       } catch (error) {
-        console.error(chalk.red('Erreur lors du prébuild dev :'), error);
-        process.exit(1);
+        throw new DockerError(t('buildService.error.prebuild', { env: 'dev' }), error);
       }
     }
 
     // Build en mode dev
-    console.log(chalk.blue('Lancement du build en mode développement...'));
+    logger.info(chalk.blue(t('build.startDev')));
     try {
-      execSync(templateConfig.buildDevCommand, { stdio: 'inherit' });
-      console.log(chalk.green('Build en mode dev terminé avec succès.'));
+      runCommand(templateConfig.buildDevCommand, { cwd: ProjectService.getProjectRoot() });
+      logger.info(chalk.green(t('buildService.buildDone', { env: 'dev' })));
     } catch (error) {
-      console.error(chalk.red('Erreur lors du build en mode dev :'), error);
-      process.exit(1);
+      throw new DockerError(t('buildService.error.build', { env: 'dev' }), error);
     }
   }
 
   /**
    * Exécute le prébuild puis le build des services en mode production.
+   *
+   * @param cliConfig Configuration CLI (registry d'artefacts).
+   * @param options.assumeYes Corrige les noms d'images sans demander confirmation.
+   * @throws ConfigError si aucun registry d'artefacts n'est configuré.
+   * @throws DockerError si le prébuild ou le build échoue.
    */
-  static async buildProd(cliConfig: any): Promise<void> {
+  static async buildProd(cliConfig: CliConfig, options: { assumeYes?: boolean } = {}): Promise<void> {
+    const artifactRegistry = cliConfig.provider?.artifactRegistry;
+    if (!artifactRegistry) {
+      throw new ConfigError(t('buildService.error.noArtifactRegistry'));
+    }
+
     // Vérification des noms d'images dans docker-compose.prod.yml
-    const discrepancies = await DockerComposeService.checkImageNames(
-      'prod',
-      cliConfig.provider.artifactRegistry
-    );
+    const discrepancies = await DockerComposeService.checkImageNames('prod', artifactRegistry);
     if (discrepancies.length > 0) {
-      console.log(chalk.yellow("Des écarts dans les noms d'images ont été détectés :"));
+      logger.info(chalk.yellow(t('buildService.imageMismatch')));
       discrepancies.forEach(d =>
-        console.log(
-          `- Service ${d.serviceName}: actuel = "${d.currentImage || 'non défini'}", attendu = "${d.expectedImage}"`
-        )
+        logger.info(t('buildService.imageDiscrepancy', {
+          service:  d.serviceName,
+          current:  d.currentImage || t('buildService.notDefined'),
+          expected: d.expectedImage,
+        }))
       );
-      const response = await prompts({
-        type: 'confirm',
-        name: 'fix',
-        message: 'Voulez-vous corriger automatiquement ces noms d\'images selon les standards ?',
-        initial: true
+      const fix = await resolveOption(options.assumeYes || undefined, '--yes', async () => {
+        const response = await prompts({
+          type: 'confirm',
+          name: 'fix',
+          message: t('buildService.prompt.fixImages'),
+          initial: true
+        });
+        return response.fix as boolean | undefined;
       });
-      if (response.fix) {
-        await DockerComposeService.correctImageNames('prod', cliConfig.provider.artifactRegistry);
+      if (fix) {
+        await DockerComposeService.correctImageNames('prod', artifactRegistry);
       }
     }
 
@@ -67,24 +84,22 @@ export class BuildService {
 
     // Prébuild en mode prod (si défini)
     if (templateConfig.prebuildProdCommand) {
-      console.log(chalk.blue(`Exécution du prébuild (prod) : ${templateConfig.prebuildProdCommand}`));
+      logger.info(chalk.blue(t('buildService.prebuild', { env: 'prod', command: templateConfig.prebuildProdCommand })));
       try {
-        execSync(templateConfig.prebuildProdCommand, { stdio: 'inherit' });
-        console.log(chalk.green('Prébuild prod terminé avec succès.'));
+        runCommand(templateConfig.prebuildProdCommand, { cwd: ProjectService.getProjectRoot() });
+        logger.info(chalk.green(t('buildService.prebuildDone', { env: 'prod' })));
       } catch (error) {
-        console.error(chalk.red('Erreur lors du prébuild prod :'), error);
-        process.exit(1);
+        throw new DockerError(t('buildService.error.prebuild', { env: 'prod' }), error);
       }
     }
 
     // Build en mode prod
-    console.log(chalk.blue('Lancement du build en mode production...'));
+    logger.info(chalk.blue(t('build.startProd')));
     try {
-      execSync(templateConfig.buildProdCommand, { stdio: 'inherit' });
-      console.log(chalk.green('Build en mode prod terminé avec succès.'));
+      runCommand(templateConfig.buildProdCommand, { cwd: ProjectService.getProjectRoot() });
+      logger.info(chalk.green(t('buildService.buildDone', { env: 'prod' })));
     } catch (error) {
-      console.error(chalk.red('Erreur lors du build en mode prod :'), error);
-      process.exit(1);
+      throw new DockerError(t('buildService.error.build', { env: 'prod' }), error);
     }
   }
 }
\ No newline at end of file
@@ -1,45 +1,55 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { execSync } from 'child_process';
 import chalk from 'chalk';
+import { DockerError } from '../errors/app-wizard-errors.js';
+import { emptyDirectory, isDryRun, removePath, runCommand } from '../utils/operation-utils.js';
+import { logger } from './logger-service.js';
+import { ProjectService } from './project-service.js';
+import { t } from '../i18n/index.js';
 
 export class CleanService {
   /**
-   * Dossier de déploiement en fonction de NODE_ENV.
+   * Dossier de déploiement en fonction de NODE_ENV, à la racine du projet.
    */
-  static DEPLOYMENTS_DIR: string =
-    process.env.NODE_ENV === 'production'
-      ? path.resolve(process.cwd(), './prod-deployments')
-      : path.resolve(process.cwd(), './dev-deployments');
+  static get DEPLOYMENTS_DIR(): string {
+    return process.env.NODE_ENV === 'production'
+      ? path.resolve(ProjectService.getProjectRoot(), './prod-deployments')
+      : path.resolve(ProjectService.getProjectRoot(), './dev-deployments');
+  }
 
   /**
    * Liste des dossiers à nettoyer (chemins absolus).
    */
-  static directoriesToClean: string[] = [
-    path.join(CleanService.DEPLOYMENTS_DIR, 'vault'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'database', 'data'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'migrations'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'web3'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'mailhog'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'logs'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'docs'),
-    // Nettoyage des types générés dans les containers
-    path.resolve(process.cwd(), 'containers', 'backend', 'src', 'domains', 'web3', 'modules', 'dynamic', 'models', 'types'),
-    path.resolve(process.cwd(), 'containers', 'containers', 'blockchain', 'types'),
-    path.resolve(process.cwd(), 'containers', 'frontend', 'src', 'app', 'core', 'web3', 'dynamic-types'),
-  ];
+  static get directoriesToClean(): string[] {
+    const root = ProjectService.getProjectRoot();
+    return [
+      path.join(CleanService.DEPLOYMENTS_DIR, 'vault'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'database', 'data'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'migrations'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'web3'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'mailhog'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'logs'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'docs'),
+      // Nettoyage des types générés dans les containers
+      path.resolve(root, 'containers', 'backend', 'src', 'domains', 'web3', 'modules', 'dynamic', 'models', 'types'),
+      path.resolve(root, 'containers', 'containers', 'blockchain', 'types'),
+      path.resolve(root, 'containers', 'frontend', 'src', 'app', 'core', 'web3', 'dynamic-types'),
+    ];
+  }
 
   /**
    * Liste des fichiers de signalisation à supprimer.
    */
-  static signalFilesToRemove: string[] = [
-    path.join(CleanService.DEPLOYMENTS_DIR, 'reset_done'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'server-started'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'initialized'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'frontend', 'initialized'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'database', 'initialized'),
-    path.join(CleanService.DEPLOYMENTS_DIR, 'vault', 'initialized'),
-  ];
+  static get signalFilesToRemove(): string[] {
+    return [
+      path.join(CleanService.DEPLOYMENTS_DIR, 'reset_done'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'server-started'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'backend', 'initialized'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'frontend', 'initialized'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'database', 'initialized'),
+      path.join(CleanService.DEPLOYMENTS_DIR, 'vault', 'initialized'),
+    ];
+  }
 
   /**
    * Vide le contenu d'un dossier sans supprimer le dossier lui-même.
@@ -47,10 +57,12 @@ export class CleanService {
    */
   static async cleanDirectoryContents(dirPath: string): Promise<void> {
     if (await fs.pathExists(dirPath)) {
-      await fs.emptyDir(dirPath);
-      console.log(chalk.green(`Nettoyé: ${dirPath}`));
+      await emptyDirectory(dirPath);
+      if (!isDryRun()) {
+        logger.info(chalk.green(t('cleanService.cleaned', { path: dirPath })));
+      }
     } else {
-      console.log(chalk.yellow(`Dossier non trouvé: ${dirPath}`));
+      logger.info(chalk.yellow(t('cleanService.dirNotFound', { path: dirPath })));
     }
   }
 
@@ -60,10 +72,12 @@ export class CleanService {
    */
   static async removeFile(filePath: string): Promise<void> {
     if (await fs.pathExists(filePath)) {
-      await fs.remove(filePath);
-      console.log(chalk.green(`Fichier supprimé: ${filePath}`));
+      await removePath(filePath);
+      if (!isDryRun()) {
+        logger.info(chalk.green(t('cleanService.fileRemoved', { path: filePath })));
+      }
     } else {
-      console.log(chalk.yellow(`Fichier non trouvé: ${filePath}`));
+      logger.info(chalk.yellow(t('cleanService.fileNotFound', { path: filePath })));
     }
   }
 
@@ -71,11 +85,11 @@ export class CleanService {
    * Effectue le nettoyage global des dossiers et des fichiers de signalisation.
    */
   static async performGlobalClean(): Promise<void> {
-    console.log(chalk.blue('Nettoyage des dossiers...'));
+    logger.info(chalk.blue(t('cleanService.cleaningDirs')));
     for (const dir of CleanService.directoriesToClean) {
       await CleanService.cleanDirectoryContents(dir);
     }
-    console.log(chalk.blue('Suppression des fichiers de signalisation...'));
+    logger.info(chalk.blue(t('cleanService.removingSignals')));
     for (const file of CleanService.signalFilesToRemove) {
       await CleanService.removeFile(file);
     }
@@ -83,14 +97,19 @@ export class CleanService {
 
   /**
    * Exécute le nettoyage forcé Docker via des commandes système.
+   * @throws DockerError si l'une des commandes Docker échoue.
    */
   static forcedDockerClean(): void {
-    console.log(chalk.blue('------------------------------------------------------'));
-    console.log(chalk.blue('Exécution du nettoyage forcé Docker...'));
-    console.log(chalk.blue('------------------------------------------------------'));
-    execSync('docker system prune --all --force', { stdio: 'inherit' });
-    execSync('docker builder prune --all --force', { stdio: 'inherit' });
-    console.log(chalk.green('Nettoyage forcé Docker terminé.'));
+    logger.info(chalk.blue('------------------------------------------------------'));
+    logger.info(chalk.blue(t('cleanService.dockerRunning')));
+    logger.info(chalk.blue('------------------------------------------------------'));
+    try {
+      runCommand('docker system prune --all --force');
+      runCommand('docker builder prune --all --force');
+    } catch (error) {
+      throw new DockerError(t('cleanService.error.docker'), error);
+    }
+    logger.info(chalk.green(t('cleanService.dockerDone')));
   }
 
   /**
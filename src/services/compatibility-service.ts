@@ -0,0 +1,185 @@
+/**
+ * @module services/compatibility-service
+ * Vérifie que la version du CLI (header `x-frontend-version`) est acceptée par le backend :
+ * `GET /version` indique la version minimale et la dernière version publiée.
+ * Le résultat est mis en cache par profil (`~/.appwizard/cache/compatibility.json`) pendant 24 h,
+ * sauf avec des credentials de l'environnement ou de `--credentials-file` : il n'est alors
+ * conservé que pour l'invocation, rien n'est écrit sur le disque.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import { BackendClient } from './backend-client.js';
+import { KeystoreService, STORAGE_DIR } from './keystore-service.js';
+import type { CompatibilityCheck, CompatibilityStatus, VersionInfo } from '../types/backend.js';
+import { AppWizardError, CompatibilityError } from '../errors/app-wizard-errors.js';
+import { CLI_PACKAGE, compareVersions } from '../utils/version-utils.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+const CACHE_FILE   = path.join(STORAGE_DIR, 'cache', 'compatibility.json');
+/** Durée de validité d'une vérification. */
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Backend sans endpoint `/version` (404). */
+class VersionEndpointNotFound extends AppWizardError {}
+
+export class CompatibilityService {
+  /** Profils vérifiés pendant l'exécution : une seule vérification par invocation. */
+  private static checkedProfiles = new Set<string>();
+
+  /**
+   * Vérifie la compatibilité du CLI avec le backend d'un profil, depuis le cache
+   * ou via `GET /version`. Avertit si une version plus récente existe.
+   *
+   * @param profile         Nom du profil.
+   * @param backendUrl      Backend du profil.
+   * @param frontendVersion Version envoyée dans `x-frontend-version`.
+   * @param persist         Enregistre le résultat dans le cache (credentials stockés uniquement).
+   * @throws CompatibilityError si la version du CLI n'est plus prise en charge.
+   */
+  public static async ensureCompatible(
+    profile: string,
+    backendUrl: string,
+    frontendVersion: string,
+    persist = true
+  ): Promise<void> {
+    if (CompatibilityService.checkedProfiles.has(profile)) {
+      return;
+    }
+
+    let check = await CompatibilityService.readCache(profile);
+    if (!check || check.backendUrl !== backendUrl || check.frontendVersion !== frontendVersion
+      || Date.now() - Date.parse(check.checkedAt) > CACHE_TTL_MS) {
+      const info = await CompatibilityService.fetchVersionInfo(profile);
+      if (!info) {
+        // vérification impossible (backend injoignable…) : la requête principale remontera l'erreur
+        return;
+      }
+      check = CompatibilityService.evaluate(info === 'unknown' ? {} : info, backendUrl, frontendVersion);
+      if (persist) {
+        await CompatibilityService.writeCache(profile, check);
+      }
+    }
+    CompatibilityService.checkedProfiles.add(profile);
+
+    if (check.status === 'unsupported') {
+      throw CompatibilityService.upgradeError(frontendVersion, check.minFrontendVersion);
+    }
+    if (check.status === 'outdated') {
+      logger.warn(t('compatibility.outdated', {
+        version: frontendVersion,
+        latest:  check.latestFrontendVersion!,
+        command: `npm install -g ${CLI_PACKAGE}`,
+      }));
+    }
+  }
+
+  /**
+   * Enregistre le refus de la version du CLI par le backend (réponse 426)
+   * et retourne l'erreur à lever.
+   *
+   * @param profile         Nom du profil.
+   * @param backendUrl      Backend du profil.
+   * @param frontendVersion Version refusée.
+   * @param minVersion      Version minimale annoncée par le backend, si connue.
+   * @param persist         Enregistre le refus dans le cache (credentials stockés uniquement).
+   */
+  public static async rejected(
+    profile: string,
+    backendUrl: string,
+    frontendVersion: string,
+    minVersion?: string,
+    persist = true
+  ): Promise<CompatibilityError> {
+    if (persist) {
+      await CompatibilityService.writeCache(profile, {
+        status:          'unsupported',
+        checkedAt:       new Date().toISOString(),
+        backendUrl,
+        frontendVersion,
+        ...(minVersion ? { minFrontendVersion: minVersion } : {}),
+      });
+    }
+    return CompatibilityService.upgradeError(frontendVersion, minVersion);
+  }
+
+  /**
+   * Compare la version du CLI à celles annoncées par le backend.
+   */
+  private static evaluate(info: VersionInfo, backendUrl: string, frontendVersion: string): CompatibilityCheck {
+    let status: CompatibilityStatus = 'unknown';
+    if (info.minFrontendVersion && compareVersions(frontendVersion, info.minFrontendVersion) < 0) {
+      status = 'unsupported';
+    } else if (info.latestFrontendVersion && compareVersions(frontendVersion, info.latestFrontendVersion) < 0) {
+      status = 'outdated';
+    } else if (info.minFrontendVersion || info.latestFrontendVersion) {
+      status = 'compatible';
+    }
+    return { ...info, status, checkedAt: new Date().toISOString(), backendUrl, frontendVersion };
+  }
+
+  /**
+   * Interroge `GET /version`.
+   * @returns Les versions annoncées, `'unknown'` si le backend n'expose pas l'endpoint,
+   *          ou `undefined` si la vérification a échoué (elle sera refaite à la prochaine invocation).
+   */
+  private static async fetchVersionInfo(profile: string): Promise<VersionInfo | 'unknown' | undefined> {
+    try {
+      const { data } = await BackendClient.request<VersionInfo>({
+        path:          '/version',
+        context:       t('compatibility.error.check'),
+        auth:          false,
+        profile,
+        versionCheck:  false,
+        retry:         false,
+        notFoundError: VersionEndpointNotFound,
+      });
+      const info: VersionInfo = {};
+      for (const key of ['backendVersion', 'minFrontendVersion', 'latestFrontendVersion'] as const) {
+        const value = (data as Record<string, unknown> | undefined)?.[key];
+        if (typeof value === 'string' && value) {
+          info[key] = value;
+        }
+      }
+      return info;
+    } catch (error) {
+      logger.debug('Version check failed:', error);
+      return error instanceof VersionEndpointNotFound ? 'unknown' : undefined;
+    }
+  }
+
+  /** Erreur invitant à mettre à jour le CLI. */
+  private static upgradeError(version: string, minVersion: string | undefined): CompatibilityError {
+    return new CompatibilityError(t('compatibility.error.unsupported', {
+      version,
+      min:     minVersion ?? '?',
+      command: `npm install -g ${CLI_PACKAGE}`,
+    }));
+  }
+
+  /** Lit la vérification en cache d'un profil ; un cache illisible est ignoré. */
+  private static async readCache(profile: string): Promise<CompatibilityCheck | undefined> {
+    try {
+      const cache = await fs.readJSON(CACHE_FILE) as Record<string, CompatibilityCheck>;
+      return cache?.[profile];
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Enregistre la vérification d'un profil. */
+  private static async writeCache(profile: string, check: CompatibilityCheck): Promise<void> {
+    try {
+      let cache: Record<string, CompatibilityCheck> = {};
+      if (await fs.pathExists(CACHE_FILE)) {
+        cache = await fs.readJSON(CACHE_FILE).catch(() => ({}));
+      }
+      cache[profile] = check;
+      await KeystoreService.ensureStorageDir();
+      await fs.outputJSON(CACHE_FILE, cache, { spaces: 2 });
+    } catch (error) {
+      logger.debug('Compatibility cache not saved:', error);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * @module services/completion-service
+ * Complétion shell : génère les scripts bash / zsh / fish et calcule les suggestions
+ * à partir de l'arbre des commandes commander.
+ * Les scripts délèguent au CLI (`appwizard __complete -- <mots>`), afin que les
+ * suggestions suivent toujours les commandes et options réellement déclarées.
+ */
+
+import type { Command, Option } from 'commander';
+import { ServiceConfigManager } from './service-config-manager.js';
+import { FetchTemplateService } from './fetch-template-service.js';
+import { ProfileService } from './profile-service.js';
+import type { Environment } from './docker-compose-service.js';
+
+/**
+ * Shells pour lesquels un script de complétion peut être généré.
+ */
+export type CompletionShell = 'bash' | 'zsh' | 'fish';
+
+export const COMPLETION_SHELLS: CompletionShell[] = ['bash', 'zsh', 'fish'];
+
+/**
+ * Valeurs dynamiques, indexées par nom d'argument (`[service]`) ou d'option (`--template <id>`).
+ * Les valeurs statiques sont lues depuis les `choices` déclarés sur la commande.
+ */
+const DYNAMIC_VALUES: Record<string, () => Promise<string[]>> = {
+  service:  () => CompletionService.getServiceNames(),
+  template: () => CompletionService.getTemplateIds(),
+  profile:  () => ProfileService.listProfiles().catch(() => []),
+};
+
+export class CompletionService {
+  /**
+   * Génère le script de complétion d'un shell.
+   *
+   * @param program Commande racine du CLI.
+   * @param shell   Shell cible.
+   */
+  static generateScript(program: Command, shell: CompletionShell): string {
+    const name = program.name();
+    const fn   = `_${name.replace(/[^\w]/g, '_')}_complete`;
+
+    switch (shell) {
+      case 'bash':
+        return [
+          `# Complétion bash pour ${name} (générée par \`${name} completion bash\`)`,
+          `${fn}() {`,
+          `  local IFS=$'\\n'`,
+          `  COMPREPLY=($(${name} __complete -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))`,
+          `}`,
+          `complete -o default -F ${fn} ${name}`,
+          '',
+        ].join('\n');
+
+      case 'zsh':
+        return [
+          `#compdef ${name}`,
+          `# Complétion zsh pour ${name} (générée par \`${name} completion zsh\`)`,
+          `${fn}() {`,
+          `  local -a completions`,
+          `  completions=(\${(f)"$(${name} __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)"})`,
+          `  if (( \${#completions} )); then`,
+          `    compadd -a completions`,
+          `  else`,
+          `    _files`,
+          `  fi`,
+          `}`,
+          `compdef ${fn} ${name}`,
+          '',
+        ].join('\n');
+
+      case 'fish':
+        return [
+          `# Complétion fish pour ${name} (générée par \`${name} completion fish\`)`,
+          `function ${fn}`,
+          `    set -l tokens (commandline -opc)`,
+          `    ${name} __complete -- $tokens[2..-1] (commandline -ct) 2>/dev/null`,
+          `end`,
+          `complete -c ${name} -f -a '(${fn})'`,
+          '',
+        ].join('\n');
+    }
+  }
+
+  /**
+   * Calcule les suggestions pour une ligne de commande partielle.
+   *
+   * @param program Commande racine du CLI.
+   * @param words   Mots saisis après le nom du programme ; le dernier est le mot en cours.
+   * @returns Les suggestions commençant par le mot en cours.
+   */
+  static async complete(program: Command, words: string[]): Promise<string[]> {
+    const current = words.length > 0 ? words[words.length - 1] : '';
+    const chain: Command[] = [program];
+    let positional = 0;
+    let pendingOption: Option | undefined;
+
+    for (const word of words.slice(0, -1)) {
+      if (pendingOption) {
+        pendingOption = undefined;
+        continue;
+      }
+      if (word.startsWith('-')) {
+        const option = CompletionService.findOption(chain, word);
+        if (option && (option.required || option.optional) && !word.includes('=')) {
+          pendingOption = option;
+        }
+        continue;
+      }
+      const command = chain[chain.length - 1];
+      const sub = positional === 0
+        ? command.commands.find(c => c.name() === word || c.aliases().includes(word))
+        : undefined;
+      if (sub) {
+        chain.push(sub);
+      } else {
+        positional++;
+      }
+    }
+
+    const command = chain[chain.length - 1];
+    let candidates: string[] = [];
+
+    if (pendingOption) {
+      candidates = await CompletionService.valuesFor(pendingOption.attributeName(), pendingOption.argChoices);
+    } else if (current.startsWith('-')) {
+      for (const cmd of chain) {
+        for (const option of cmd.createHelp().visibleOptions(cmd)) {
+          if (option.long) candidates.push(option.long);
+        }
+      }
+    } else {
+      if (positional === 0) {
+        candidates.push(...command.createHelp().visibleCommands(command).map(c => c.name()));
+      }
+      const args = command.registeredArguments;
+      const last = args[args.length - 1];
+      const arg  = args[positional] ?? (last?.variadic ? last : undefined);
+      if (arg) {
+        candidates.push(...await CompletionService.valuesFor(arg.name(), arg.argChoices));
+      }
+    }
+
+    return [...new Set(candidates)].filter(candidate => candidate.startsWith(current));
+  }
+
+  /**
+   * Noms des services Docker Compose du projet (dev et prod confondus).
+   * Hors d'un projet, ou sans docker-compose, la liste est vide.
+   */
+  static async getServiceNames(): Promise<string[]> {
+    const names = new Set<string>();
+    for (const env of ['dev', 'prod'] as Environment[]) {
+      try {
+        (await ServiceConfigManager.listServiceNames(env)).forEach(name => names.add(name));
+      } catch {
+        // docker-compose absent pour cet environnement
+      }
+    }
+    return [...names];
+  }
+
+  /**
+   * Identifiants des templates disponibles, depuis la liste en cache si elle est récente.
+   */
+  static async getTemplateIds(): Promise<string[]> {
+    try {
+      return (await FetchTemplateService.listTemplatesCached()).map(tpl => tpl.id);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Recherche une option (`--env`, `--env=dev`, `-y`) dans la commande courante puis ses parents.
+   */
+  private static findOption(chain: Command[], word: string): Option | undefined {
+    const flag = word.split('=')[0];
+    for (const cmd of [...chain].reverse()) {
+      const option = cmd.options.find(o => o.long === flag || o.short === flag);
+      if (option) return option;
+    }
+    return undefined;
+  }
+
+  /**
+   * Valeurs proposées pour un argument ou une option : ses `choices`, sinon ses valeurs dynamiques.
+   */
+  private static async valuesFor(name: string, choices: string[] | undefined): Promise<string[]> {
+    if (choices) {
+      return choices;
+    }
+    const provider = DYNAMIC_VALUES[name];
+    return provider ? provider() : [];
+  }
+}
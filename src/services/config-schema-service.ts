@@ -0,0 +1,204 @@
+/**
+ * @module services/config-schema-service
+ * Schéma versionné des fichiers de configuration CLI (`~/.appwizard/config.json`, `.appwizard`) :
+ * validation à l'exécution et migration automatique des fichiers d'anciennes versions.
+ */
+
+import type { CliConfigFile } from '../types/cli-config.js';
+import { ConfigError } from '../errors/app-wizard-errors.js';
+import { LOCALES, t } from '../i18n/index.js';
+
+/** Version courante du format des fichiers de configuration. */
+export const CONFIG_SCHEMA_VERSION = 2;
+
+/**
+ * Nœud du schéma : objet (champs connus), chaîne (URL, entier ou valeurs imposées) ou nombre.
+ * `variants` choisit le schéma d'un objet selon la valeur d'un de ses champs.
+ */
+type SchemaNode =
+  | { type: 'object'; fields: Record<string, SchemaNode>; required?: string[] }
+  | { type: 'variants'; discriminator: string; variants: Record<string, SchemaNode> }
+  | { type: 'string'; url?: boolean; integer?: boolean; values?: readonly string[] }
+  | { type: 'number' };
+
+const URL_FIELD: SchemaNode = { type: 'string', url: true };
+const STRING: SchemaNode    = { type: 'string' };
+
+const SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    schemaVersion: { type: 'number' },
+    endpoints: { type: 'object', fields: { backendUrl: URL_FIELD, frontendUrl: URL_FIELD } },
+    version:   { type: 'object', fields: { backend: STRING, frontend: STRING } },
+    lang:      { type: 'string', values: LOCALES },
+    provider: {
+      type: 'object',
+      fields: {
+        cloud:            { type: 'string', values: ['google', 'aws'] },
+        artifactRegistry: STRING,
+        sharedVolume: {
+          type: 'variants',
+          discriminator: 'provider',
+          variants: {
+            google: {
+              type: 'object',
+              fields: { provider: STRING, filestoreIp: STRING, exportPath: STRING, mountOptions: STRING },
+              required: ['filestoreIp', 'exportPath', 'mountOptions'],
+            },
+            aws: {
+              type: 'object',
+              fields: { provider: STRING, efsId: STRING, efsDns: STRING, exportPath: STRING, mountOptions: STRING },
+              required: ['efsId', 'efsDns', 'mountOptions'],
+            },
+          },
+        },
+      },
+    },
+    network: {
+      type: 'object',
+      fields: {
+        proxy:      URL_FIELD,
+        caFile:     STRING,
+        clientCert: STRING,
+        clientKey:  STRING,
+        timeout:    { type: 'string', integer: true },
+      },
+    },
+    templates: {
+      type: 'object',
+      fields: { publicKey: STRING },
+    },
+    template: {
+      type: 'object',
+      fields:   { id: STRING, version: STRING, sha256: STRING, createdAt: STRING },
+      required: ['id', 'version'],
+    },
+  },
+};
+
+/**
+ * Migrations, indexées par la version de départ : chacune amène le fichier à la version suivante.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, any>) => void> = {
+  // v1 → v2 : l'éditeur interactif recopiait la section `version` par défaut dans chaque fichier,
+  // ce qui la figeait ; seules les valeurs personnalisées sont conservées.
+  1: data => {
+    for (const field of ['backend', 'frontend']) {
+      if (data.version?.[field] === '1.0.0') {
+        delete data.version[field];
+      }
+    }
+    if (data.version && Object.keys(data.version).length === 0) {
+      delete data.version;
+    }
+  },
+};
+
+export class ConfigSchemaService {
+  /**
+   * Migre puis valide le contenu d'un fichier de configuration.
+   *
+   * @param raw  Contenu JSON du fichier.
+   * @param file Chemin du fichier (messages d'erreur).
+   * @returns Le contenu validé, et la version d'origine s'il a été migré.
+   * @throws ConfigError si le fichier provient d'une version plus récente du CLI ou ne respecte pas le schéma.
+   */
+  public static parse(raw: unknown, file: string): { config: CliConfigFile; migratedFrom?: number } {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ConfigError(t('configSchema.error.invalid', { file, issues: t('configSchema.issue.type', { path: '/', expected: 'object' }) }));
+    }
+    const data = structuredClone(raw) as Record<string, any>;
+    const from = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+    if (from > CONFIG_SCHEMA_VERSION) {
+      throw new ConfigError(t('configSchema.error.newer', { file, version: from, supported: CONFIG_SCHEMA_VERSION }));
+    }
+    for (let version = from; version < CONFIG_SCHEMA_VERSION; version++) {
+      MIGRATIONS[version]?.(data);
+    }
+    delete data.schemaVersion;
+
+    const issues = ConfigSchemaService.validate(data);
+    if (issues.length > 0) {
+      throw new ConfigError(t('configSchema.error.invalid', { file, issues: issues.map(issue => `\n   - ${issue}`).join('') }));
+    }
+    const config: CliConfigFile = { schemaVersion: CONFIG_SCHEMA_VERSION, ...data };
+    return { config, ...(from < CONFIG_SCHEMA_VERSION ? { migratedFrom: from } : {}) };
+  }
+
+  /**
+   * Vérifie une valeur par rapport au schéma.
+   * @param value Valeur à vérifier.
+   * @param node  Nœud du schéma (schéma complet par défaut).
+   * @param path  Chemin pointé de la valeur (messages).
+   * @returns La liste des problèmes détectés (vide si la valeur est valide).
+   */
+  public static validate(value: unknown, node: SchemaNode = SCHEMA, path: string = ''): string[] {
+    const at = path || '/';
+    switch (node.type) {
+      case 'number':
+        return typeof value === 'number' ? [] : [t('configSchema.issue.type', { path: at, expected: 'number' })];
+
+      case 'string':
+        if (typeof value !== 'string' || value === '') {
+          return [t('configSchema.issue.type', { path: at, expected: 'string' })];
+        }
+        if (node.values && !node.values.includes(value)) {
+          return [t('configSchema.issue.values', { path: at, value, values: node.values.join(', ') })];
+        }
+        if (node.url && !/^https?:\/\/[^/\s]+/.test(value)) {
+          return [t('configSchema.issue.url', { path: at, value })];
+        }
+        if (node.integer && !/^[1-9]\d*$/.test(value)) {
+          return [t('configSchema.issue.integer', { path: at, value })];
+        }
+        return [];
+
+      case 'variants': {
+        const kind = (value as Record<string, unknown> | null)?.[node.discriminator];
+        const variant = typeof kind === 'string' ? node.variants[kind] : undefined;
+        if (!variant) {
+          return [t('configSchema.issue.values', {
+            path:   `${path}.${node.discriminator}`,
+            value:  String(kind),
+            values: Object.keys(node.variants).join(', '),
+          })];
+        }
+        return ConfigSchemaService.validate(value, variant, path);
+      }
+
+      case 'object': {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          return [t('configSchema.issue.type', { path: at, expected: 'object' })];
+        }
+        const record = value as Record<string, unknown>;
+        const issues: string[] = [];
+        for (const [key, child] of Object.entries(record)) {
+          const childPath = path ? `${path}.${key}` : key;
+          const childNode = node.fields[key];
+          if (!childNode) {
+            issues.push(t('configSchema.issue.unknownKey', { path: childPath }));
+          } else if (child !== undefined) {
+            issues.push(...ConfigSchemaService.validate(child, childNode, childPath));
+          }
+        }
+        for (const key of node.required ?? []) {
+          if (record[key] === undefined) {
+            issues.push(t('configSchema.issue.required', { path: path ? `${path}.${key}` : key }));
+          }
+        }
+        return issues;
+      }
+    }
+  }
+
+  /**
+   * Vérifie la cohérence de la section `provider` une fois les couches fusionnées.
+   * @returns La liste des problèmes détectés.
+   */
+  public static validateProvider(provider: CliConfigFile['provider']): string[] {
+    if (provider?.cloud && provider.sharedVolume && provider.sharedVolume.provider !== provider.cloud) {
+      return [t('configSchema.issue.volumeProvider', { volume: provider.sharedVolume.provider, cloud: provider.cloud })];
+    }
+    return [];
+  }
+}
@@ -1,70 +1,447 @@
 /**
  * @module services/config-service
- * Gère la lecture/écriture de ~/.appwizard
+ * Résout la configuration CLI par couches, de la moins à la plus prioritaire :
+ * valeurs par défaut, `~/.appwizard/config.json` (global), `.appwizard` à la racine
+ * du projet, endpoints du profil actif, variables `APPWIZARD_*`, puis options
+ * `--lang` et `-c, --config <clé=valeur>`.
+ * Écrit les fichiers global et projet (`appwizard config set/unset`, éditeur interactif).
  */
 
 import fs from 'fs-extra';
 import * as path from 'path';
-import type { CliConfig, EndpointsConfig, VersionConfig } from '../types/cli-config.js';
+import type {
+  CliConfig, CliConfigFile, CloudProvider, ConfigEntry, ConfigKey, ConfigLayer, ConfigScope,
+  EndpointsConfig, NetworkConfig, ProviderConfig, TemplatesConfig, VersionConfig,
+} from '../types/cli-config.js';
+import type { TemplateOrigin } from '../types/template.js';
+import { ProjectService } from './project-service.js';
+import { ProfileService } from './profile-service.js';
+import { KeystoreService, STORAGE_DIR } from './keystore-service.js';
+import { ConfigSchemaService, CONFIG_SCHEMA_VERSION } from './config-schema-service.js';
+import { ConfigError, UsageError } from '../errors/app-wizard-errors.js';
+import { getGlobalOptions } from '../utils/cli-context.js';
+import { CLI_VERSION } from '../utils/version-utils.js';
+import { logger } from './logger-service.js';
+import { isLocale, LOCALES, t, type Locale } from '../i18n/index.js';
 
-const CONFIG_FILE = '.appwizard';
+const CONFIG_FILE        = '.appwizard';
+const GLOBAL_CONFIG_FILE = path.join(STORAGE_DIR, 'config.json');
+
+/** Couches de configuration, de la moins à la plus prioritaire. */
+export const CONFIG_LAYERS: ConfigLayer[] = ['default', 'global', 'project', 'profile', 'env', 'flag'];
+
+/**
+ * Clés de configuration : variable d'environnement associée et validation des valeurs.
+ */
+const CONFIG_KEYS: Record<ConfigKey, { env: string; validate?: (value: string) => boolean }> = {
+  'endpoints.backendUrl':      { env: 'APPWIZARD_BACKEND_URL',       validate: isHttpUrl },
+  'endpoints.frontendUrl':     { env: 'APPWIZARD_FRONTEND_URL',      validate: isHttpUrl },
+  'version.backend':           { env: 'APPWIZARD_BACKEND_VERSION'   },
+  'version.frontend':          { env: 'APPWIZARD_FRONTEND_VERSION'  },
+  'lang':                      { env: 'APPWIZARD_LANG',              validate: isLocale },
+  'provider.cloud':            { env: 'APPWIZARD_PROVIDER_CLOUD',    validate: isCloudProvider },
+  'provider.artifactRegistry': { env: 'APPWIZARD_ARTIFACT_REGISTRY' },
+  'network.proxy':             { env: 'APPWIZARD_PROXY',             validate: isHttpUrl },
+  'network.caFile':            { env: 'APPWIZARD_CA_FILE'           },
+  'network.clientCert':        { env: 'APPWIZARD_CLIENT_CERT'       },
+  'network.clientKey':         { env: 'APPWIZARD_CLIENT_KEY'        },
+  'network.timeout':           { env: 'APPWIZARD_TIMEOUT',           validate: isPositiveInteger },
+  'templates.publicKey':       { env: 'APPWIZARD_TEMPLATE_PUBLIC_KEY' },
+};
+
+/** Délai d'inactivité par défaut des requêtes HTTP, en millisecondes. */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** Fournisseurs cloud pris en charge. */
+const CLOUD_PROVIDERS: CloudProvider[] = ['google', 'aws'];
+
+/** Indique si une valeur est un fournisseur cloud pris en charge. */
+function isCloudProvider(value: string): value is CloudProvider {
+  return (CLOUD_PROVIDERS as string[]).includes(value);
+}
+
+/** Indique si une valeur est un entier strictement positif. */
+function isPositiveInteger(value: string): boolean {
+  return /^\d+$/.test(value) && Number(value) > 0;
+}
+
+/** Indique si une valeur est une URL http(s). */
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Lit une valeur d'un objet de configuration à partir d'une clé pointée (`endpoints.backendUrl`). */
+function getPath(data: any, key: ConfigKey): string | undefined {
+  const value = key.split('.').reduce((node, part) => node?.[part], data);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Écrit (ou supprime, si `value` est `undefined`) une valeur à partir d'une clé pointée. */
+function setPath(data: any, key: ConfigKey, value: string | undefined): void {
+  const parts = key.split('.');
+  const last  = parts.pop()!;
+  let node = data;
+  for (const part of parts) {
+    node[part] = node[part] && typeof node[part] === 'object' ? node[part] : {};
+    node = node[part];
+  }
+  if (value === undefined) {
+    delete node[last];
+    if (parts.length > 0 && Object.keys(node).length === 0) {
+      delete data[parts[0]];
+    }
+  } else {
+    node[last] = value;
+  }
+}
+
+/** Couche de configuration chargée : contenu et détail de son origine. */
+interface LoadedLayer {
+  origin: ConfigLayer;
+  source?: string;
+  data: CliConfigFile;
+}
 
 export class ConfigService {
   private readonly configPath: string;
-  private readonly defaultConfig: CliConfig = {
+  private readonly defaultConfig: CliConfigFile = {
     endpoints: {
       backendUrl: 'https://ycgusiyjqf.eu-west-3.awsapprunner.com',
       frontendUrl: 'https://bjmr5kcium.eu-west-3.awsapprunner.com',
     },
     version: {
       backend:  '1.0.0',
-      frontend: '1.0.0',
+      frontend: CLI_VERSION,
+    },
+    network: {
+      timeout: String(DEFAULT_TIMEOUT_MS),
     },
   };
 
-  constructor(private targetDir: string = process.cwd()) {
+  constructor(
+    private targetDir: string = ProjectService.findProjectRoot() ?? ProjectService.getWorkingDirectory()
+  ) {
     this.configPath = path.join(this.targetDir, CONFIG_FILE);
   }
 
   /**
-   * Lit la config, et applique les valeurs par défaut pour
-   * les parties manquantes (endpoints ou version).
+   * Résout la configuration effective en superposant toutes les couches.
+   *
+   * Le volume partagé (`provider.sharedVolume`) provient du fichier le plus prioritaire qui le définit.
+   *
+   * @param profile Profil dont les endpoints sont appliqués (profil actif par défaut).
+   * @throws UsageError si une option `--config` est invalide.
+   * @throws ConfigError si un fichier de configuration est invalide ou si la section `provider` est incohérente.
    */
-  public async getConfig(): Promise<CliConfig> {
-    let fileData: Partial<CliConfig> = {};
-    if (await fs.pathExists(this.configPath)) {
-      try {
-        fileData = await fs.readJSON(this.configPath) as Partial<CliConfig>;
-      } catch {
-        // ignore malformed file
-      }
-    }
+  public async getConfig(profile?: string): Promise<CliConfig> {
+    const layers  = await this.loadLayers(profile);
+    const entries = ConfigService.resolve(layers);
+    const value = (key: ConfigKey) => entries.find(entry => entry.key === key)?.value;
     const endpoints: EndpointsConfig = {
-      ...this.defaultConfig.endpoints,
-      ...(fileData.endpoints || {}),
+      backendUrl:  value('endpoints.backendUrl')!,
+      frontendUrl: value('endpoints.frontendUrl')!,
     };
     const version: VersionConfig = {
-      ...this.defaultConfig.version,
-      ...(fileData.version || {}),
+      backend:  value('version.backend')!,
+      frontend: value('version.frontend')!,
+    };
+    const lang = value('lang');
+    const network: NetworkConfig = {
+      ...(value('network.proxy')      ? { proxy:      value('network.proxy')      } : {}),
+      ...(value('network.caFile')     ? { caFile:     value('network.caFile')     } : {}),
+      ...(value('network.clientCert') ? { clientCert: value('network.clientCert') } : {}),
+      ...(value('network.clientKey')  ? { clientKey:  value('network.clientKey')  } : {}),
+      timeout: Number(value('network.timeout')),
+    };
+    const templates: TemplatesConfig = {
+      ...(value('templates.publicKey') ? { publicKey: value('templates.publicKey') } : {}),
+    };
+
+    const cloud            = value('provider.cloud');
+    const artifactRegistry = value('provider.artifactRegistry');
+    const sharedVolume     = [...layers].reverse().find(layer => layer.data.provider?.sharedVolume)?.data.provider?.sharedVolume;
+    const provider: ProviderConfig = {
+      ...(cloud && isCloudProvider(cloud) ? { cloud } : {}),
+      ...(artifactRegistry ? { artifactRegistry } : {}),
+      ...(sharedVolume ? { sharedVolume } : {}),
+    };
+    const issues = ConfigSchemaService.validateProvider(provider);
+    if (issues.length > 0) {
+      throw new ConfigError(t('config.error.provider', { issues: issues.join(', ') }));
+    }
+
+    return {
+      endpoints,
+      version,
+      network,
+      ...(isLocale(lang) ? { lang } : {}),
+      ...(Object.keys(provider).length > 0 ? { provider } : {}),
+      ...(Object.keys(templates).length > 0 ? { templates } : {}),
     };
-    return { endpoints, version };
   }
 
   /**
-   * Met à jour uniquement la section `endpoints`, en
-   * conservant la version existante (ou la valeur par défaut).
+   * Résout chaque clé de configuration avec la couche dont provient sa valeur.
+   * @param profile Profil dont les endpoints sont appliqués (profil actif par défaut).
+   * @throws ConfigError si un fichier de configuration est invalide.
    */
-  public async setEndpointsConfig(endpoints: EndpointsConfig): Promise<void> {
-    let fileData: Partial<CliConfig> = {};
-    if (await fs.pathExists(this.configPath)) {
+  public async list(profile?: string): Promise<ConfigEntry[]> {
+    return ConfigService.resolve(await this.loadLayers(profile));
+  }
+
+  /**
+   * Résout une clé de configuration.
+   * @param key Clé pointée (`endpoints.backendUrl`, `lang`…).
+   * @throws UsageError si la clé est inconnue.
+   */
+  public async get(key: string): Promise<ConfigEntry> {
+    const configKey = ConfigService.assertKey(key);
+    return (await this.list()).find(entry => entry.key === configKey)!;
+  }
+
+  /**
+   * Enregistre une valeur dans le fichier de configuration global ou du projet.
+   * @param key   Clé pointée.
+   * @param value Nouvelle valeur.
+   * @param scope Fichier modifié.
+   * @returns Le chemin du fichier modifié.
+   * @throws UsageError si la clé est inconnue ou la valeur invalide.
+   */
+  public async set(key: string, value: string, scope: ConfigScope): Promise<string> {
+    const configKey = ConfigService.assertKey(key);
+    ConfigService.assertValue(configKey, value);
+    return this.updateFile(scope, data => setPath(data, configKey, value));
+  }
+
+  /**
+   * Supprime une valeur du fichier de configuration global ou du projet.
+   * @param key   Clé pointée.
+   * @param scope Fichier modifié.
+   * @returns Le chemin du fichier modifié.
+   * @throws UsageError si la clé est inconnue.
+   */
+  public async unset(key: string, scope: ConfigScope): Promise<string> {
+    const configKey = ConfigService.assertKey(key);
+    return this.updateFile(scope, data => setPath(data, configKey, undefined));
+  }
+
+  /**
+   * Lit la langue configurée (clé `lang`), hors options de la ligne de commande.
+   * Lecture synchrone : la langue est nécessaire avant la déclaration des commandes.
+   * Un fichier invalide est ignoré ici ; l'erreur est levée à la résolution de la configuration.
+   */
+  public getLangSync(): string | undefined {
+    const readLang = (file: string) => {
       try {
-        fileData = await fs.readJSON(this.configPath) as Partial<CliConfig>;
-      } catch { }
+        return ConfigService.readFileSync(file).lang;
+      } catch {
+        return undefined;
+      }
+    };
+    return process.env[CONFIG_KEYS.lang.env] ?? readLang(this.configPath) ?? readLang(GLOBAL_CONFIG_FILE);
+  }
+
+  /**
+   * Vérifie les surcharges `-c, --config <clé=valeur>`.
+   * @param overrides Valeurs de l'option.
+   * @throws UsageError si une surcharge est mal formée, vise une clé inconnue ou une valeur invalide.
+   */
+  public static parseOverrides(overrides: string[] = []): Array<[ConfigKey, string]> {
+    return overrides.map(override => {
+      const index = override.indexOf('=');
+      if (index <= 0) {
+        throw new UsageError(t('config.error.override', { override }));
+      }
+      const key   = ConfigService.assertKey(override.slice(0, index).trim());
+      const value = override.slice(index + 1);
+      ConfigService.assertValue(key, value);
+      return [key, value];
+    });
+  }
+
+  /** Liste les clés de configuration. */
+  public static keys(): ConfigKey[] {
+    return Object.keys(CONFIG_KEYS) as ConfigKey[];
+  }
+
+  /** Chemin d'un fichier de configuration. */
+  public getFilePath(scope: ConfigScope): string {
+    return scope === 'global' ? GLOBAL_CONFIG_FILE : this.configPath;
+  }
+
+  /**
+   * Charge les couches de configuration, de la moins à la plus prioritaire.
+   * @param profile Profil dont les endpoints sont appliqués (profil actif par défaut).
+   */
+  private async loadLayers(profile?: string): Promise<LoadedLayer[]> {
+    const profileName   = profile ?? await ProfileService.getActiveProfileName();
+    const profileConfig = await ProfileService.getProfile(profileName);
+    return [
+      { origin: 'default', data: this.defaultConfig },
+      { origin: 'global',  source: GLOBAL_CONFIG_FILE, data: ConfigService.readFileSync(GLOBAL_CONFIG_FILE) },
+      { origin: 'project', source: this.configPath,    data: ConfigService.readFileSync(this.configPath) },
+      { origin: 'profile', source: profileName,        data: { endpoints: profileConfig?.endpoints } },
+      ...ConfigService.envLayers(),
+      ...ConfigService.flagLayers(),
+    ];
+  }
+
+  /** Résout chaque clé avec la couche la plus prioritaire qui la définit. */
+  private static resolve(layers: LoadedLayer[]): ConfigEntry[] {
+    return ConfigService.keys().map(key => {
+      const layer = [...layers].reverse().find(candidate => getPath(candidate.data, key) !== undefined);
+      return layer
+        ? { key, value: getPath(layer.data, key), origin: layer.origin, ...(layer.source ? { source: layer.source } : {}) }
+        : { key, origin: 'default' as const };
+    });
+  }
+
+  /** Couches issues des variables d'environnement (une par variable définie). */
+  private static envLayers(): LoadedLayer[] {
+    return ConfigService.keys()
+      .filter(key => process.env[CONFIG_KEYS[key].env])
+      .map(key => {
+        const data = {};
+        setPath(data, key, process.env[CONFIG_KEYS[key].env]);
+        return { origin: 'env' as const, source: CONFIG_KEYS[key].env, data };
+      });
+  }
+
+  /** Couche issue des options `--lang` et `-c, --config`. */
+  private static flagLayers(): LoadedLayer[] {
+    const options = getGlobalOptions();
+    const data: CliConfigFile = {};
+    for (const [key, value] of ConfigService.parseOverrides(options.config)) {
+      setPath(data, key, value);
+    }
+    if (options.lang) {
+      data.lang = options.lang;
+    }
+    return [{ origin: 'flag', data }];
+  }
+
+  /**
+   * Vérifie qu'une clé de configuration existe.
+   * @throws UsageError si la clé est inconnue.
+   */
+  private static assertKey(key: string): ConfigKey {
+    if (!(key in CONFIG_KEYS)) {
+      throw new UsageError(t('config.error.unknownKey', { key, keys: ConfigService.keys().join(', ') }));
+    }
+    return key as ConfigKey;
+  }
+
+  /**
+   * Vérifie une valeur de configuration.
+   * @throws UsageError si la valeur est invalide pour la clé.
+   */
+  private static assertValue(key: ConfigKey, value: string): void {
+    const { validate } = CONFIG_KEYS[key];
+    if (!validate || validate(value)) {
+      return;
+    }
+    switch (key) {
+      case 'lang':
+        throw new UsageError(t('config.error.invalidLang', { value, langs: LOCALES.join(', ') }));
+      case 'provider.cloud':
+        throw new UsageError(t('config.error.invalidCloud', { value, clouds: CLOUD_PROVIDERS.join(', ') }));
+      case 'network.timeout':
+        throw new UsageError(t('config.error.invalidTimeout', { value }));
+      default:
+        throw new UsageError(t('config.error.invalidValue', { key, value }));
+    }
+  }
+
+  /**
+   * Lit un fichier de configuration ; un fichier absent est vide.
+   * Un fichier d'une version précédente du schéma est migré en mémoire seulement :
+   * il n'est réécrit que par une modification (`config set/unset`…).
+   *
+   * @throws ConfigError si le fichier n'est pas du JSON valide ou ne respecte pas le schéma.
+   */
+  private static readFileSync(file: string): CliConfigFile {
+    return ConfigService.parseFileSync(file).config;
+  }
+
+  /**
+   * Lit et migre un fichier de configuration.
+   * @returns Le contenu au schéma courant et, s'il a été migré, la version d'origine.
+   * @throws ConfigError si le fichier n'est pas du JSON valide ou ne respecte pas le schéma.
+   */
+  private static parseFileSync(file: string): { config: CliConfigFile; migratedFrom?: number } {
+    if (!fs.pathExistsSync(file)) {
+      return { config: {} };
     }
-    const version = fileData.version || this.defaultConfig.version;
-    const newConfig: CliConfig = { endpoints, version };
-    await fs.writeJSON(this.configPath, newConfig, { spaces: 2 });
-    console.log('✅ Endpoints mis à jour dans', this.configPath);
+    let raw: unknown;
+    try {
+      raw = fs.readJSONSync(file);
+    } catch (error) {
+      throw new ConfigError(t('config.error.malformed', { file }), error);
+    }
+    const parsed = ConfigSchemaService.parse(raw, file);
+    if (parsed.migratedFrom !== undefined) {
+      logger.debug(`Config ${file} read with schema v${parsed.migratedFrom}, migrated in memory`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Modifie un fichier de configuration.
+   * @param scope  Fichier modifié.
+   * @param update Modification appliquée au contenu.
+   * @returns Le chemin du fichier.
+   */
+  private async updateFile(scope: ConfigScope, update: (data: CliConfigFile) => void): Promise<string> {
+    const file = this.getFilePath(scope);
+    const { config: data, migratedFrom } = ConfigService.parseFileSync(file);
+    update(data);
+    if (scope === 'global') {
+      await KeystoreService.ensureStorageDir();
+    }
+    await fs.outputJSON(file, { schemaVersion: CONFIG_SCHEMA_VERSION, ...data }, { spaces: 2 });
+    if (migratedFrom !== undefined) {
+      logger.warn(t('config.migrated', { file, from: migratedFrom, to: CONFIG_SCHEMA_VERSION }));
+    }
+    return file;
+  }
+
+  /**
+   * Met à jour uniquement la section `endpoints`, en
+   * conservant le reste de la configuration du projet.
+   */
+  public async setEndpointsConfig(endpoints: EndpointsConfig): Promise<void> {
+    await this.updateFile('project', data => { data.endpoints = endpoints; });
+    logger.info(t('configService.endpointsSaved', { path: this.configPath }));
+  }
+
+  /**
+   * Enregistre le template d'origine du projet, en conservant le reste de la configuration du projet.
+   * @param origin Template et version déployés.
+   * @returns Le chemin du fichier modifié.
+   */
+  public async setTemplateOrigin(origin: TemplateOrigin): Promise<string> {
+    return this.updateFile('project', data => { data.template = origin; });
+  }
+
+  /**
+   * Lit le template d'origine enregistré dans le fichier du projet.
+   * @throws ConfigError si le fichier du projet est invalide.
+   */
+  public getTemplateOrigin(): TemplateOrigin | undefined {
+    return ConfigService.readFileSync(this.configPath).template;
+  }
+
+  /**
+   * Met à jour uniquement la clé `lang`, en conservant le reste de la configuration.
+   * @param lang Langue à enregistrer, ou `undefined` pour revenir à la détection via `LANG`.
+   */
+  public async setLang(lang: Locale | undefined): Promise<void> {
+    await this.updateFile('project', data => setPath(data, 'lang', lang));
+    logger.info(t('configService.langSaved', { path: this.configPath }));
   }
 
   /**
@@ -73,7 +450,7 @@ export class ConfigService {
    */
   public async clear(): Promise<void> {
       await fs.remove(this.configPath);
-      console.log('⚠️  Configuration supprimée.');
+      logger.info(t('configService.removed'));
   }
 
   /**
@@ -81,7 +458,8 @@ export class ConfigService {
    * Utilisé pour réinitialiser la config.
    */
   public async resetToDefault(): Promise<void> {
-    await fs.writeJSON(this.configPath, this.defaultConfig, { spaces: 2 });
-    console.log('⚠️  Configuration réinitialisée aux valeurs par défaut.');
+    const data: CliConfigFile = { schemaVersion: CONFIG_SCHEMA_VERSION, endpoints: this.defaultConfig.endpoints };
+    await fs.writeJSON(this.configPath, data, { spaces: 2 });
+    logger.info(t('configService.reset'));
   }
 }
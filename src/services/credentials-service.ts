@@ -1,6 +1,8 @@
 import fs from 'fs-extra';
 import * as path from 'path';
 import os from 'os';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
 
 /**
  * Retourne le chemin absolu par défaut vers la clé privée incluse dans le package.
@@ -53,9 +55,9 @@ export class CredentialsService {
   public static async saveCredential(credential: Credential): Promise<void> {
     try {
       await fs.writeFile(CredentialsService.CREDENTIAL_FILE, JSON.stringify(credential, null, 2));
-      console.log('✅ Credential utilisateur enregistré avec succès.');
+      logger.info(t('credentialsService.saved'));
     } catch (error) {
-      console.error('❌ Erreur lors de l’enregistrement du credential utilisateur:', error);
+      logger.error(t('credentialsService.error.save'), error);
       throw error;
     }
   }
@@ -72,7 +74,7 @@ export class CredentialsService {
         const json = JSON.parse(data) as Credential;
         return json;
       } catch (error) {
-        console.error('❌ Erreur lors de la lecture du fichier de credential utilisateur.', error);
+        logger.error(t('credentialsService.error.read'), error);
         return undefined;
       }
     }
@@ -2,6 +2,11 @@ import fs from 'fs-extra';
 import path from 'path';
 import yaml from 'js-yaml';
 import { deduceDeploymentOrder } from '../utils/docker-compose-utils.js';
+import { TemplateError } from '../errors/app-wizard-errors.js';
+import { writeTextFile } from '../utils/operation-utils.js';
+import { ProjectService } from './project-service.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
 
 export type Environment = 'dev' | 'prod';
 
@@ -13,6 +18,13 @@ export class DockerComposeService {
     return env === 'prod' ? 'docker-compose.prod.yml' : 'docker-compose.dev.yml';
   }
 
+  /**
+   * Retourne le chemin absolu du fichier docker-compose, à la racine du projet.
+   */
+  static getComposePath(env: Environment): string {
+    return path.join(ProjectService.getProjectRoot(), DockerComposeService.getComposeFileName(env));
+  }
+
   /**
    * Récupère le contexte de build pour un service en lisant le fichier docker-compose.(dev|prod).yml.
    * Si le champ build est une chaîne, il est traité comme le contexte.
@@ -23,22 +35,22 @@ export class DockerComposeService {
    */
   static async getServiceBuildContext(serviceName: string, env: Environment): Promise<string> {
     const composeFileName = DockerComposeService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     if (!(await fs.pathExists(composePath))) {
-      throw new Error(`Fichier ${composeFileName} introuvable dans ${process.cwd()}`);
+      throw new TemplateError(t('compose.error.notFoundIn', { file: composeFileName, dir: ProjectService.getProjectRoot() }));
     }
     const composeContent = await fs.readFile(composePath, 'utf8');
     const composeData: any = yaml.load(composeContent);
     const serviceDef = composeData.services?.[serviceName];
     if (!serviceDef) {
-      throw new Error(`Service '${serviceName}' non trouvé dans ${composeFileName}`);
+      throw new TemplateError(t('compose.error.serviceNotFound', { service: serviceName, file: composeFileName }));
     }
     if (typeof serviceDef.build === 'string') {
-      return path.resolve(process.cwd(), serviceDef.build);
+      return path.resolve(ProjectService.getProjectRoot(), serviceDef.build);
     } else if (typeof serviceDef.build === 'object' && serviceDef.build.context) {
-      return path.resolve(process.cwd(), serviceDef.build.context);
+      return path.resolve(ProjectService.getProjectRoot(), serviceDef.build.context);
     }
-    return path.join(process.cwd(), 'containers', serviceName);
+    return path.join(ProjectService.getProjectRoot(), 'containers', serviceName);
   }
 
   /**
@@ -51,11 +63,11 @@ export class DockerComposeService {
    */
   static async getServiceOrder(serviceName: string, env: Environment): Promise<number> {
     const composeFileName = DockerComposeService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     const orderList: string[] = await deduceDeploymentOrder(composePath);
     const index = orderList.indexOf(serviceName);
     if (index === -1) {
-      throw new Error(`Service '${serviceName}' non trouvé dans l'ordre déduit du ${composeFileName}.`);
+      throw new TemplateError(t('compose.error.serviceNotInOrder', { service: serviceName, file: composeFileName }));
     }
     return index + 1;
   }
@@ -70,15 +82,15 @@ export class DockerComposeService {
    */
   static async getServiceHealthCheck(serviceName: string, env: Environment): Promise<string> {
     const composeFileName = DockerComposeService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     if (!(await fs.pathExists(composePath))) {
-      throw new Error(`Fichier ${composeFileName} introuvable dans ${process.cwd()}`);
+      throw new TemplateError(t('compose.error.notFoundIn', { file: composeFileName, dir: ProjectService.getProjectRoot() }));
     }
     const composeContent = await fs.readFile(composePath, 'utf8');
     const composeData: any = yaml.load(composeContent);
     const serviceDef = composeData.services?.[serviceName];
     if (!serviceDef) {
-      throw new Error(`Service '${serviceName}' non trouvé dans ${composeFileName}`);
+      throw new TemplateError(t('compose.error.serviceNotFound', { service: serviceName, file: composeFileName }));
     }
     if (serviceDef.healthcheck && serviceDef.healthcheck.test) {
       const test = serviceDef.healthcheck.test;
@@ -88,7 +100,7 @@ export class DockerComposeService {
         return test;
       }
     }
-    throw new Error(`Le service '${serviceName}' ne possède pas de healthcheck défini dans ${composeFileName}`);
+    throw new TemplateError(t('compose.error.noHealthcheck', { service: serviceName, file: composeFileName }));
   }
 
   /**
@@ -105,9 +117,9 @@ export class DockerComposeService {
     artifactRegistry: string
   ): Promise<{ serviceName: string; currentImage: string; expectedImage: string }[]> {
     const composeFileName = DockerComposeService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     if (!(await fs.pathExists(composePath))) {
-      throw new Error(`Fichier ${composeFileName} introuvable dans ${process.cwd()}`);
+      throw new TemplateError(t('compose.error.notFoundIn', { file: composeFileName, dir: ProjectService.getProjectRoot() }));
     }
     const composeContent = await fs.readFile(composePath, 'utf8');
     const composeData: any = yaml.load(composeContent);
@@ -132,9 +144,9 @@ export class DockerComposeService {
    */
   static async correctImageNames(env: Environment, artifactRegistry: string): Promise<void> {
     const composeFileName = DockerComposeService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     if (!(await fs.pathExists(composePath))) {
-      throw new Error(`Fichier ${composeFileName} introuvable dans ${process.cwd()}`);
+      throw new TemplateError(t('compose.error.notFoundIn', { file: composeFileName, dir: ProjectService.getProjectRoot() }));
     }
     const composeContent = await fs.readFile(composePath, 'utf8');
     const composeData: any = yaml.load(composeContent);
@@ -144,19 +156,21 @@ export class DockerComposeService {
       const serviceDef = composeData.services[serviceName];
       const expectedImage = `${artifactRegistry}/${serviceName}:latest`;
       if (serviceDef.image !== expectedImage) {
-        console.log(
-          `Service ${serviceName} : image actuelle "${serviceDef.image || 'absente'}" -> attendue "${expectedImage}"`
-        );
+        logger.info(t('compose.imageChange', {
+          service:  serviceName,
+          current:  serviceDef.image || t('compose.imageMissing'),
+          expected: expectedImage,
+        }));
         serviceDef.image = expectedImage;
         modified = true;
       }
     }
     if (modified) {
       const updatedContent = yaml.dump(composeData);
-      await fs.writeFile(composePath, updatedContent, 'utf8');
-      console.log(`Fichier ${composeFileName} mis à jour avec les noms d'images conformes.`);
+      await writeTextFile(composePath, updatedContent);
+      logger.info(t('compose.imagesUpdated', { file: composeFileName }));
     } else {
-      console.log(`Les noms d'images dans ${composeFileName} sont déjà conformes.`);
+      logger.info(t('compose.imagesOk', { file: composeFileName }));
     }
   }
 }
\ No newline at end of file
@@ -1,33 +1,16 @@
 import fs from 'fs-extra';
 import path from 'path';
 import yaml from 'js-yaml';
-import { Environment } from './docker-compose-service.js';
+import { DockerComposeService, Environment } from './docker-compose-service.js';
+import { TemplateError } from '../errors/app-wizard-errors.js';
+import { writeTextFile } from '../utils/operation-utils.js';
+import { ProjectService } from './project-service.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+import type { SharedVolumeConfig } from '../types/cli-config.js';
 
-/**
- * Configuration de montage pour Google Cloud Filestore.
- */
-export interface FilestoreVolumeConfig {
-  provider: 'google';
-  filestoreIp: string;
-  exportPath: string;
-  mountOptions: string; // Par exemple : "rw,nfsvers=4.1"
-}
-
-/**
- * Configuration de montage pour AWS EFS.
- */
-export interface EfsVolumeConfig {
-  provider: 'aws';
-  efsId: string;
-  efsDns: string;
-  exportPath?: string;   // Par défaut, "/"
-  mountOptions: string;  // Par exemple : "rw,nfsvers=4.1"
-}
-
-/**
- * Type union pour la configuration du volume partagé selon le provider.
- */
-export type SharedVolumeConfig = FilestoreVolumeConfig | EfsVolumeConfig;
+// Les configurations de volume font partie de la section `provider` de la configuration CLI.
+export type { EfsVolumeConfig, FilestoreVolumeConfig, SharedVolumeConfig } from '../types/cli-config.js';
 
 /**
  * Définition attendue de la configuration d’un volume dans Docker Compose.
@@ -61,9 +44,9 @@ export class DockerComposeVolumesService {
    */
   static async loadComposeFile(env: Environment): Promise<any> {
     const composeFileName = DockerComposeVolumesService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     if (!(await fs.pathExists(composePath))) {
-      throw new Error(`Fichier ${composeFileName} introuvable dans ${process.cwd()}`);
+      throw new TemplateError(t('compose.error.notFoundIn', { file: composeFileName, dir: ProjectService.getProjectRoot() }));
     }
     const fileContent = await fs.readFile(composePath, 'utf8');
     return yaml.load(fileContent);
@@ -74,9 +57,9 @@ export class DockerComposeVolumesService {
    */
   static async saveComposeFile(env: Environment, data: any): Promise<void> {
     const composeFileName = DockerComposeVolumesService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     const yamlContent = yaml.dump(data);
-    await fs.writeFile(composePath, yamlContent, 'utf8');
+    await writeTextFile(composePath, yamlContent);
   }
 
   /**
@@ -113,13 +96,13 @@ export class DockerComposeVolumesService {
    */
   static async verifyAndCorrectVolumes(env: Environment, volumeConfig: SharedVolumeConfig): Promise<void> {
     if (env !== 'prod') {
-      console.log("En environnement de développement, la vérification des volumes est factice. Aucun changement n'est appliqué.");
+      logger.info(t('volumes.devNoop'));
       return;
     }
 
     const composeData = await DockerComposeVolumesService.loadComposeFile(env);
     if (!composeData.volumes) {
-      console.log("Aucune section 'volumes' trouvée dans le fichier docker-compose.");
+      logger.info(t('volumes.noSection'));
       return;
     }
     const expected = DockerComposeVolumesService.computeExpectedVolumeDefinition(volumeConfig);
@@ -136,9 +119,12 @@ export class DockerComposeVolumesService {
         currentDef.driver_opts.o !== expected.driver_opts.o ||
         currentDef.driver_opts.device !== expected.driver_opts.device
       ) {
-        console.log(`Mise à jour de la configuration du volume '${volumeName}':`);
-        console.log(`- Driver actuel: ${currentDriver}, attendu: ${expected.driver}`);
-        console.log(`- Options actuelles: ${JSON.stringify(currentDef.driver_opts)}, attendues: ${JSON.stringify(expected.driver_opts)}`);
+        logger.info(t('volumes.updating', { volume: volumeName }));
+        logger.info(t('volumes.driver', { current: currentDriver, expected: expected.driver }));
+        logger.info(t('volumes.options', {
+          current:  JSON.stringify(currentDef.driver_opts),
+          expected: JSON.stringify(expected.driver_opts),
+        }));
         // On met à jour la configuration du volume.
         composeData.volumes[volumeName] = {
           driver: expected.driver,
@@ -150,9 +136,9 @@ export class DockerComposeVolumesService {
 
     if (modified) {
       await DockerComposeVolumesService.saveComposeFile(env, composeData);
-      console.log("Le fichier docker-compose a été mis à jour avec la configuration correcte pour les volumes.");
+      logger.info(t('volumes.updated'));
     } else {
-      console.log("Les volumes du fichier docker-compose sont déjà correctement configurés.");
+      logger.info(t('volumes.ok'));
     }
   }
 }
\ No newline at end of file
@@ -1,124 +1,187 @@
 /**
  * @module services/fetch-template-service
- * Liste et télécharge un template, en passant le header `x-frontend-version`.
+ * Liste et télécharge un template via le client du backend ({@link BackendClient}) ;
+ * les archives téléchargées sont conservées dans le cache local ({@link TemplateCacheService}).
  */
 
 import fs from 'fs-extra';
 import * as path from 'path';
 import os from 'os';
-import axios from 'axios';
 import AdmZip from 'adm-zip';
-import { AuthService } from './auth-service.js';
-import { ConfigService } from './config-service.js';
-import type { Template } from '../types/template.js';
-import type { CliConfig } from '../types/cli-config.js';
+import type { Readable } from 'stream';
+import { BackendClient } from './backend-client.js';
+import { ProfileService } from './profile-service.js';
+import { TemplateCacheService } from './template-cache-service.js';
+import { TemplateIntegrityService } from './template-integrity-service.js';
+import { ArchiveExtractService } from './archive-extract-service.js';
+import type { CachedTemplate, Template, TemplateVersion } from '../types/template.js';
+import { AppWizardError, TemplateError } from '../errors/app-wizard-errors.js';
+import { isDryRun } from '../utils/operation-utils.js';
+import { compareVersions } from '../utils/version-utils.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+const TEMPLATE_LIST_CACHE_DIR = path.join(os.homedir(), '.appwizard', 'cache');
+// durée de validité de la liste en cache (complétion shell)
+const TEMPLATE_LIST_TTL_MS     = 24 * 60 * 60 * 1000;
+
+/** Backend sans endpoint de versions (404) : seule la dernière version est téléchargeable. */
+class VersionsEndpointNotFound extends AppWizardError {}
 
 export class FetchTemplateService {
   /**
    * Liste les templates disponibles (via l’API protégée).
+   * La liste obtenue est mise en cache pour la complétion shell.
    */
   public static async listTemplates(): Promise<Template[]> {
-    const { endpoints, version }: CliConfig = await new ConfigService().getConfig();
-    const token = await new AuthService().getAccessToken();
-    const resp = await axios.get<Template[]>(
-      `${endpoints.backendUrl}/app-templates`,
-      {
-        headers: {
-          Authorization:        `Bearer ${token}`,
-          'x-frontend-version': version.frontend,
-        },
-      }
-    );
+    const resp = await BackendClient.request<Template[]>({
+      path:    '/app-templates',
+      context: t('fetch.error.list'),
+    });
+    await FetchTemplateService.saveTemplateListCache(resp.data);
     return resp.data;
   }
 
   /**
-   * Télécharge et déploie un template ZIP.
-   * @param templateId L’ID du template à récupérer.
-   * @param targetDir  Répertoire de destination.
+   * Liste les templates en privilégiant la liste en cache tant qu’elle est récente.
+   * Si l’API est injoignable, une liste expirée est préférée à une erreur.
    */
-  public static async fetchTemplate(
-    templateId: string,
-    targetDir: string
-  ): Promise<void> {
-    const { endpoints, version }: CliConfig = await new ConfigService().getConfig();
-    const token = await new AuthService().getAccessToken();
-    const downloadUrl = `${endpoints.backendUrl}/app-templates/${templateId}/download`;
-
-    // 1) Télécharger en stream
-    const resp = await axios.get<import('stream').Readable>(downloadUrl, {
-      headers: {
-        Authorization:        `Bearer ${token}`,
-        'x-frontend-version': version.frontend,
-      },
-      responseType: 'stream',
-      validateStatus: () => true,
-    });
-
-    // 2) Debug headers et status
-    console.log('🛠️ DEBUG Download HTTP status:', resp.status);
-    console.log('🛠️ DEBUG Content-Type:', resp.headers['content-type']);
-    console.log('🛠️ DEBUG Content-Length:', resp.headers['content-length']);
-
-    // 3) Gérer les erreurs JSON
-    if (resp.status !== 200) {
-      const chunks: Buffer[] = [];
-      for await (const chunk of resp.data) {
-        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  public static async listTemplatesCached(): Promise<Template[]> {
+    let cached: { fetchedAt: number; templates: Template[] } | undefined;
+    try {
+      cached = await fs.readJSON(await FetchTemplateService.getTemplateListCachePath());
+    } catch {
+      cached = undefined;
+    }
+    if (cached && Date.now() - cached.fetchedAt < TEMPLATE_LIST_TTL_MS) {
+      return cached.templates;
+    }
+    try {
+      return await FetchTemplateService.listTemplates();
+    } catch (error) {
+      if (cached) {
+        return cached.templates;
       }
-      let errMsg = `Statut ${resp.status}`;
-      try {
-        const txt = Buffer.concat(chunks).toString('utf8');
-        const err = JSON.parse(txt);
-        errMsg = err.message || txt;
-      } catch {
-        // on garde errMsg brut
+      throw error;
+    }
+  }
+
+  /**
+   * Liste les versions publiées d'un template, de la plus récente à la plus ancienne.
+   * @param templateId Identifiant du template.
+   * @returns Les versions, ou une liste vide si le backend ne les expose pas.
+   */
+  public static async listVersions(templateId: string): Promise<TemplateVersion[]> {
+    let data: unknown;
+    try {
+      ({ data } = await BackendClient.request<unknown>({
+        path:          `/app-templates/${encodeURIComponent(templateId)}/versions`,
+        context:       t('fetch.error.versions'),
+        notFoundError: VersionsEndpointNotFound,
+      }));
+    } catch (error) {
+      if (error instanceof VersionsEndpointNotFound) {
+        logger.debug(`No version list for template ${templateId}`);
+        return [];
       }
-      throw new Error(`Échec du téléchargement du template : ${errMsg}`);
+      throw error;
     }
+    return (Array.isArray(data) ? data : [])
+      .filter((item): item is TemplateVersion => typeof item?.version === 'string' && item.version !== '')
+      .sort((a, b) => compareVersions(b.version, a.version));
+  }
 
-    // 4) Écriture du ZIP brut dans un fichier temporaire
-    const tmpZipDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appwizard-'));
-    const zipFilePath = path.join(tmpZipDir, `${templateId}.zip`);
-    const writer = fs.createWriteStream(zipFilePath);
-    await new Promise<void>((resolve, reject) => {
-      resp.data.pipe(writer);
-      resp.data.on('error', reject);
-      writer.on('finish', resolve);
-      writer.on('error', reject);
-    });
+  /** Fichier de cache de la liste des templates, propre au profil actif (chaque profil a son backend). */
+  private static async getTemplateListCachePath(): Promise<string> {
+    return path.join(TEMPLATE_LIST_CACHE_DIR, `templates-${await ProfileService.getActiveProfileName()}.json`);
+  }
 
-    // 5) Debug signature du fichier ZIP (4 premiers octets)
+  /** Enregistre la liste des templates ; un échec d’écriture n’est pas bloquant. */
+  private static async saveTemplateListCache(templates: Template[]): Promise<void> {
     try {
-      const fd = await fs.open(zipFilePath, 'r');
-      const buf = Buffer.alloc(4);
-      await fs.read(fd, buf, 0, 4, 0);
-      await fs.close(fd);
-      console.log('🛠️ DEBUG ZIP signature (hex):', buf.toString('hex'));
-      // signature valide = '504b0304'
-    } catch (e) {
-      console.log('🛠️ DEBUG impossible de lire la signature ZIP:', e);
+      await fs.outputJSON(await FetchTemplateService.getTemplateListCachePath(), { fetchedAt: Date.now(), templates }, { spaces: 2 });
+    } catch (error) {
+      logger.debug('Template list cache not written:', error);
     }
+  }
+
+  /**
+   * Télécharge un template, l'enregistre dans le cache local puis le déploie.
+   * @param template  Template à récupérer (empreinte et signature de la version demandée, le cas échéant).
+   * @param targetDir Répertoire de destination.
+   * @param version   Version à télécharger (dernière version par défaut).
+   * @returns L'entrée du cache correspondant à l'archive téléchargée.
+   */
+  public static async fetchTemplate(
+    template: Template,
+    targetDir: string,
+    version?: string
+  ): Promise<CachedTemplate> {
+    // 1) Télécharger en stream (les réponses en erreur sont converties par le client)
+    const query = version ? `?version=${encodeURIComponent(version)}` : '';
+    const resp = await BackendClient.request<Readable>({
+      path:          `/app-templates/${template.id}/download${query}`,
+      responseType:  'stream',
+      context:       t('fetch.error.download'),
+      notFoundError: TemplateError,
+    });
+
+    // 2) Debug headers et status
+    logger.debug('Download HTTP status:', resp.status);
+    logger.debug('Content-Type:', resp.headers['content-type']);
+    logger.debug('Content-Length:', resp.headers['content-length']);
 
-    // 6) Vérification et extraction
+    // 3) Enregistrement de l'archive dans le cache, après vérification de son intégrité
+    const versionHeader = resp.headers['x-template-version'];
+    const entry = await TemplateCacheService.store(
+      template,
+      resp.data,
+      TemplateIntegrityService.expected(template, resp.headers),
+      typeof versionHeader === 'string' ? versionHeader : version
+    );
+
+    // 4) Extraction contrôlée
+    await FetchTemplateService.deployArchive(TemplateCacheService.getArchivePath(entry), targetDir);
+    return entry;
+  }
+
+  /**
+   * Déploie un template depuis le cache local, sans appeler le backend.
+   * L'archive est vérifiée à nouveau (empreinte et, le cas échéant, signature) avant l'extraction.
+   * @param entry     Entrée du cache.
+   * @param targetDir Répertoire de destination.
+   */
+  public static async deployCachedTemplate(entry: CachedTemplate, targetDir: string): Promise<void> {
+    logger.info(t('fetch.fromCache', { id: entry.id, version: entry.version }));
+    const archivePath = TemplateCacheService.getArchivePath(entry);
+    await TemplateIntegrityService.verifyCached(entry, archivePath);
+    await FetchTemplateService.deployArchive(archivePath, targetDir);
+    await TemplateCacheService.markUsed(entry);
+  }
+
+  /**
+   * Extrait une archive de template dans le répertoire cible ({@link ArchiveExtractService}) :
+   * toutes les entrées sont contrôlées avant l'écriture, et les fichiers remplacés sont signalés.
+   * @param zipFilePath Archive ZIP.
+   * @param targetDir   Répertoire de destination.
+   * @throws TemplateError si l'archive n'est pas un ZIP valide ou contient une entrée refusée.
+   */
+  private static async deployArchive(zipFilePath: string, targetDir: string): Promise<void> {
     let zip: AdmZip;
     try {
       zip = new AdmZip(zipFilePath);
     } catch (e) {
-      throw new Error(
-        `Le fichier reçu n'est pas un ZIP valide (${e instanceof Error ? e.message : e})`
+      throw new TemplateError(
+        t('fetch.error.invalidZip', { detail: e instanceof Error ? e.message : String(e) })
       );
     }
 
-    const extractDir = await fs.mkdtemp(path.join(os.tmpdir(), 'appwizard-'));
-    try {
-      zip.extractAllTo(extractDir, true);
-      console.log(`📂 Copie vers ${targetDir}…`);
-      await fs.copy(extractDir, targetDir, { overwrite: true });
-      console.log('✅ Template déployé.');
-    } finally {
-      await fs.remove(tmpZipDir);
-      await fs.remove(extractDir);
+    const plan        = await ArchiveExtractService.plan(zip, targetDir);
+    const overwritten = plan.files.filter(file => file.overwrite).length;
+    logger.info(t('fetch.extracting', { count: plan.files.length, overwritten, dir: plan.targetDir }));
+    await ArchiveExtractService.extract(zip, plan);
+    if (!isDryRun()) {
+      logger.info(t('fetch.deployed'));
     }
   }
 }
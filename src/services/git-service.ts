@@ -1,6 +1,8 @@
 import { execSync } from 'child_process';
 import fs from 'fs-extra';
 import * as path from 'path';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
 
 /**
  * Service utilitaire pour les opérations Git.
@@ -37,7 +39,7 @@ export class GitService {
     execSync('git init', { cwd: targetDir, stdio: 'inherit' });
     execSync('git add .', { cwd: targetDir, stdio: 'inherit' });
     execSync(`git commit -m "${message}"`, { cwd: targetDir, stdio: 'inherit' });
-    console.log('✅ Dépôt Git initialisé et commit effectué.');
+    logger.info(t('git.initialized'));
   }
 
   /**
@@ -49,9 +51,9 @@ export class GitService {
     try {
       execSync('git add .', { cwd: targetDir, stdio: 'inherit' });
       execSync(`git commit -m "${message}"`, { cwd: targetDir, stdio: 'inherit' });
-      console.log('✅ Commit effectué.');
+      logger.info(t('git.committed'));
     } catch (error) {
-      console.log('❌ Erreur lors du commit. Veuillez effectuer le commit manuellement.');
+      logger.info(t('git.error.commit'));
     }
   }
 
@@ -67,24 +69,24 @@ export class GitService {
         prompts.default({
           type: 'confirm',
           name: 'commit',
-          message: 'Un dépôt Git est déjà présent. Voulez-vous committer la création du projet automatiquement ?',
+          message: t('git.prompt.commit'),
           initial: false,
         })
       );
       if (response.commit) {
-        this.commitRepository(targetDir, `Création du projet ${projectName}`);
+        this.commitRepository(targetDir, t('git.commitMessage', { name: projectName }));
       }
     } else {
       const response = await import('prompts').then(prompts =>
         prompts.default({
           type: 'confirm',
           name: 'init',
-          message: 'Aucun dépôt Git n\'a été détecté. Voulez-vous initialiser un dépôt Git dans ce dossier ?',
+          message: t('git.prompt.init'),
           initial: true,
         })
       );
       if (response.init) {
-        this.initRepository(targetDir, `Initialisation du projet ${projectName}`);
+        this.initRepository(targetDir, t('git.initMessage', { name: projectName }));
       }
     }
   }
@@ -0,0 +1,216 @@
+/**
+ * @module services/http-service
+ * Options réseau communes à tous les appels HTTP sortants (backend, vérifications de connectivité) :
+ * proxy (`network.proxy`, sinon `HTTPS_PROXY`/`HTTP_PROXY` et `NO_PROXY`), autorités de
+ * certification supplémentaires, certificat client et délai d'inactivité.
+ */
+
+import axios from 'axios';
+import fs from 'fs-extra';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import type { Duplex } from 'stream';
+import type { NetworkConfig } from '../types/cli-config.js';
+import type { HttpRequestOptions } from '../types/backend.js';
+import { ConfigService } from './config-service.js';
+import { ConfigError } from '../errors/app-wizard-errors.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+/** Identifiants décodés de l'URL du proxy ; le mot de passe est masqué dans les logs. */
+function proxyCredentials(proxy: URL): { username: string; password: string } {
+  const password = decodeURIComponent(proxy.password);
+  if (password) {
+    logger.addSecret(password);
+  }
+  return { username: decodeURIComponent(proxy.username), password };
+}
+
+/** En-tête `Proxy-Authorization` déduit des identifiants de l'URL du proxy. */
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {};
+  }
+  const { username, password } = proxyCredentials(proxy);
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` };
+}
+
+/**
+ * Agent HTTPS qui établit un tunnel `CONNECT` à travers un proxy HTTP(S)
+ * avant la négociation TLS avec la cible.
+ */
+class ProxyTunnelAgent extends https.Agent {
+  constructor(
+    private readonly proxy: URL,
+    private readonly proxyTls: tls.ConnectionOptions,
+    private readonly connectTimeout: number,
+    options: https.AgentOptions
+  ) {
+    super(options);
+  }
+
+  /** Appelée par Node pour chaque nouvelle connexion ; le socket est fourni via `callback`. */
+  createConnection(
+    options: tls.ConnectionOptions & { host?: string; port?: number },
+    callback: (error: Error | null, socket?: Duplex) => void
+  ): undefined {
+    const target = `${options.host}:${options.port ?? 443}`;
+    const client = this.proxy.protocol === 'https:' ? https : http;
+    const req = client.request({
+      host:    this.proxy.hostname,
+      port:    this.proxy.port || (this.proxy.protocol === 'https:' ? 443 : 80),
+      method:  'CONNECT',
+      path:    target,
+      headers: { Host: target, ...proxyAuthorization(this.proxy) },
+      ...(this.proxy.protocol === 'https:' ? this.proxyTls : {}),
+    });
+    req.setTimeout(this.connectTimeout, () => req.destroy(new Error(t('http.error.proxyTimeout', { proxy: this.proxy.host }))));
+    req.once('error', error => callback(error));
+    req.once('connect', (res, socket) => {
+      req.setTimeout(0);
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        callback(new Error(t('http.error.proxyRefused', { proxy: this.proxy.host, status: res.statusCode ?? 0 })));
+        return;
+      }
+      callback(null, tls.connect({ ...options, socket, servername: options.servername ?? options.host }));
+    });
+    req.end();
+    return undefined;
+  }
+}
+
+export class HttpService {
+  /** Agents créés pendant l'exécution, réutilisés pour conserver les connexions. */
+  private static agents = new Map<string, https.Agent>();
+
+  /**
+   * Retourne les options axios à appliquer à une requête.
+   *
+   * @param url     URL de la requête (choix du proxy et de `NO_PROXY`).
+   * @param network Section `network` de la configuration (résolue pour le profil actif par défaut).
+   * @throws ConfigError si un fichier de certificat est illisible ou si le certificat client est incomplet.
+   */
+  public static async requestOptions(url: string, network?: NetworkConfig): Promise<HttpRequestOptions> {
+    const config = network ?? (await new ConfigService().getConfig()).network;
+    const target = new URL(url);
+    const proxy  = HttpService.resolveProxy(target, config.proxy);
+
+    if (target.protocol === 'http:') {
+      return {
+        timeout: config.timeout,
+        proxy: proxy
+          ? {
+              protocol: proxy.protocol.replace(':', ''),
+              host:     proxy.hostname,
+              port:     Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80),
+              ...(proxy.username ? { auth: proxyCredentials(proxy) } : {}),
+            }
+          : false,
+      };
+    }
+    return { timeout: config.timeout, proxy: false, httpsAgent: HttpService.httpsAgent(config, proxy) };
+  }
+
+  /**
+   * Effectue une requête GET avec les options réseau de la configuration.
+   * @param url URL à joindre.
+   * @returns Le statut de la réponse.
+   */
+  public static async get(url: string): Promise<number> {
+    const resp = await axios.get(url, await HttpService.requestOptions(url));
+    return resp.status;
+  }
+
+  /**
+   * Choisit le proxy d'une URL : `network.proxy`, sinon `HTTPS_PROXY`/`HTTP_PROXY`,
+   * sauf si l'hôte correspond à `NO_PROXY`.
+   * @returns L'URL du proxy, ou `undefined` pour une connexion directe.
+   */
+  private static resolveProxy(target: URL, configured: string | undefined): URL | undefined {
+    const env = process.env;
+    const value = configured
+      ?? (target.protocol === 'https:'
+        ? env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy
+        : env.HTTP_PROXY ?? env.http_proxy);
+    if (!value || HttpService.bypassProxy(target, env.NO_PROXY ?? env.no_proxy)) {
+      return undefined;
+    }
+    try {
+      return new URL(value.includes('://') ? value : `http://${value}`);
+    } catch {
+      throw new ConfigError(t('http.error.invalidProxy'));
+    }
+  }
+
+  /**
+   * Indique si un hôte est exclu du proxy par `NO_PROXY`
+   * (`*`, nom exact, suffixe de domaine `.corp.local` ou `corp.local`, port optionnel).
+   */
+  private static bypassProxy(target: URL, noProxy: string | undefined): boolean {
+    if (!noProxy) {
+      return false;
+    }
+    const host = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+    return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+      if (entry === '*') {
+        return true;
+      }
+      const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase())!;
+      if (match[2] && match[2] !== port) {
+        return false;
+      }
+      const domain = match[1].replace(/^\*?\./, '').replace(/^\[|\]$/g, '');
+      return host === domain || host.endsWith(`.${domain}`);
+    });
+  }
+
+  /**
+   * Agent HTTPS portant les autorités de certification, le certificat client et, le cas échéant, le tunnel proxy.
+   */
+  private static httpsAgent(config: NetworkConfig, proxy: URL | undefined): https.Agent {
+    const cacheKey = JSON.stringify([config.caFile, config.clientCert, config.clientKey, config.timeout, proxy?.href]);
+    const cached = HttpService.agents.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    if (Boolean(config.clientCert) !== Boolean(config.clientKey)) {
+      throw new ConfigError(t('http.error.clientCertIncomplete'));
+    }
+    const tlsOptions: tls.ConnectionOptions = {
+      ...(config.caFile
+        ? { ca: [...tls.rootCertificates, HttpService.readPem('network.caFile', config.caFile)] }
+        : {}),
+      ...(config.clientCert && config.clientKey
+        ? {
+            cert: HttpService.readPem('network.clientCert', config.clientCert),
+            key:  HttpService.readPem('network.clientKey', config.clientKey),
+          }
+        : {}),
+    };
+
+    const agent = proxy
+      ? new ProxyTunnelAgent(proxy, { ca: tlsOptions.ca }, config.timeout, tlsOptions)
+      : new https.Agent(tlsOptions);
+    if (proxy) {
+      logger.debug(`HTTPS via proxy ${proxy.host}`);
+    }
+    HttpService.agents.set(cacheKey, agent);
+    return agent;
+  }
+
+  /**
+   * Lit un fichier PEM référencé par la configuration.
+   * @throws ConfigError si le fichier est illisible.
+   */
+  private static readPem(key: string, file: string): string {
+    try {
+      return fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      throw new ConfigError(t('http.error.readFile', { key, file }), error);
+    }
+  }
+}
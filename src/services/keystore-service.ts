@@ -0,0 +1,173 @@
+/**
+ * @module services/keystore-service
+ * Fournit les clés de chiffrement des secrets stockés dans ~/.appwizard :
+ * - la clé machine (`~/.appwizard/master.key`, générée au premier usage),
+ * - une clé dérivée d'une passphrase (`APPWIZARD_PASSPHRASE` ou saisie interactive).
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import os from 'os';
+import prompts from 'prompts';
+import { AuthError, UsageError } from '../errors/app-wizard-errors.js';
+import { deriveKey, randomBytes } from '../utils/crypto-utils.js';
+import { isInteractive } from '../utils/prompt-utils.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+export const STORAGE_DIR = path.join(os.homedir(), '.appwizard');
+const MASTER_KEY_FILE    = path.join(STORAGE_DIR, 'master.key');
+/** Attente maximale d'une clé machine en cours d'écriture par une autre invocation. */
+const MASTER_KEY_WAIT_MS = 1000;
+
+/** Permissions des fichiers contenant des secrets (lecture/écriture par l'utilisateur seul). */
+export const SECRET_FILE_MODE = 0o600;
+const SECRET_DIR_MODE         = 0o700;
+
+export class KeystoreService {
+  /** Clés dérivées pendant l'exécution, indexées par sel : la passphrase n'est demandée qu'une fois. */
+  private static derivedKeys = new Map<string, Buffer>();
+
+  /**
+   * Crée le dossier ~/.appwizard s'il n'existe pas, accessible à l'utilisateur seul.
+   */
+  public static async ensureStorageDir(): Promise<void> {
+    if (!(await fs.pathExists(STORAGE_DIR))) {
+      await fs.mkdirp(STORAGE_DIR, { mode: SECRET_DIR_MODE });
+    }
+  }
+
+  /**
+   * Écrit un fichier JSON de secrets avec les permissions 0600.
+   * Le contenu est écrit dans un fichier temporaire puis renommé : une interruption
+   * ne laisse jamais un fichier tronqué à la place de l'ancien.
+   *
+   * @param file Chemin du fichier.
+   * @param data Contenu à sérialiser.
+   */
+  public static async writeSecretFile(file: string, data: unknown): Promise<void> {
+    await KeystoreService.ensureStorageDir();
+    await fs.mkdirp(path.dirname(file), { mode: SECRET_DIR_MODE });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    try {
+      await fs.writeJSON(tmpFile, data, { spaces: 2, mode: SECRET_FILE_MODE });
+      await fs.chmod(tmpFile, SECRET_FILE_MODE);
+      await fs.rename(tmpFile, file);
+    } finally {
+      await fs.remove(tmpFile);
+    }
+  }
+
+  /**
+   * Retourne la clé machine, en la générant si elle n'existe pas encore.
+   * @param create Génère la clé si elle est absente (sinon lève une erreur).
+   * @throws AuthError si la clé est absente et que `create` est faux.
+   */
+  public static async getMachineKey(create: boolean = true): Promise<Buffer> {
+    if (await fs.pathExists(MASTER_KEY_FILE)) {
+      return KeystoreService.readMachineKey();
+    }
+    if (!create) {
+      throw new AuthError(t('keystore.error.noMachineKey', { file: MASTER_KEY_FILE }));
+    }
+    const key = randomBytes();
+    await KeystoreService.ensureStorageDir();
+    try {
+      // création exclusive : deux premières invocations simultanées ne s'écrasent pas
+      await fs.writeFile(MASTER_KEY_FILE, key.toString('base64'), { flag: 'wx', mode: SECRET_FILE_MODE });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      // clé créée entre-temps par une autre invocation : c'est elle qui chiffre les secrets
+      return KeystoreService.readMachineKey();
+    }
+    logger.debug(`Machine key created: ${MASTER_KEY_FILE}`);
+    return key;
+  }
+
+  /**
+   * Dérive la clé associée à une passphrase et à un sel.
+   * La passphrase est lue dans `APPWIZARD_PASSPHRASE`, sinon demandée à l'utilisateur.
+   *
+   * @param salt    Sel du fichier chiffré (base64).
+   * @param confirm Demande une confirmation de saisie (nouvelle passphrase).
+   * @throws AuthError si aucune passphrase ne peut être obtenue en mode non interactif.
+   */
+  public static async getPassphraseKey(salt: string, confirm: boolean = false): Promise<Buffer> {
+    const cached = KeystoreService.derivedKeys.get(salt);
+    if (cached) {
+      return cached;
+    }
+    const passphrase = await KeystoreService.askPassphrase(confirm);
+    const key = deriveKey(passphrase, Buffer.from(salt, 'base64'));
+    KeystoreService.derivedKeys.set(salt, key);
+    return key;
+  }
+
+  /**
+   * Oublie la clé dérivée d'un sel (passphrase incorrecte), pour qu'elle soit redemandée.
+   * @param salt Sel du fichier chiffré (base64).
+   */
+  public static forgetPassphraseKey(salt: string): void {
+    KeystoreService.derivedKeys.delete(salt);
+  }
+
+  /**
+   * Génère un nouveau sel pour une clé dérivée de passphrase (base64).
+   */
+  public static newSalt(): string {
+    return randomBytes(16).toString('base64');
+  }
+
+  /**
+   * Obtient la passphrase depuis l'environnement ou une saisie masquée.
+   * @param confirm Demande une seconde saisie identique.
+   */
+  private static async askPassphrase(confirm: boolean): Promise<string> {
+    const fromEnv = process.env.APPWIZARD_PASSPHRASE;
+    if (fromEnv) {
+      logger.addSecret(fromEnv);
+      return fromEnv;
+    }
+    if (!isInteractive()) {
+      throw new AuthError(t('keystore.error.passphraseRequired'));
+    }
+
+    const { passphrase } = await prompts({
+      type: 'password',
+      name: 'passphrase',
+      message: t('keystore.prompt.passphrase'),
+    });
+    if (!passphrase) {
+      throw new UsageError(t('keystore.error.emptyPassphrase'));
+    }
+    if (confirm) {
+      const { again } = await prompts({
+        type: 'password',
+        name: 'again',
+        message: t('keystore.prompt.confirm'),
+      });
+      if (again !== passphrase) {
+        throw new UsageError(t('keystore.error.mismatch'));
+      }
+    }
+    logger.addSecret(passphrase);
+    return passphrase;
+  }
+
+  /**
+   * Lit la clé machine ; un fichier encore vide (création en cours par une autre invocation)
+   * est relu brièvement.
+   */
+  private static async readMachineKey(): Promise<Buffer> {
+    const deadline = Date.now() + MASTER_KEY_WAIT_MS;
+    for (;;) {
+      const content = (await fs.readFile(MASTER_KEY_FILE, 'utf8')).trim();
+      if (content || Date.now() >= deadline) {
+        return Buffer.from(content, 'base64');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * @module services/logger-service
+ * Logger central du CLI : niveaux de log, fichier de log optionnel
+ * et masquage automatique des tokens et secrets.
+ */
+
+import fs from 'fs-extra';
+import { format } from 'util';
+import { isJsonMode } from '../utils/output-utils.js';
+import { t } from '../i18n/index.js';
+
+/**
+ * Niveaux de log, du plus verbeux au plus silencieux.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_WEIGHT: Record<LogLevel, number> = {
+  debug: 10,
+  info:  20,
+  warn:  30,
+  error: 40,
+};
+
+const REDACTED = '[REDACTED]';
+
+/** Tokens JWT (header.payload.signature). */
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+/** En-têtes `Authorization: Bearer …`. */
+const BEARER_PATTERN = /(Bearer\s+)[\w.~+/-]+=*/gi;
+/** Paires clé/valeur dont la clé désigne un secret (JSON, objets inspectés, `clé=valeur`). */
+const SECRET_FIELD_PATTERN =
+  /((?:["']?)(?:access_?token|refresh_?token|token|client_?secret|secret|password|passphrase)(?:["']?)\s*[:=]\s*)("[^"]*"|'[^']*'|[^\s,}]+)/gi;
+/** Séquences d'échappement ANSI (couleurs chalk). */
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Logger du CLI.
+ * - `debug` n'est affiché qu'avec `--verbose`, `info` est masqué par `--quiet`.
+ * - Les messages `debug`/`info` vont sur stdout, sauf en mode `--json` où ils sont
+ *   envoyés sur stderr pour ne pas polluer le document émis.
+ * - Avec `--log-file`, tous les messages (y compris `debug`) sont ajoutés au fichier, sans couleurs.
+ */
+export class LoggerService {
+  private level: LogLevel = 'info';
+  private logFile?: string;
+  private readonly secrets = new Set<string>();
+
+  /**
+   * Configure le niveau de log et le fichier de log.
+   * @param options.level   Niveau minimal affiché sur la console.
+   * @param options.logFile Chemin du fichier de log (optionnel).
+   */
+  public configure(options: { level?: LogLevel; logFile?: string }): void {
+    if (options.level) {
+      this.level = options.level;
+    }
+    this.logFile = options.logFile;
+  }
+
+  /**
+   * Enregistre une valeur sensible qui sera masquée dans tous les messages.
+   * @param value Valeur à masquer (ignorée si vide).
+   */
+  public addSecret(value: string | undefined): void {
+    if (value && value.length >= 4) {
+      this.secrets.add(value);
+    }
+  }
+
+  /**
+   * Masque les tokens et secrets connus dans un texte.
+   * @param text Texte à nettoyer.
+   */
+  public redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    return result
+      .replace(JWT_PATTERN, REDACTED)
+      .replace(BEARER_PATTERN, `$1${REDACTED}`)
+      .replace(SECRET_FIELD_PATTERN, (_match, key: string, value: string) => {
+        const quote = value[0] === '"' || value[0] === "'" ? value[0] : '';
+        return `${key}${quote}${REDACTED}${quote}`;
+      });
+  }
+
+  /** Message de diagnostic, affiché uniquement avec `--verbose`. */
+  public debug(...args: unknown[]): void {
+    this.write('debug', args);
+  }
+
+  /** Message d'information. */
+  public info(...args: unknown[]): void {
+    this.write('info', args);
+  }
+
+  /** Avertissement. */
+  public warn(...args: unknown[]): void {
+    this.write('warn', args);
+  }
+
+  /** Erreur. */
+  public error(...args: unknown[]): void {
+    this.write('error', args);
+  }
+
+  private write(level: LogLevel, args: unknown[]): void {
+    const message = this.redact(format(...args));
+
+    if (this.logFile) {
+      const line = `${new Date().toISOString()} [${level.toUpperCase()}] ${message.replace(ANSI_PATTERN, '')}\n`;
+      try {
+        fs.appendFileSync(this.logFile, line, 'utf8');
+      } catch (error) {
+        // un fichier de log devenu inaccessible ne doit pas empêcher l'affichage (ni le rapport d'erreur)
+        const file = this.logFile;
+        this.logFile = undefined;
+        process.stderr.write(`${t('logger.fileDisabled', { file, detail: (error as Error).message })}\n`);
+      }
+    }
+
+    if (LEVEL_WEIGHT[level] < LEVEL_WEIGHT[this.level]) {
+      return;
+    }
+    const toStderr = level === 'warn' || level === 'error' || isJsonMode();
+    (toStderr ? process.stderr : process.stdout).write(`${message}\n`);
+  }
+}
+
+/** Instance partagée du logger. */
+export const logger = new LoggerService();
@@ -0,0 +1,172 @@
+/**
+ * @module services/login-callback-service
+ * Réception d'un Service Account créé dans le navigateur (login `web`) :
+ * un serveur HTTP temporaire écoute sur 127.0.0.1, et le frontend poste les
+ * credentials sur son URL de callback avec le paramètre `state` à usage unique.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import open from 'open';
+import type { ServiceAccount } from '../types/auth.js';
+import { AuthError } from '../errors/app-wizard-errors.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+const CALLBACK_PATH = '/callback';
+/** Délai laissé à l'utilisateur pour créer le Service Account. */
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+/** Taille maximale du corps accepté (les credentials tiennent en quelques centaines d'octets). */
+const MAX_BODY_BYTES = 64 * 1024;
+
+export class LoginCallbackService {
+  /**
+   * Ouvre la page de création de Service Account du frontend et attend que
+   * celui-ci poste les credentials sur le serveur local.
+   *
+   * La page reçoit `redirect_uri` (URL du callback) et `state` ; elle doit poster
+   * `{ state, clientId, clientSecret }` en JSON ou en formulaire sur `redirect_uri`.
+   * Une requête au `state` incorrect est refusée sans interrompre l'attente.
+   *
+   * @param frontendUrl URL du frontend du profil.
+   * @param timeoutMs   Délai d'attente maximal.
+   * @returns Les credentials reçus.
+   * @throws AuthError si aucun Service Account n'est reçu dans le délai.
+   */
+  public static async receiveServiceAccount(
+    frontendUrl: string,
+    timeoutMs: number = CALLBACK_TIMEOUT_MS
+  ): Promise<ServiceAccount> {
+    const state  = crypto.randomBytes(32).toString('hex');
+    const origin = new URL(frontendUrl).origin;
+
+    let onReceived!: (sa: ServiceAccount) => void;
+    const received = new Promise<ServiceAccount>(resolve => { onReceived = resolve; });
+
+    const server = http.createServer((req, res) => {
+      LoginCallbackService.handleRequest(req, res, origin, state)
+        .then(sa => sa && onReceived(sa))
+        .catch(error => logger.debug('Login callback error:', error));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const { port } = server.address() as AddressInfo;
+      const redirectUri = `http://127.0.0.1:${port}${CALLBACK_PATH}`;
+      const url = `${frontendUrl}/service-account-creation?${new URLSearchParams({ redirect_uri: redirectUri, state })}`;
+      logger.debug(`Login callback listening on ${redirectUri}`);
+
+      logger.info(t('login.openingBrowser'));
+      logger.info(t('login.browserUrl', { url }));
+      try {
+        await open(url);
+      } catch (error) {
+        logger.debug('Browser not opened:', error);
+      }
+      logger.info(t('login.waitingCallback'));
+
+      const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new AuthError(t('login.error.callbackTimeout', { seconds: Math.round(timeoutMs / 1000) }))),
+          timeoutMs
+        );
+      });
+      return await Promise.race([received, timeout]);
+    } finally {
+      clearTimeout(timer);
+      server.closeAllConnections?.();
+      server.close();
+    }
+  }
+
+  /**
+   * Traite une requête reçue sur le serveur local.
+   * @returns Les credentials si la requête est un callback valide, sinon `undefined`.
+   */
+  private static async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    origin: string,
+    state: string
+  ): Promise<ServiceAccount | undefined> {
+    // le frontend poste depuis son origine : requête CORS
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    const { pathname } = new URL(req.url ?? '/', 'http://127.0.0.1');
+    if (pathname !== CALLBACK_PATH) {
+      return LoginCallbackService.reply(res, 404, 'Not found');
+    }
+    if (req.method === 'OPTIONS') {
+      return LoginCallbackService.reply(res, 204);
+    }
+    if (req.method !== 'POST') {
+      return LoginCallbackService.reply(res, 405, 'Method not allowed');
+    }
+
+    let fields: Record<string, unknown>;
+    try {
+      fields = LoginCallbackService.parseBody(await LoginCallbackService.readBody(req), req.headers['content-type']);
+    } catch {
+      return LoginCallbackService.reply(res, 400, 'Invalid body');
+    }
+
+    if (typeof fields.state !== 'string' || !LoginCallbackService.sameState(fields.state, state)) {
+      logger.warn(t('login.callbackRejected'));
+      return LoginCallbackService.reply(res, 403, 'Invalid state');
+    }
+    if (typeof fields.clientId !== 'string' || !fields.clientId
+      || typeof fields.clientSecret !== 'string' || !fields.clientSecret) {
+      return LoginCallbackService.reply(res, 400, 'clientId and clientSecret are required');
+    }
+
+    LoginCallbackService.reply(res, 200, t('login.callbackPage'));
+    return { clientId: fields.clientId, clientSecret: fields.clientSecret };
+  }
+
+  /** Compare le `state` reçu à celui attendu en temps constant. */
+  private static sameState(received: string, expected: string): boolean {
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  /** Lit le corps de la requête, dans la limite de {@link MAX_BODY_BYTES}. */
+  private static async readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new Error('Body too large');
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  /** Décode un corps JSON ou `application/x-www-form-urlencoded`. */
+  private static parseBody(body: string, contentType: string | undefined): Record<string, unknown> {
+    if (contentType?.startsWith('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(body));
+    }
+    const json = JSON.parse(body);
+    if (!json || typeof json !== 'object') {
+      throw new Error('Invalid JSON body');
+    }
+    return json as Record<string, unknown>;
+  }
+
+  /** Termine la réponse avec un statut et un texte. */
+  private static reply(res: http.ServerResponse, status: number, text: string = ''): undefined {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', Connection: 'close' });
+    res.end(text);
+    return undefined;
+  }
+}
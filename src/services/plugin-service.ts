@@ -0,0 +1,135 @@
+/**
+ * @module services/plugin-service
+ * Charge les plugins de commandes du projet courant :
+ * - les fichiers `containers/appwizard-plugins/*.js`,
+ * - les paquets npm listés dans la clé `plugins` de `containers/template.yaml`,
+ *   résolus depuis les `node_modules` du projet.
+ * Un plugin invalide est signalé sans empêcher le CLI de fonctionner.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { Command } from 'commander';
+import type { AppWizardPlugin, PluginContext } from '../types/plugin.js';
+import type { TemplateConfig } from '../types/template-config.js';
+import { ProjectService } from './project-service.js';
+import { TemplateConfigService } from './template-config-service.js';
+import { ServiceConfigManager } from './service-config-manager.js';
+import { AuthService } from './auth-service.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+/** Dossier des plugins locaux, relatif à la racine du projet. */
+const PLUGINS_DIR = path.join('containers', 'appwizard-plugins');
+
+/** Plugin à charger : nom affiché et résolution différée de son chemin. */
+interface PluginSource {
+  name: string;
+  resolve: () => string;
+}
+
+export class PluginService {
+  /**
+   * Charge et enregistre les plugins du projet englobant le répertoire de travail.
+   * Sans projet, aucun plugin n'est chargé.
+   *
+   * @param program Commande racine du CLI, sur laquelle les plugins déclarent leurs commandes.
+   * @returns Les noms des plugins enregistrés.
+   */
+  public static async loadPlugins(program: Command): Promise<string[]> {
+    const root = ProjectService.findProjectRoot();
+    if (!root) {
+      return [];
+    }
+
+    let templateConfig: TemplateConfig;
+    try {
+      templateConfig = await TemplateConfigService.loadTemplateConfig();
+    } catch (error) {
+      logger.warn(t('plugin.error.templateConfig', { error: error instanceof Error ? error.message : String(error) }));
+      return [];
+    }
+
+    const sources = [
+      ...await PluginService.listLocalPlugins(root),
+      ...PluginService.listPackagePlugins(root, templateConfig.plugins),
+    ];
+    if (sources.length === 0) {
+      return [];
+    }
+
+    const context: PluginContext = {
+      root,
+      templateConfig,
+      serviceConfigManager: ServiceConfigManager,
+      authService:          new AuthService(),
+      logger,
+    };
+
+    const loaded: string[] = [];
+    for (const { name, resolve } of sources) {
+      try {
+        const plugin = await PluginService.importPlugin(resolve());
+        await plugin.register(program, context);
+        loaded.push(plugin.name ?? name);
+        logger.debug(`Plugin loaded: ${plugin.name ?? name}`);
+      } catch (error) {
+        // seule la première ligne est affichée (sans la « Require stack » de Node)
+        const detail = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+        logger.warn(t('plugin.error.load', { plugin: name, error: detail }));
+      }
+    }
+    return loaded;
+  }
+
+  /**
+   * Liste les fichiers `*.js` du dossier des plugins locaux, par ordre alphabétique.
+   */
+  private static async listLocalPlugins(root: string): Promise<PluginSource[]> {
+    const dir = path.join(root, PLUGINS_DIR);
+    if (!(await fs.pathExists(dir))) {
+      return [];
+    }
+    const files = (await fs.readdir(dir)).filter(file => file.endsWith('.js')).sort();
+    return files.map(file => ({
+      name:    path.join(PLUGINS_DIR, file),
+      resolve: () => path.join(dir, file),
+    }));
+  }
+
+  /**
+   * Liste les paquets npm déclarés dans `template.yaml` (clé `plugins`).
+   * @param root     Racine du projet, depuis laquelle les paquets sont résolus.
+   * @param packages Valeur de la clé `plugins`.
+   */
+  private static listPackagePlugins(root: string, packages: unknown): PluginSource[] {
+    if (packages === undefined || packages === null) {
+      return [];
+    }
+    if (!Array.isArray(packages) || packages.some(name => typeof name !== 'string')) {
+      logger.warn(t('plugin.error.invalidList'));
+      return [];
+    }
+    const requireFromProject = createRequire(path.join(root, 'package.json'));
+    return (packages as string[]).map(name => ({
+      name,
+      resolve: () => requireFromProject.resolve(name),
+    }));
+  }
+
+  /**
+   * Importe un module de plugin et vérifie qu'il exporte un plugin valide.
+   * @param file Chemin absolu du module.
+   * @throws Error si le module n'exporte pas de fonction `register`.
+   */
+  private static async importPlugin(file: string): Promise<AppWizardPlugin> {
+    const mod = await import(pathToFileURL(file).href);
+    const plugin = (mod.default ?? mod) as Partial<AppWizardPlugin>;
+    if (typeof plugin?.register !== 'function') {
+      throw new Error(t('plugin.error.noRegister'));
+    }
+    return plugin as AppWizardPlugin;
+  }
+}
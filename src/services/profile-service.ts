@@ -0,0 +1,184 @@
+/**
+ * @module services/profile-service
+ * Gère les profils d'authentification (`~/.appwizard/profiles.json`) :
+ * profil courant, endpoints propres à chaque profil et emplacement
+ * du Service Account associé (`~/.appwizard/credentials/<profil>.json`).
+ * Le profil actif est celui de `--profile`, sinon le profil courant du fichier.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import type { ProfileConfig, ProfilesFile } from '../types/profile.js';
+import { ConfigError, UsageError } from '../errors/app-wizard-errors.js';
+import { KeystoreService, STORAGE_DIR } from './keystore-service.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILES_FILE   = path.join(STORAGE_DIR, 'profiles.json');
+const CREDENTIALS_DIR = path.join(STORAGE_DIR, 'credentials');
+/** Fichier unique des versions sans profils, migré vers le profil par défaut. */
+const LEGACY_SERVICE_ACCOUNT_FILE = path.join(STORAGE_DIR, 'service-account.json');
+
+/** Noms de profil autorisés (utilisés comme nom de fichier). */
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+export class ProfileService {
+  /** Profil sélectionné par `--profile` pour l'invocation courante. */
+  private static selectedProfile?: string;
+
+  /**
+   * Sélectionne le profil de l'invocation courante (option `--profile`).
+   * @param name Nom du profil, ou `undefined` pour utiliser le profil courant.
+   * @throws UsageError si le nom est invalide.
+   */
+  public static setActiveProfile(name: string | undefined): void {
+    if (name !== undefined) {
+      ProfileService.assertValidName(name);
+    }
+    ProfileService.selectedProfile = name;
+  }
+
+  /**
+   * Retourne le nom du profil actif : `--profile`, sinon le profil courant.
+   */
+  public static async getActiveProfileName(): Promise<string> {
+    return ProfileService.selectedProfile ?? await ProfileService.getCurrentProfileName();
+  }
+
+  /**
+   * Retourne le nom du profil courant (utilisé en l'absence de `--profile`).
+   */
+  public static async getCurrentProfileName(): Promise<string> {
+    return (await ProfileService.load()).current;
+  }
+
+  /**
+   * Retourne la configuration d'un profil.
+   * @param name Nom du profil.
+   * @returns La configuration, ou `undefined` si le profil n'existe pas.
+   */
+  public static async getProfile(name: string): Promise<ProfileConfig | undefined> {
+    return (await ProfileService.load()).profiles[name];
+  }
+
+  /**
+   * Liste les profils connus, par ordre alphabétique.
+   */
+  public static async listProfiles(): Promise<string[]> {
+    return Object.keys((await ProfileService.load()).profiles).sort();
+  }
+
+  /**
+   * Crée ou met à jour un profil.
+   * @param name   Nom du profil.
+   * @param config Configuration du profil.
+   */
+  public static async saveProfile(name: string, config: ProfileConfig): Promise<void> {
+    ProfileService.assertValidName(name);
+    const file = await ProfileService.load();
+    file.profiles[name] = config;
+    await ProfileService.save(file);
+  }
+
+  /**
+   * Définit le profil courant (utilisé en l'absence de `--profile`).
+   * @param name Nom du profil.
+   * @throws ConfigError si le profil n'existe pas.
+   */
+  public static async useProfile(name: string): Promise<void> {
+    const file = await ProfileService.load();
+    if (!file.profiles[name]) {
+      throw new ConfigError(t('profile.error.unknown', { profile: name, profiles: Object.keys(file.profiles).join(', ') }));
+    }
+    file.current = name;
+    await ProfileService.save(file);
+  }
+
+  /**
+   * Supprime un profil et son Service Account.
+   * Si le profil supprimé était le profil courant, le profil par défaut (ou le premier restant) le remplace.
+   *
+   * @param name Nom du profil.
+   * @throws ConfigError si le profil n'existe pas.
+   */
+  public static async removeProfile(name: string): Promise<void> {
+    const file = await ProfileService.load();
+    if (!file.profiles[name]) {
+      throw new ConfigError(t('profile.error.unknown', { profile: name, profiles: Object.keys(file.profiles).join(', ') }));
+    }
+    delete file.profiles[name];
+    await fs.remove(ProfileService.getCredentialsPath(name));
+
+    if (file.current === name) {
+      const remaining = Object.keys(file.profiles).sort();
+      file.current = remaining.includes(DEFAULT_PROFILE) || remaining.length === 0 ? DEFAULT_PROFILE : remaining[0];
+      if (!file.profiles[file.current]) {
+        file.profiles[file.current] = {};
+      }
+    }
+    await ProfileService.save(file);
+  }
+
+  /**
+   * Chemin du fichier de Service Account d'un profil.
+   * @param name Nom du profil.
+   */
+  public static getCredentialsPath(name: string): string {
+    return path.join(CREDENTIALS_DIR, `${name}.json`);
+  }
+
+  /**
+   * Vérifie qu'un nom de profil est utilisable comme nom de fichier.
+   * @throws UsageError si le nom est invalide.
+   */
+  private static assertValidName(name: string): void {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new UsageError(t('profile.error.invalidName', { profile: name }));
+    }
+  }
+
+  /**
+   * Charge le fichier des profils ; en son absence, seul le profil par défaut existe.
+   * Le fichier n'est écrit qu'à la première modification, ou pour migrer
+   * le Service Account des versions précédentes vers le profil par défaut.
+   */
+  private static async load(): Promise<ProfilesFile> {
+    if (await fs.pathExists(PROFILES_FILE)) {
+      try {
+        const file = await fs.readJSON(PROFILES_FILE) as Partial<ProfilesFile>;
+        return {
+          current:  file.current ?? DEFAULT_PROFILE,
+          profiles: file.profiles ?? { [DEFAULT_PROFILE]: {} },
+        };
+      } catch (error) {
+        throw new ConfigError(t('profile.error.read', { file: PROFILES_FILE }), error);
+      }
+    }
+
+    const file: ProfilesFile = { current: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: {} } };
+    if (await fs.pathExists(LEGACY_SERVICE_ACCOUNT_FILE)) {
+      const dest = ProfileService.getCredentialsPath(DEFAULT_PROFILE);
+      if (await fs.pathExists(dest)) {
+        // le profil par défaut a déjà un Service Account : il n'est jamais écrasé
+        logger.warn(t('profile.legacyKept', { legacy: LEGACY_SERVICE_ACCOUNT_FILE, dest }));
+      } else {
+        try {
+          await fs.move(LEGACY_SERVICE_ACCOUNT_FILE, dest, { overwrite: false });
+        } catch (error) {
+          throw new ConfigError(t('profile.error.migrate', { legacy: LEGACY_SERVICE_ACCOUNT_FILE, dest }), error);
+        }
+        logger.debug(`Service account migrated to profile "${DEFAULT_PROFILE}"`);
+      }
+      await ProfileService.save(file);
+    }
+    return file;
+  }
+
+  /** Sauvegarde le fichier des profils. */
+  private static async save(file: ProfilesFile): Promise<void> {
+    await KeystoreService.ensureStorageDir();
+    await fs.writeJSON(PROFILES_FILE, file, { spaces: 2 });
+  }
+}
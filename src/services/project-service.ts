@@ -0,0 +1,81 @@
+/**
+ * @module services/project-service
+ * Localise la racine du projet appwizard : le dossier le plus proche, en remontant
+ * depuis le répertoire de travail (ou `--cwd`), qui contient `containers/template.yaml`
+ * et un fichier docker-compose. Tous les services résolvent leurs chemins depuis cette racine.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import { ConfigError } from '../errors/app-wizard-errors.js';
+import { t } from '../i18n/index.js';
+
+/** Fichiers docker-compose dont la présence identifie la racine du projet. */
+const COMPOSE_FILES = ['docker-compose.dev.yml', 'docker-compose.prod.yml', 'docker-compose.yml'];
+
+export class ProjectService {
+  private static workingDirectory: string = process.cwd();
+  private static projectRoot?: string;
+
+  /**
+   * Définit le répertoire de départ de la recherche (option `--cwd`).
+   * @param dir Répertoire de travail (relatif ou absolu).
+   */
+  public static setWorkingDirectory(dir: string): void {
+    ProjectService.workingDirectory = path.resolve(dir);
+    ProjectService.projectRoot = undefined;
+  }
+
+  /**
+   * Retourne le répertoire de travail effectif (`--cwd` ou répertoire courant).
+   */
+  public static getWorkingDirectory(): string {
+    return ProjectService.workingDirectory;
+  }
+
+  /**
+   * Indique si un dossier est la racine d'un projet appwizard.
+   * @param dir Dossier à tester.
+   */
+  public static isProjectRoot(dir: string): boolean {
+    return fs.pathExistsSync(path.join(dir, 'containers', 'template.yaml'))
+      && COMPOSE_FILES.some(file => fs.pathExistsSync(path.join(dir, file)));
+  }
+
+  /**
+   * Remonte l'arborescence depuis `startDir` jusqu'à trouver la racine du projet.
+   * @param startDir Dossier de départ (répertoire de travail par défaut).
+   * @returns La racine trouvée, ou `undefined` si aucun projet n'englobe `startDir`.
+   */
+  public static findProjectRoot(startDir: string = ProjectService.workingDirectory): string | undefined {
+    let dir = path.resolve(startDir);
+    while (true) {
+      if (ProjectService.isProjectRoot(dir)) {
+        return dir;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Retourne la racine du projet courant (mise en cache).
+   * @throws ConfigError si aucun projet n'est trouvé.
+   */
+  public static getProjectRoot(): string {
+    if (!ProjectService.projectRoot) {
+      const root = ProjectService.findProjectRoot();
+      if (!root) {
+        throw new ConfigError(t('project.error.notFound', {
+          dir:      ProjectService.workingDirectory,
+          expected: ['containers/template.yaml', COMPOSE_FILES.join(' / ')].join(' + '),
+        }));
+      }
+      ProjectService.projectRoot = root;
+    }
+    return ProjectService.projectRoot;
+  }
+}
@@ -3,6 +3,10 @@ import path from 'path';
 import chalk from 'chalk';
 import { Environment } from './docker-compose-service.js';
 import { ServiceConfigManager } from './service-config-manager.js';
+import { ConfigError } from '../errors/app-wizard-errors.js';
+import { writeTextFile } from '../utils/operation-utils.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
 
 /**
  * Service de gestion des secrets.
@@ -65,7 +69,7 @@ export class SecretManagerService {
     const existingKeys = await this.readEnvFileKeys(filePath);
     for (const key of requiredKeys) {
       if (!existingKeys.has(key)) {
-        console.log(chalk.yellow(`Clé manquante dans ${path.basename(filePath)} : ${key}`));
+        logger.info(chalk.yellow(t('secrets.missingKey', { file: path.basename(filePath), key })));
         return false;
       }
     }
@@ -95,12 +99,12 @@ export class SecretManagerService {
    */
   static async repairEnvFile(filePath: string, env: Environment): Promise<void> {
     const requiredKeys = await this.getAllSecretKeys(env);
-    console.log(chalk.blue(`Clés requises pour ${path.basename(filePath)} : ${Array.from(requiredKeys).join(', ')}`));
+    logger.info(chalk.blue(t('secrets.requiredKeys', { file: path.basename(filePath), keys: Array.from(requiredKeys).join(', ') })));
     let content: string;
     if (await fs.pathExists(filePath)) {
       content = await fs.readFile(filePath, 'utf8');
     } else {
-      console.log(chalk.blue(`Création du fichier ${path.basename(filePath)}...`));
+      logger.info(chalk.blue(t('secrets.creatingFile', { file: path.basename(filePath) })));
       content = "# Fichier généré automatiquement. Veuillez renseigner les valeurs nécessaires.\n";
     }
     const existingKeys = await this.readEnvFileKeys(filePath);
@@ -111,15 +115,15 @@ export class SecretManagerService {
         appendContent += `${key}=\n`;
       }
       content = content + appendContent;
-      await fs.writeFile(filePath, content, 'utf8');
-      console.log(chalk.green(`${path.basename(filePath)} mis à jour avec ${missingKeys.length} clé(s) manquante(s).`));
+      await writeTextFile(filePath, content);
+      logger.info(chalk.green(t('secrets.updated', { file: path.basename(filePath), count: missingKeys.length })));
     } else {
       // Si le fichier n'existait pas, on l'écrit pour le créer.
       if (!(await fs.pathExists(filePath))) {
-        await fs.writeFile(filePath, content, 'utf8');
-        console.log(chalk.green(`${path.basename(filePath)} créé.`));
+        await writeTextFile(filePath, content);
+        logger.info(chalk.green(t('secrets.created', { file: path.basename(filePath) })));
       } else {
-        console.log(chalk.blue(`${path.basename(filePath)} contient déjà toutes les clés requises.`));
+        logger.info(chalk.blue(t('secrets.complete', { file: path.basename(filePath) })));
       }
     }
   }
@@ -148,7 +152,7 @@ export class SecretManagerService {
   }> {
     const envProdPath = path.join(targetDir, '.env.prod');
     if (!(await fs.pathExists(envProdPath))) {
-      throw new Error(`Le fichier .env.prod est introuvable dans ${targetDir}`);
+      throw new ConfigError(t('env.error.prodMissing', { dir: targetDir }));
     }
     const content = await fs.readFile(envProdPath, 'utf8');
     const lines = content.split(/\r?\n/);
@@ -173,9 +177,9 @@ export class SecretManagerService {
       }
     }
     if (!POSTGRES_USER || !POSTGRES_PASSWORD || !DATABASE_URL) {
-      throw new Error("Les secrets de la base de données ne sont pas correctement renseignés dans .env.prod");
+      throw new ConfigError(t('secrets.error.dbIncomplete'));
     }
-    console.log(chalk.green("Secrets de la base de données récupérés avec succès."));
+    logger.info(chalk.green(t('secrets.dbLoaded')));
     return { POSTGRES_USER, POSTGRES_PASSWORD, DATABASE_URL };
   }
 }
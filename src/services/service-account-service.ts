@@ -0,0 +1,102 @@
+/**
+ * @module services/service-account-service
+ * Gère le cycle de vie des Service Accounts auprès du backend
+ * (`/auth/services-accounts`) : liste, rotation du secret et révocation.
+ */
+
+import { AuthService } from './auth-service.js';
+import { BackendClient } from './backend-client.js';
+import { ProfileService } from './profile-service.js';
+import type { RemoteServiceAccount, ServiceAccount } from '../types/auth.js';
+import { AuthError, UsageError } from '../errors/app-wizard-errors.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+const SERVICE_ACCOUNTS_PATH = '/auth/services-accounts';
+
+export class ServiceAccountService {
+  /**
+   * Liste les Service Accounts du compte propriétaire du Service Account du profil.
+   * @param profile Profil dont le backend et le Service Account sont utilisés.
+   */
+  public static async list(profile?: string): Promise<RemoteServiceAccount[]> {
+    const { data } = await BackendClient.request<RemoteServiceAccount[]>({
+      path:    SERVICE_ACCOUNTS_PATH,
+      context: t('serviceAccount.error.list'),
+      profile,
+    });
+    return Array.isArray(data) ? data : [];
+  }
+
+  /**
+   * Génère un nouveau secret pour le Service Account enregistré du profil, l'enregistre
+   * puis vérifie qu'il permet d'obtenir un token.
+   *
+   * Les secrets stockés sont déchiffrés avant l'appel au backend (passphrase). Dès que le backend
+   * a renouvelé le secret, l'ancien n'est plus valide : le nouveau est donc enregistré avant
+   * d'être vérifié (avec les nouvelles tentatives de {@link BackendClient}) ; s'il ne peut pas
+   * être enregistré, il est affiché une seule fois pour ne pas être perdu.
+   *
+   * @param profile Profil dont le Service Account est renouvelé.
+   * @returns L'identifiant du Service Account.
+   * @throws UsageError si les credentials viennent de l'environnement ou de `--credentials-file`.
+   * @throws AuthError si le nouveau secret ne peut pas être enregistré ou vérifié.
+   */
+  public static async rotate(profile?: string): Promise<string> {
+    const name = profile ?? await ProfileService.getActiveProfileName();
+    const auth = new AuthService(name);
+    if (await auth.getCredentialSource() !== 'stored') {
+      throw new UsageError(t('serviceAccount.error.rotateNotStored'));
+    }
+    // déchiffre les secrets avant tout appel : une passphrase erronée n'invalide rien
+    const current = await auth.getServiceAccount();
+    if (!current) {
+      throw new AuthError(t('auth.error.noServiceAccount', { profile: name }));
+    }
+
+    const { data } = await BackendClient.request<Partial<ServiceAccount>>({
+      method:  'POST',
+      path:    `${SERVICE_ACCOUNTS_PATH}/${encodeURIComponent(current.clientId)}/rotate`,
+      context: t('serviceAccount.error.rotate'),
+      profile: name,
+      // non idempotent : une réponse perdue ne doit pas renouveler le secret une seconde fois
+      retry:   false,
+    });
+    if (!data?.clientSecret) {
+      throw new AuthError(t('serviceAccount.error.rotateResponse'));
+    }
+    const rotated: ServiceAccount = { clientId: data.clientId ?? current.clientId, clientSecret: data.clientSecret };
+    logger.addSecret(rotated.clientSecret);
+
+    try {
+      await auth.storeRotatedServiceAccount(rotated);
+    } catch (error) {
+      // sortie non masquée : c'est la seule copie du nouveau secret
+      process.stderr.write(`${rotated.clientId}:${rotated.clientSecret}\n`);
+      throw new AuthError(t('serviceAccount.error.rotateSave', { clientId: rotated.clientId }), error);
+    }
+    try {
+      await auth.getAccessToken({ forceRefresh: true });
+    } catch (error) {
+      throw new AuthError(t('serviceAccount.error.rotateVerify', { clientId: rotated.clientId }), error);
+    }
+    return rotated.clientId;
+  }
+
+  /**
+   * Révoque un Service Account auprès du backend.
+   * @param clientId Identifiant du Service Account à révoquer.
+   * @param profile  Profil dont le backend et le Service Account sont utilisés.
+   */
+  public static async revoke(clientId: string, profile?: string): Promise<void> {
+    await BackendClient.request<unknown>({
+      method:        'DELETE',
+      path:          `${SERVICE_ACCOUNTS_PATH}/${encodeURIComponent(clientId)}`,
+      context:       t('serviceAccount.error.revoke', { clientId }),
+      profile,
+      notFoundError: UsageError,
+      // une nouvelle tentative après une réponse perdue recevrait un 404 trompeur
+      retry:         false,
+    });
+  }
+}
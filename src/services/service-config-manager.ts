@@ -4,6 +4,11 @@ import yaml from 'js-yaml';
 import { DockerComposeService, Environment } from './docker-compose-service.js';
 import { TemplateConfigService } from './template-config-service.js';
 import { ServiceConfig, ExtendedServiceConfig } from '../types/template-config.js';
+import { TemplateError } from '../errors/app-wizard-errors.js';
+import { writeTextFile } from '../utils/operation-utils.js';
+import { ProjectService } from './project-service.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
 
 export class ServiceConfigManager {
   /**
@@ -27,9 +32,9 @@ export class ServiceConfigManager {
       try {
         const fileContents = await fs.readFile(serviceConfigPath, 'utf8');
         config = (yaml.load(fileContents) as Partial<ServiceConfig> & { order?: number }) || {};
-        console.log(`Configuration trouvée pour ${serviceName}:`, config);
+        logger.debug(t('serviceConfig.found', { service: serviceName }), config);
       } catch (error) {
-        console.warn(`Erreur lors de la lecture de la config pour ${serviceName}: ${error}`);
+        logger.warn(t('serviceConfig.error.read', { service: serviceName, error: String(error) }));
       }
     }
   
@@ -52,7 +57,7 @@ export class ServiceConfigManager {
     };
   
     // Écrire la configuration dans le fichier. La librairie yaml.dump respectera l'ordre d'insertion.
-    await fs.writeFile(serviceConfigPath, yaml.dump(output));
+    await writeTextFile(serviceConfigPath, yaml.dump(output));
     return output;
   }  
 
@@ -69,11 +74,29 @@ export class ServiceConfigManager {
       const config = await ServiceConfigManager.checkConfigsAndRepair(serviceName, env);
       return config;
     } catch (error) {
-      console.warn(`Aucune configuration valide trouvée pour ${serviceName}: ${error}`);
+      logger.warn(t('serviceConfig.invalid', { service: serviceName, error: String(error) }));
       return null;
     }
   }
 
+  /**
+   * Liste les noms des services définis dans le fichier docker-compose.(dev|prod).yml,
+   * sans charger ni réparer leurs fichiers de configuration.
+   *
+   * @param env Environnement ('dev' ou 'prod').
+   * @returns Les noms des services, dans l'ordre du docker-compose.
+   */
+  static async listServiceNames(env: Environment): Promise<string[]> {
+    const composeFileName = DockerComposeService.getComposeFileName(env);
+    const composePath = DockerComposeService.getComposePath(env);
+    if (!(await fs.pathExists(composePath))) {
+      throw new TemplateError(t('compose.error.notFoundIn', { file: composeFileName, dir: ProjectService.getProjectRoot() }));
+    }
+    const composeContent = await fs.readFile(composePath, 'utf8');
+    const composeData: any = yaml.load(composeContent);
+    return Object.keys(composeData?.services || {});
+  }
+
   /**
    * Liste l'ensemble des services définis dans le fichier docker-compose.(dev|prod).yml.
    * Pour chaque service présent dans le docker-compose, tente de charger et réparer le fichier de configuration
@@ -84,14 +107,7 @@ export class ServiceConfigManager {
    * @returns La liste triée des configurations de service.
    */
   static async listServices(env: Environment): Promise<ExtendedServiceConfig[]> {
-    const composeFileName = DockerComposeService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
-    if (!(await fs.pathExists(composePath))) {
-      throw new Error(`Fichier ${composeFileName} introuvable dans ${process.cwd()}`);
-    }
-    const composeContent = await fs.readFile(composePath, 'utf8');
-    const composeData: any = yaml.load(composeContent);
-    const serviceNames: string[] = Object.keys(composeData.services || {});
+    const serviceNames = await ServiceConfigManager.listServiceNames(env);
     const services: ExtendedServiceConfig[] = [];
     for (const serviceName of serviceNames) {
       try {
@@ -100,7 +116,7 @@ export class ServiceConfigManager {
           services.push(config);
         }
       } catch (error) {
-        console.warn(`⚠️  Service '${serviceName}' ignoré: ${error}`);
+        logger.warn(t('serviceConfig.skipped', { service: serviceName, error: String(error) }));
       }
     }
     services.sort((a, b) => a.order - b.order);
@@ -115,11 +131,11 @@ export class ServiceConfigManager {
    */
   static async checkAllConfigs(env: Environment): Promise<void> {
     const templateConfig = await TemplateConfigService.checkTemplateConfig();
-    console.log(`Template: ${templateConfig.name} - Version: ${templateConfig.version}`);
+    logger.info(t('serviceConfig.template', { name: templateConfig.name, version: templateConfig.version }));
     const composeFileName = DockerComposeService.getComposeFileName(env);
-    const composePath = path.join(process.cwd(), composeFileName);
+    const composePath = DockerComposeService.getComposePath(env);
     if (!(await fs.pathExists(composePath))) {
-      console.warn(`⚠️ Fichier ${composeFileName} introuvable dans ${process.cwd()}`);
+      logger.warn(t('serviceConfig.composeMissing', { file: composeFileName, dir: ProjectService.getProjectRoot() }));
       return;
     }
     const composeContent = await fs.readFile(composePath, 'utf8');
@@ -128,9 +144,13 @@ export class ServiceConfigManager {
     for (const serviceName of serviceNames) {
       try {
         const serviceConfig = await ServiceConfigManager.checkConfigsAndRepair(serviceName, env);
-        console.log(`Service '${serviceName}' (order: ${serviceConfig.order}) configuré avec prodAddress: ${serviceConfig.prodAddress}`);
+        logger.info(t('serviceConfig.configured', {
+          service: serviceName,
+          order:   serviceConfig.order,
+          address: serviceConfig.prodAddress,
+        }));
       } catch (error) {
-        console.warn(`⚠️  Erreur lors de la vérification du service '${serviceName}': ${error}`);
+        logger.warn(t('serviceConfig.error.check', { service: serviceName, error: String(error) }));
       }
     }
   }
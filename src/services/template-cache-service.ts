@@ -0,0 +1,241 @@
+/**
+ * @module services/template-cache-service
+ * Cache local des archives de templates (`~/.appwizard/cache/templates`) :
+ * chaque archive est stockée sous son empreinte SHA-256 (`<sha256>.zip`) et
+ * l'index (`index.json`) associe identifiant et version de template à une archive.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import crypto from 'crypto';
+import AdmZip from 'adm-zip';
+import yaml from 'js-yaml';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ArchiveIntegrity, CachedTemplate, Template } from '../types/template.js';
+import { KeystoreService, STORAGE_DIR } from './keystore-service.js';
+import { TemplateIntegrityService } from './template-integrity-service.js';
+import { NetworkError, TemplateError } from '../errors/app-wizard-errors.js';
+import { isDryRun, removePath } from '../utils/operation-utils.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+const CACHE_DIR  = path.join(STORAGE_DIR, 'cache', 'templates');
+const INDEX_FILE = path.join(CACHE_DIR, 'index.json');
+
+/** Fichier de configuration du template, lu dans l'archive pour en déduire la version. */
+const TEMPLATE_CONFIG_ENTRY = 'containers/template.yaml';
+
+export class TemplateCacheService {
+  /**
+   * Enregistre une archive téléchargée dans le cache.
+   * L'archive est écrite dans un fichier temporaire pendant le calcul de son empreinte,
+   * vérifiée ({@link TemplateIntegrityService}), puis renommée ; une archive identique
+   * déjà présente est réutilisée. Une archive refusée n'est pas conservée.
+   *
+   * @param template  Template téléchargé.
+   * @param archive   Flux de l'archive ZIP.
+   * @param integrity Empreinte, taille et signature annoncées par le backend.
+   * @param version   Version annoncée par le backend, si connue.
+   * @returns L'entrée du cache.
+   * @throws TemplateError si l'archive est incomplète, altérée, mal signée ou n'est pas un ZIP valide.
+   * @throws NetworkError si le téléchargement est interrompu.
+   */
+  public static async store(
+    template: Template,
+    archive: Readable,
+    integrity: ArchiveIntegrity,
+    version?: string
+  ): Promise<CachedTemplate> {
+    await KeystoreService.ensureStorageDir();
+    await fs.mkdirp(CACHE_DIR);
+    const tmpFile = path.join(CACHE_DIR, `.download-${process.pid}-${Date.now()}.tmp`);
+    const hash    = crypto.createHash('sha256');
+    let size = 0;
+
+    try {
+      let interrupted: Error | undefined;
+      archive.on('data', (chunk: Buffer) => {
+        hash.update(chunk);
+        size += chunk.length;
+      });
+      archive.once('error', error => {
+        interrupted = error;
+      });
+      // en cas d'erreur, pipeline détruit les deux flux et attend la fermeture du fichier
+      try {
+        await pipeline(archive, fs.createWriteStream(tmpFile));
+      } catch (error) {
+        if (interrupted) {
+          // téléchargement interrompu : l'archive reçue est tronquée
+          throw new NetworkError(t('fetch.error.interrupted', { id: template.id, detail: interrupted.message }), interrupted);
+        }
+        throw error;
+      }
+
+      const sha256 = hash.digest('hex');
+      await TemplateIntegrityService.verifyDownload(template, tmpFile, { sha256, size }, integrity);
+
+      let zip: AdmZip;
+      try {
+        zip = new AdmZip(tmpFile);
+      } catch (e) {
+        throw new TemplateError(
+          t('fetch.error.invalidZip', { detail: e instanceof Error ? e.message : String(e) })
+        );
+      }
+
+      const file = path.join(CACHE_DIR, `${sha256}.zip`);
+      if (await fs.pathExists(file)) {
+        await fs.remove(tmpFile);
+      } else {
+        await fs.rename(tmpFile, file);
+      }
+
+      const now = new Date().toISOString();
+      const entry: CachedTemplate = {
+        id:          template.id,
+        name:        template.name,
+        ...(template.description ? { description: template.description } : {}),
+        version:     version ?? template.version ?? TemplateCacheService.readArchiveVersion(zip) ?? sha256.slice(0, 12),
+        sha256,
+        size,
+        ...(integrity.signature ? { signature: integrity.signature } : {}),
+        cachedAt:    now,
+        lastUsedAt:  now,
+      };
+      const index = (await TemplateCacheService.loadIndex())
+        .filter(other => other.id !== entry.id || other.version !== entry.version);
+      await TemplateCacheService.saveIndex([...index, entry]);
+      logger.debug(`Template ${entry.id}@${entry.version} cached: ${file}`);
+      return entry;
+    } finally {
+      await fs.remove(tmpFile);
+    }
+  }
+
+  /**
+   * Liste les templates en cache, par identifiant puis du plus récent au plus ancien.
+   * Les entrées dont l'archive a disparu sont ignorées.
+   */
+  public static async list(): Promise<CachedTemplate[]> {
+    const entries: CachedTemplate[] = [];
+    for (const entry of await TemplateCacheService.loadIndex()) {
+      if (await fs.pathExists(TemplateCacheService.getArchivePath(entry))) {
+        entries.push(entry);
+      }
+    }
+    return entries.sort((a, b) => a.id.localeCompare(b.id) || b.cachedAt.localeCompare(a.cachedAt));
+  }
+
+  /**
+   * Liste la version la plus récemment mise en cache de chaque template.
+   */
+  public static async latest(): Promise<CachedTemplate[]> {
+    const latest = new Map<string, CachedTemplate>();
+    for (const entry of await TemplateCacheService.list()) {
+      if (!latest.has(entry.id)) {
+        latest.set(entry.id, entry);
+      }
+    }
+    return [...latest.values()];
+  }
+
+  /**
+   * Liste les versions en cache d'un template, de la plus récemment mise en cache à la plus ancienne.
+   * @param id Identifiant du template.
+   */
+  public static async versions(id: string): Promise<CachedTemplate[]> {
+    return (await TemplateCacheService.list()).filter(entry => entry.id === id);
+  }
+
+  /**
+   * Chemin de l'archive d'une entrée du cache.
+   * @param entry Entrée du cache.
+   */
+  public static getArchivePath(entry: CachedTemplate): string {
+    return path.join(CACHE_DIR, `${entry.sha256}.zip`);
+  }
+
+  /**
+   * Met à jour la date de dernière utilisation d'une entrée ; un échec n'est pas bloquant.
+   * @param entry Entrée utilisée.
+   */
+  public static async markUsed(entry: CachedTemplate): Promise<void> {
+    try {
+      const index = await TemplateCacheService.loadIndex();
+      const now   = new Date().toISOString();
+      await TemplateCacheService.saveIndex(index.map(other =>
+        other.id === entry.id && other.version === entry.version ? { ...other, lastUsedAt: now } : other
+      ));
+    } catch (error) {
+      logger.debug('Template cache index not updated:', error);
+    }
+  }
+
+  /**
+   * Supprime les anciennes versions du cache, ainsi que les archives qui ne sont plus référencées.
+   * En mode `--dry-run`, les suppressions sont seulement affichées.
+   *
+   * @param options.keep Nombre de versions conservées par template (les plus récentes).
+   * @param options.all  Vide entièrement le cache.
+   * @returns Les entrées supprimées.
+   */
+  public static async prune(options: { keep?: number; all?: boolean } = {}): Promise<CachedTemplate[]> {
+    const keep    = options.all ? 0 : options.keep ?? 1;
+    const kept:    CachedTemplate[] = [];
+    const removed: CachedTemplate[] = [];
+    const perTemplate = new Map<string, number>();
+    for (const entry of await TemplateCacheService.list()) {
+      const count = perTemplate.get(entry.id) ?? 0;
+      (count < keep ? kept : removed).push(entry);
+      perTemplate.set(entry.id, count + 1);
+    }
+
+    const referenced = new Set(kept.map(entry => `${entry.sha256}.zip`));
+    const files = await fs.pathExists(CACHE_DIR) ? await fs.readdir(CACHE_DIR) : [];
+    for (const file of files) {
+      if (file !== path.basename(INDEX_FILE) && !referenced.has(file)) {
+        await removePath(path.join(CACHE_DIR, file));
+      }
+    }
+    if (!isDryRun()) {
+      await TemplateCacheService.saveIndex(kept);
+    }
+    return removed;
+  }
+
+  /**
+   * Lit la version déclarée dans `containers/template.yaml` (à la racine de l'archive
+   * ou dans son dossier principal).
+   */
+  private static readArchiveVersion(zip: AdmZip): string | undefined {
+    const entry = zip.getEntries()
+      .filter(candidate => candidate.entryName === TEMPLATE_CONFIG_ENTRY || candidate.entryName.endsWith(`/${TEMPLATE_CONFIG_ENTRY}`))
+      .sort((a, b) => a.entryName.length - b.entryName.length)[0];
+    if (!entry) {
+      return undefined;
+    }
+    try {
+      const config = yaml.load(entry.getData().toString('utf8')) as { version?: unknown } | undefined;
+      return config?.version !== undefined && config.version !== null ? String(config.version) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Lit l'index du cache ; absent ou illisible, le cache est considéré vide. */
+  private static async loadIndex(): Promise<CachedTemplate[]> {
+    try {
+      const index = await fs.readJSON(INDEX_FILE);
+      return Array.isArray(index) ? index as CachedTemplate[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /** Enregistre l'index du cache. */
+  private static async saveIndex(index: CachedTemplate[]): Promise<void> {
+    await fs.outputJSON(INDEX_FILE, index, { spaces: 2 });
+  }
+}
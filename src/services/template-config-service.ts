@@ -2,10 +2,21 @@ import fs from 'fs-extra';
 import path from 'path';
 import yaml from 'js-yaml';
 import { TemplateConfig, defaultTemplateConfig } from '../types/template-config.js';
+import { TemplateError } from '../errors/app-wizard-errors.js';
+import { ensureDirectory, writeTextFile } from '../utils/operation-utils.js';
+import { logger } from './logger-service.js';
+import { ProjectService } from './project-service.js';
+import { t } from '../i18n/index.js';
 
 export class TemplateConfigService {
-  private static readonly CONTAINERS_DIR = path.join(process.cwd(), 'containers');
-  private static readonly TEMPLATE_FILE = path.join(TemplateConfigService.CONTAINERS_DIR, 'template.yaml');
+  /** Dossier `containers` à la racine du projet. */
+  private static get CONTAINERS_DIR(): string {
+    return path.join(ProjectService.getProjectRoot(), 'containers');
+  }
+
+  private static get TEMPLATE_FILE(): string {
+    return path.join(TemplateConfigService.CONTAINERS_DIR, 'template.yaml');
+  }
 
   /**
    * Charge le fichier template.yaml.
@@ -13,7 +24,7 @@ export class TemplateConfigService {
    */
   static async loadTemplateConfig(): Promise<TemplateConfig> {
     if (!(await fs.pathExists(TemplateConfigService.TEMPLATE_FILE))) {
-      throw new Error(`Fichier template.yaml introuvable dans ${TemplateConfigService.CONTAINERS_DIR}`);
+      throw new TemplateError(t('templateConfig.error.notFound', { dir: TemplateConfigService.CONTAINERS_DIR }));
     }
     const content = await fs.readFile(TemplateConfigService.TEMPLATE_FILE, 'utf8');
     return yaml.load(content) as TemplateConfig;
@@ -29,16 +40,15 @@ export class TemplateConfigService {
     let config: TemplateConfig;
 
     // 1) S'assure que le dossier containers existe
-    await fs.ensureDir(TemplateConfigService.CONTAINERS_DIR);
+    await ensureDirectory(TemplateConfigService.CONTAINERS_DIR);
 
     // 2) Si le fichier n'existe pas, on écrit la config par défaut
     if (!(await fs.pathExists(TemplateConfigService.TEMPLATE_FILE))) {
-      console.warn('⚠️  template.yaml non trouvé, création depuis defaultTemplateConfig.');
+      logger.warn(t('templateConfig.creating'));
       config = defaultTemplateConfig;
-      await fs.writeFile(
+      await writeTextFile(
         TemplateConfigService.TEMPLATE_FILE,
-        yaml.dump(config),
-        'utf8'
+        yaml.dump(config)
       );
       repaired = true;
     } else {
@@ -55,23 +65,22 @@ export class TemplateConfigService {
         ] as const;
         for (const key of required) {
           if (!config[key] || typeof config[key] !== 'string') {
-            throw new Error(`Clé manquante ou invalide : ${key}`);
+            throw new Error(t('templateConfig.error.missingKey', { key }));
           }
         }
       } catch (err) {
-        console.warn(`⚠️  Erreur de lecture/validation de template.yaml (${err}). Réparation.`);
+        logger.warn(t('templateConfig.invalid', { error: String(err) }));
         config = defaultTemplateConfig;
-        await fs.writeFile(
+        await writeTextFile(
           TemplateConfigService.TEMPLATE_FILE,
-          yaml.dump(config),
-          'utf8'
+          yaml.dump(config)
         );
         repaired = true;
       }
     }
 
     if (repaired) {
-      console.warn('⚠️  La configuration du template a été réparée. Veuillez vérifier containers/template.yaml.');
+      logger.warn(t('templateConfig.repaired'));
     }
 
     return config;
@@ -0,0 +1,156 @@
+/**
+ * @module services/template-integrity-service
+ * Vérifie l'intégrité des archives de templates avant leur extraction : taille et empreinte
+ * SHA-256 annoncées par le backend, puis, si une clé publique d'éditeur est configurée
+ * (`templates.publicKey`), signature de l'archive (Ed25519, ou RSA/ECDSA avec SHA-256).
+ */
+
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import type { BackendResponse } from '../types/backend.js';
+import type { ArchiveIntegrity, CachedTemplate, Template } from '../types/template.js';
+import { ConfigService } from './config-service.js';
+import { ConfigError, TemplateError } from '../errors/app-wizard-errors.js';
+import { logger } from './logger-service.js';
+import { t } from '../i18n/index.js';
+
+/** Lit un header de réponse sous forme de chaîne non vide. */
+function header(headers: BackendResponse<unknown>['headers'], name: string): string | undefined {
+  const value = headers[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Normalise une empreinte (`sha256:<hex>` ou `<hex>`) en hexadécimal minuscule. */
+function normalizeSha256(value: string): string {
+  return value.trim().replace(/^sha-?256[:=]/i, '').toLowerCase();
+}
+
+export class TemplateIntegrityService {
+  /** Clés publiques chargées pendant l'exécution, par fichier. */
+  private static publicKeys = new Map<string, crypto.KeyObject>();
+
+  /**
+   * Intégrité annoncée pour une archive : les headers de la réponse de téléchargement
+   * priment sur les métadonnées du template.
+   *
+   * @param template Template téléchargé.
+   * @param headers  Headers de la réponse.
+   */
+  public static expected(template: Template, headers: BackendResponse<unknown>['headers']): ArchiveIntegrity {
+    const sha256    = header(headers, 'x-template-sha256') ?? template.sha256;
+    const signature = header(headers, 'x-template-signature') ?? template.signature;
+    const size      = Number(header(headers, 'content-length'));
+    return {
+      ...(sha256 ? { sha256: normalizeSha256(sha256) } : {}),
+      ...(Number.isInteger(size) && size > 0 ? { size } : {}),
+      ...(signature ? { signature } : {}),
+    };
+  }
+
+  /**
+   * Vérifie une archive téléchargée.
+   * La taille (`content-length`, qui peut porter sur la réponse compressée) ne sert qu'à
+   * signaler une archive tronquée lorsque l'empreinte est absente ou ne correspond pas.
+   * Sans empreinte annoncée, l'intégrité ne peut pas être contrôlée : un avertissement est affiché.
+   *
+   * @param template Template téléchargé.
+   * @param file     Archive reçue.
+   * @param actual   Empreinte et taille calculées à la réception.
+   * @param expected Intégrité annoncée.
+   * @throws TemplateError si l'archive est incomplète, altérée, non signée ou mal signée.
+   * @throws ConfigError si la clé publique configurée est illisible ou invalide.
+   */
+  public static async verifyDownload(
+    template: Template,
+    file: string,
+    actual: { sha256: string; size: number },
+    expected: ArchiveIntegrity
+  ): Promise<void> {
+    const checksumMatches = expected.sha256 !== undefined && actual.sha256 === expected.sha256;
+    if (!checksumMatches && expected.size !== undefined && actual.size < expected.size) {
+      throw new TemplateError(t('fetch.error.truncated', { id: template.id, size: actual.size, expected: expected.size }));
+    }
+    if (!expected.sha256) {
+      logger.warn(t('fetch.noChecksum', { id: template.id }));
+    } else if (!checksumMatches) {
+      throw new TemplateError(t('fetch.error.checksum', { id: template.id, expected: expected.sha256, actual: actual.sha256 }));
+    }
+    await TemplateIntegrityService.verifySignature(template, file, expected.signature);
+  }
+
+  /**
+   * Vérifie une archive du cache avant un déploiement hors ligne : son empreinte doit
+   * toujours correspondre à son nom, et sa signature à la clé publique configurée.
+   *
+   * @param entry Entrée du cache.
+   * @param file  Archive de l'entrée.
+   * @throws TemplateError si l'archive a été modifiée depuis sa mise en cache ou si sa signature est refusée.
+   * @throws ConfigError si la clé publique configurée est illisible ou invalide.
+   */
+  public static async verifyCached(entry: CachedTemplate, file: string): Promise<void> {
+    const hash = crypto.createHash('sha256');
+    await new Promise<void>((resolve, reject) => {
+      fs.createReadStream(file)
+        .on('data', chunk => hash.update(chunk))
+        .on('error', reject)
+        .on('end', resolve);
+    });
+    if (hash.digest('hex') !== entry.sha256) {
+      throw new TemplateError(t('fetch.error.cacheCorrupted', { id: entry.id, version: entry.version }));
+    }
+    await TemplateIntegrityService.verifySignature(entry, file, entry.signature);
+  }
+
+  /**
+   * Vérifie la signature d'une archive si une clé publique d'éditeur est configurée.
+   * @throws TemplateError si la signature est absente ou invalide.
+   */
+  private static async verifySignature(template: Template, file: string, signature: string | undefined): Promise<void> {
+    const keyFile = (await new ConfigService().getConfig()).templates?.publicKey;
+    if (!keyFile) {
+      return;
+    }
+    if (!signature) {
+      throw new TemplateError(t('fetch.error.unsigned', { id: template.id }));
+    }
+
+    const key = TemplateIntegrityService.loadPublicKey(keyFile);
+    // Ed25519/Ed448 signent le message complet ; RSA et ECDSA sont utilisés avec SHA-256
+    const algorithm = key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256';
+    let valid: boolean;
+    try {
+      valid = crypto.verify(algorithm, await fs.readFile(file), key, Buffer.from(signature, 'base64'));
+    } catch (error) {
+      logger.debug('Signature verification failed:', error);
+      valid = false;
+    }
+    if (!valid) {
+      throw new TemplateError(t('fetch.error.signature', { id: template.id }));
+    }
+    logger.debug(`Template ${template.id}: signature verified (${key.asymmetricKeyType})`);
+  }
+
+  /**
+   * Charge la clé publique PEM de l'éditeur.
+   * @throws ConfigError si le fichier est illisible ou ne contient pas de clé publique.
+   */
+  private static loadPublicKey(file: string): crypto.KeyObject {
+    const cached = TemplateIntegrityService.publicKeys.get(file);
+    if (cached) {
+      return cached;
+    }
+    let pem: string;
+    try {
+      pem = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      throw new ConfigError(t('http.error.readFile', { key: 'templates.publicKey', file }), error);
+    }
+    try {
+      const key = crypto.createPublicKey(pem);
+      TemplateIntegrityService.publicKeys.set(file, key);
+      return key;
+    } catch (error) {
+      throw new ConfigError(t('fetch.error.publicKey', { file }), error);
+    }
+  }
+}
@@ -3,6 +3,8 @@
  * Définit les types liés au Service Account et au token dans le CLI.
  */
 
+import type { EncryptedPayload } from '../utils/crypto-utils.js';
+
 /**
  * Credentials bruts d’un Service Account.
  */
@@ -14,7 +16,7 @@ export interface ServiceAccount {
 }
 
 /**
- * Structure interne persistée sur disque.
+ * Structure interne, une fois les secrets déchiffrés.
  */
 export interface StoredServiceAccount extends ServiceAccount {
   /** Token JWT en cache. */
@@ -22,3 +24,68 @@ export interface StoredServiceAccount extends ServiceAccount {
   /** Timestamp (ms) d’expiration du token. */
   expiresAt?: number;
 }
+
+/**
+ * Service Account tel que listé par le backend (sans secret).
+ */
+export interface RemoteServiceAccount {
+  /** Identifiant public du Service Account. */
+  clientId: string;
+  /** Nom donné à la création. */
+  name?: string;
+  /** Date de création (ISO 8601). */
+  createdAt?: string;
+  /** Date de dernière utilisation (ISO 8601). */
+  lastUsedAt?: string;
+}
+
+/**
+ * Informations décodées du token en cache (claims JWT, non vérifiés).
+ */
+export interface TokenInfo {
+  /** Sujet du token (claim `sub`). */
+  subject?: string;
+  /** Scopes accordés (claims `scope`, `scopes` ou `scp`). */
+  scopes: string[];
+  /** Émetteur du token (claim `iss`). */
+  issuer?: string;
+  /** Timestamp (ms) d’émission (claim `iat`). */
+  issuedAt?: number;
+  /** Timestamp (ms) d’expiration (claim `exp`, sinon expiration en cache). */
+  expiresAt?: number;
+  /** Ensemble des claims ; vide si le token n’est pas un JWT. */
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Origine des credentials utilisés, par ordre de priorité :
+ * - env    : variables `APPWIZARD_CLIENT_ID` / `APPWIZARD_CLIENT_SECRET`,
+ * - file   : fichier JSON passé via `--credentials-file`,
+ * - stored : Service Account enregistré pour le profil (`appwizard login`).
+ */
+export type CredentialSource = 'env' | 'file' | 'stored';
+
+/**
+ * Source de la clé de chiffrement des secrets stockés.
+ * - machine    : clé aléatoire stockée dans `~/.appwizard/master.key`.
+ * - passphrase : clé dérivée d'une passphrase (stockage « verrouillé »).
+ */
+export type KeySource = 'machine' | 'passphrase';
+
+/**
+ * Format du fichier `service-account.json`.
+ * Seuls l'identifiant public et l'expiration du token restent en clair ;
+ * `clientSecret` et `accessToken` sont chiffrés dans `secrets`.
+ */
+export interface ServiceAccountFile {
+  /** Identifiant public du Service Account. */
+  clientId: string;
+  /** Timestamp (ms) d’expiration du token en cache. */
+  expiresAt?: number;
+  /** Source de la clé de chiffrement. */
+  keySource: KeySource;
+  /** Sel de dérivation (base64), pour `keySource: 'passphrase'`. */
+  salt?: string;
+  /** `{ clientSecret, accessToken }` chiffrés. */
+  secrets: EncryptedPayload;
+}
@@ -0,0 +1,88 @@
+/**
+ * @module types/backend
+ * Définit les requêtes et réponses du client HTTP du backend, et les options réseau communes.
+ */
+
+import type { Agent as HttpAgent } from 'http';
+import type { Agent as HttpsAgent } from 'https';
+import type { AppWizardError } from '../errors/app-wizard-errors.js';
+
+/**
+ * Requête vers le backend.
+ */
+export interface BackendRequest {
+  /** Méthode HTTP (GET par défaut). */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Chemin relatif à `backendUrl` (ex. `/app-templates`). */
+  path: string;
+  /** Corps de la requête, envoyé en JSON. */
+  data?: unknown;
+  /** `stream` pour les téléchargements ; JSON par défaut. */
+  responseType?: 'json' | 'stream';
+  /** Description de l'opération, préfixée aux messages d'erreur. */
+  context: string;
+  /** Ajoute le token du Service Account (vrai par défaut). */
+  auth?: boolean;
+  /** Profil dont les endpoints et le Service Account sont utilisés (profil actif par défaut). */
+  profile?: string;
+  /** Erreur levée si la ressource est introuvable (404) ; `NetworkError` par défaut. */
+  notFoundError?: new (message: string, cause?: unknown) => AppWizardError;
+  /** Vérifie la compatibilité de la version du CLI avant l'appel (vrai par défaut). */
+  versionCheck?: boolean;
+  /** Réessaie sur 5xx ou erreur réseau (vrai par défaut). */
+  retry?: boolean;
+}
+
+/**
+ * Options réseau d'une requête axios : délai, proxy et agents TLS issus de la section `network`.
+ */
+export interface HttpRequestOptions {
+  timeout: number;
+  /** Proxy des cibles `http:` ; `false` si aucun (les cibles `https:` passent par `httpsAgent`). */
+  proxy: false | { protocol: string; host: string; port: number; auth?: { username: string; password: string } };
+  httpAgent?: HttpAgent;
+  httpsAgent?: HttpsAgent;
+}
+
+/**
+ * Réponse du backend (statut 2xx/3xx).
+ */
+export interface BackendResponse<T> {
+  status: number;
+  headers: Record<string, unknown>;
+  data: T;
+}
+
+/**
+ * Réponse de `GET /version` : versions du CLI acceptées par le backend.
+ */
+export interface VersionInfo {
+  /** Version du backend. */
+  backendVersion?: string;
+  /** Version minimale du CLI ; en dessous, les appels sont refusés. */
+  minFrontendVersion?: string;
+  /** Dernière version publiée du CLI. */
+  latestFrontendVersion?: string;
+}
+
+/**
+ * Résultat de la vérification de compatibilité :
+ * - compatible  : version à jour,
+ * - outdated    : version acceptée mais une plus récente existe,
+ * - unsupported : version refusée, mise à jour requise,
+ * - unknown     : le backend n'expose pas `/version`.
+ */
+export type CompatibilityStatus = 'compatible' | 'outdated' | 'unsupported' | 'unknown';
+
+/**
+ * Vérification mise en cache pour un profil (`~/.appwizard/cache/compatibility.json`).
+ */
+export interface CompatibilityCheck extends VersionInfo {
+  status: CompatibilityStatus;
+  /** Date de la vérification (ISO 8601). */
+  checkedAt: string;
+  /** Backend interrogé ; la vérification est refaite s'il change. */
+  backendUrl: string;
+  /** Version du CLI vérifiée ; la vérification est refaite si elle change. */
+  frontendVersion: string;
+}
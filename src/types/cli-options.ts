@@ -0,0 +1,155 @@
+/**
+ * @module types/cli-options
+ * Définit les options passées en ligne de commande aux commandes du CLI,
+ * permettant leur exécution sans interaction (CI, scripts).
+ */
+
+import type { Environment } from '../services/docker-compose-service.js';
+import type { Locale } from '../i18n/index.js';
+
+/**
+ * Type de nettoyage à effectuer avant un build.
+ * - none   : aucun nettoyage.
+ * - normal : vide les dossiers de déploiement et les fichiers de signalisation.
+ * - forced : nettoyage normal suivi d'un nettoyage Docker forcé.
+ */
+export type CleanMode = 'none' | 'normal' | 'forced';
+
+/**
+ * Options de la commande `appwizard build`.
+ */
+export interface BuildCommandOptions {
+  /** Environnement de build. */
+  env?: Environment;
+  /** Nettoyage à effectuer avant le build. */
+  clean?: CleanMode;
+  /** Accepte automatiquement les corrections proposées. */
+  yes?: boolean;
+}
+
+/**
+ * Options de la commande `appwizard clean`.
+ */
+export interface CleanCommandOptions {
+  /** Type de nettoyage. */
+  mode?: Exclude<CleanMode, 'none'>;
+}
+
+/**
+ * Options de la commande `appwizard dev-run`.
+ */
+export interface DevRunCommandOptions {
+  /** Effectue (true) ou non (false) un build avant le run. */
+  build?: boolean;
+  /** Nettoyage à effectuer avant le build pré-run. */
+  clean?: CleanMode;
+}
+
+/**
+ * Action de la commande `appwizard monitor` sur un conteneur.
+ */
+export type MonitorAction = 'restart' | 'rebuild' | 'stop' | 'logs' | 'inspect';
+
+/**
+ * Options de la commande `appwizard create`.
+ */
+export interface CreateCommandOptions {
+  /** Identifiant du template à utiliser. */
+  template?: string;
+  /** Version du template à déployer (dernière version par défaut). */
+  templateVersion?: string;
+  /** Utilise uniquement les templates du cache local, sans appeler le backend. */
+  offline?: boolean;
+}
+
+/**
+ * Options de la commande `appwizard template cache prune`.
+ */
+export interface TemplateCachePruneOptions {
+  /** Nombre de versions conservées par template (1 par défaut). */
+  keep?: number;
+  /** Vide entièrement le cache. */
+  all?: boolean;
+}
+
+/**
+ * Options de la commande `appwizard login`.
+ */
+export interface LoginCommandOptions {
+  /** Vérifie les credentials des variables d'environnement, sans rien enregistrer. */
+  fromEnv?: boolean;
+}
+
+/**
+ * Options des commandes `appwizard config get` et `appwizard config list`.
+ */
+export interface ConfigShowOptions {
+  /** Affiche la couche d'où provient chaque valeur. */
+  showOrigin?: boolean;
+}
+
+/**
+ * Options des commandes `appwizard config set` et `appwizard config unset`.
+ */
+export interface ConfigWriteOptions {
+  /** Modifie le fichier `.appwizard` du projet au lieu du fichier global. */
+  project?: boolean;
+}
+
+/**
+ * Options de la commande `appwizard deploy`.
+ */
+export interface DeployCommandOptions {
+  /** Confirme le déploiement sans demander. */
+  yes?: boolean;
+}
+
+/**
+ * Options de la commande `appwizard credentials list`.
+ */
+export interface CredentialsListOptions {
+  /** Liste les Service Accounts du backend au lieu des profils locaux. */
+  remote?: boolean;
+}
+
+/**
+ * Options de la commande `appwizard credentials revoke`.
+ */
+export interface CredentialsRevokeOptions {
+  /** Confirme la révocation sans demander. */
+  yes?: boolean;
+}
+
+/**
+ * Options de la commande `appwizard credentials remove`.
+ */
+export interface CredentialsRemoveOptions {
+  /** Confirme la suppression sans demander. */
+  yes?: boolean;
+}
+
+/**
+ * Options globales, communes à toutes les commandes.
+ */
+export interface GlobalOptions {
+  /** Émet un document JSON structuré au lieu du texte coloré. */
+  json?: boolean;
+  /** Affiche les messages de diagnostic (niveau debug). */
+  verbose?: boolean;
+  /** N'affiche que les avertissements et les erreurs. */
+  quiet?: boolean;
+  /** Fichier recevant l'ensemble des messages de log. */
+  logFile?: string;
+  /** Liste les commandes, suppressions et réécritures sans les exécuter. */
+  dryRun?: boolean;
+  /** Répertoire de départ pour la recherche de la racine du projet. */
+  cwd?: string;
+  /** Langue des messages (prioritaire sur la configuration et `LANG`). */
+  lang?: Locale;
+  /** Profil d'authentification (endpoints et Service Account) à utiliser. */
+  profile?: string;
+  /** Fichier JSON de Service Account utilisé à la place du Service Account enregistré. */
+  credentialsFile?: string;
+  /** Surcharges de configuration `clé=valeur` pour l'invocation courante. */
+  config?: string[];
+}
@@ -0,0 +1,53 @@
+/**
+ * @module types/plugin
+ * Contrat des plugins de commandes chargés depuis le projet :
+ * fichiers `containers/appwizard-plugins/*.js` ou paquets npm listés
+ * dans la clé `plugins` de `containers/template.yaml`.
+ */
+
+import type { Command } from 'commander';
+import type { TemplateConfig } from './template-config.js';
+import type { ServiceConfigManager } from '../services/service-config-manager.js';
+import type { AuthService } from '../services/auth-service.js';
+import type { LoggerService } from '../services/logger-service.js';
+
+/**
+ * Contexte transmis à un plugin lors de son enregistrement.
+ */
+export interface PluginContext {
+  /** Racine du projet appwizard. */
+  root: string;
+  /** Configuration du template (`containers/template.yaml`). */
+  templateConfig: TemplateConfig;
+  /** Accès aux configurations des services Docker Compose. */
+  serviceConfigManager: typeof ServiceConfigManager;
+  /** Service Account et token d'accès au backend. */
+  authService: AuthService;
+  /** Logger du CLI (respecte `--verbose`, `--quiet`, `--log-file` et masque les secrets). */
+  logger: LoggerService;
+}
+
+/**
+ * Plugin appwizard, exporté par défaut par le module du plugin.
+ *
+ * @example
+ * export default {
+ *   name: 'fixtures',
+ *   register(program, { root, logger }) {
+ *     program
+ *       .command('seed')
+ *       .description('Charge les fixtures de développement')
+ *       .action(async () => { logger.info(`Seed depuis ${root}`); });
+ *   },
+ * };
+ */
+export interface AppWizardPlugin {
+  /** Nom du plugin, utilisé dans les messages d'erreur. */
+  name?: string;
+  /**
+   * Déclare les commandes du plugin.
+   * @param program Commande racine du CLI.
+   * @param context Contexte du projet.
+   */
+  register(program: Command, context: PluginContext): void | Promise<void>;
+}
@@ -0,0 +1,25 @@
+/**
+ * @module types/profile
+ * Définit les profils d'authentification : chaque profil associe des endpoints
+ * à un Service Account (et à son token en cache).
+ */
+
+import type { EndpointsConfig } from './cli-config.js';
+
+/**
+ * Configuration d'un profil.
+ */
+export interface ProfileConfig {
+  /** Endpoints du profil ; à défaut, ceux de la configuration CLI. */
+  endpoints?: Partial<EndpointsConfig>;
+}
+
+/**
+ * Format du fichier `~/.appwizard/profiles.json`.
+ */
+export interface ProfilesFile {
+  /** Profil utilisé en l'absence de `--profile`. */
+  current: string;
+  /** Profils connus, indexés par nom. */
+  profiles: Record<string, ProfileConfig>;
+}
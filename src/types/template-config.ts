@@ -23,6 +23,9 @@ export interface TemplateConfig {
   // Commandes « run »
   runDevCommand: string;
   runProdCommand: string;
+
+  // Paquets npm fournissant des commandes supplémentaires (plugins)
+  plugins?: string[];
 }
 
 /**
@@ -1,6 +1,8 @@
 /**
  * @module types/template
- * Définition du type renvoyé par le backend pour un template.
+ * Définition des types renvoyés par le backend pour un template et ses versions,
+ * des informations d'intégrité de ses archives, des templates conservés dans le cache local
+ * et du template d'origine enregistré dans un projet.
  */
 
 /**
@@ -13,4 +15,117 @@ export interface Template {
   name: string;
   /** Description (optionnelle) */
   description?: string;
+  /** Version courante (si exposée par l'API) */
+  version?: string;
+  /** Empreinte SHA-256 (hexadécimale) de l'archive courante (si exposée par l'API) */
+  sha256?: string;
+  /** Signature de l'archive courante par l'éditeur, en base64 (si exposée par l'API) */
+  signature?: string;
+}
+
+/**
+ * Version publiée d'un template (`GET /app-templates/{id}/versions`).
+ */
+export interface TemplateVersion {
+  /** Numéro de version */
+  version: string;
+  /** Date de publication (ISO 8601), si exposée par l'API */
+  publishedAt?: string;
+  /** Notes de version, si exposées par l'API */
+  description?: string;
+  /** Empreinte SHA-256 (hexadécimale) de l'archive de cette version */
+  sha256?: string;
+  /** Signature de l'archive de cette version par l'éditeur, en base64 */
+  signature?: string;
+}
+
+/**
+ * Template d'origine d'un projet, enregistré dans `.appwizard` par `appwizard create`
+ * pour recréer la même base (`--template <id> --template-version <version>`).
+ */
+export interface TemplateOrigin {
+  /** Identifiant du template */
+  id: string;
+  /** Version déployée */
+  version: string;
+  /** Empreinte SHA-256 de l'archive déployée */
+  sha256?: string;
+  /** Date de création du projet (ISO 8601) */
+  createdAt?: string;
+}
+
+/**
+ * Intégrité annoncée pour une archive téléchargée : headers `x-template-sha256`,
+ * `x-template-signature` et `content-length`, à défaut métadonnées du template.
+ */
+export interface ArchiveIntegrity {
+  /** Empreinte SHA-256 attendue, en hexadécimal */
+  sha256?: string;
+  /** Taille attendue en octets */
+  size?: number;
+  /** Signature de l'archive (octets du ZIP) en base64 */
+  signature?: string;
+}
+
+/**
+ * Template conservé dans le cache local (`~/.appwizard/cache/templates`),
+ * utilisable par `appwizard create --offline`.
+ */
+export interface CachedTemplate extends Template {
+  /** Version de l'archive (API, header `x-template-version` ou `containers/template.yaml`) */
+  version: string;
+  /** Empreinte SHA-256 de l'archive, qui lui sert de nom de fichier */
+  sha256: string;
+  /** Taille de l'archive en octets */
+  size: number;
+  /** Signature de l'archive, conservée pour la vérifier à nouveau lors d'un déploiement hors ligne */
+  signature?: string;
+  /** Date de mise en cache (ISO 8601) */
+  cachedAt: string;
+  /** Date de dernière utilisation (ISO 8601) */
+  lastUsedAt: string;
+}
+
+/**
+ * Limites appliquées à l'extraction d'une archive de template.
+ */
+export interface ExtractionLimits {
+  /** Nombre maximal d'entrées (fichiers, dossiers et liens) */
+  maxEntries: number;
+  /** Taille décompressée maximale d'un fichier, en octets */
+  maxFileSize: number;
+  /** Taille décompressée totale maximale, en octets */
+  maxTotalSize: number;
+}
+
+/**
+ * Fichier (ou lien symbolique) qu'une extraction écrira dans le dossier cible.
+ */
+export interface PlannedFile {
+  /** Nom de l'entrée dans l'archive */
+  entryName: string;
+  /** Chemin relatif au dossier cible (séparateurs `/`) */
+  path: string;
+  /** Taille décompressée en octets */
+  size: number;
+  /** Un fichier existant sera remplacé */
+  overwrite: boolean;
+  /** Cible du lien, pour un lien symbolique (toujours interne au dossier cible) */
+  symlink?: string;
+  /** Permissions Unix conservées (hors bits spéciaux), si l'archive les indique */
+  mode?: number;
+}
+
+/**
+ * Plan d'extraction d'une archive, établi après le contrôle de toutes ses entrées.
+ */
+export interface ExtractionPlan {
+  /** Dossier cible (chemin absolu) */
+  targetDir: string;
+  /** Dossiers à créer, relatifs au dossier cible */
+  directories: string[];
+  /** Fichiers à écrire, dans l'ordre de l'archive */
+  files: PlannedFile[];
+  /** Taille décompressée totale, en octets */
+  totalSize: number;
 }
@@ -0,0 +1,22 @@
+import type { GlobalOptions } from '../types/cli-options.js';
+
+/**
+ * Options globales de l'invocation courante, renseignées par `cli.ts`
+ * avant l'exécution de la commande.
+ */
+let globalOptions: GlobalOptions = {};
+
+/**
+ * Enregistre les options globales de l'invocation courante.
+ * @param options Options globales parsées par commander.
+ */
+export function setGlobalOptions(options: GlobalOptions): void {
+  globalOptions = { ...options };
+}
+
+/**
+ * Retourne les options globales de l'invocation courante.
+ */
+export function getGlobalOptions(): GlobalOptions {
+  return globalOptions;
+}
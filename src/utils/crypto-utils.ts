@@ -0,0 +1,71 @@
+/**
+ * @module utils/crypto-utils
+ * Chiffrement symétrique des secrets stockés sur disque (AES-256-GCM)
+ * et dérivation de clé depuis une passphrase (scrypt).
+ */
+
+import crypto from 'crypto';
+
+const ALGORITHM  = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH  = 12;
+
+/**
+ * Donnée chiffrée, sérialisable en JSON (valeurs encodées en base64).
+ */
+export interface EncryptedPayload {
+  /** Vecteur d'initialisation, unique pour chaque chiffrement. */
+  iv: string;
+  /** Tag d'authentification GCM. */
+  tag: string;
+  /** Texte chiffré. */
+  data: string;
+}
+
+/**
+ * Génère une clé aléatoire (clé machine) ou un sel.
+ * @param length Taille en octets (taille d'une clé AES-256 par défaut).
+ */
+export function randomBytes(length: number = KEY_LENGTH): Buffer {
+  return crypto.randomBytes(length);
+}
+
+/**
+ * Dérive une clé de chiffrement d'une passphrase.
+ * @param passphrase Passphrase saisie par l'utilisateur.
+ * @param salt       Sel associé au fichier chiffré.
+ */
+export function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+}
+
+/**
+ * Chiffre une chaîne.
+ * @param plaintext Texte à chiffrer.
+ * @param key       Clé de 32 octets.
+ */
+export function encrypt(plaintext: string, key: Buffer): EncryptedPayload {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    iv:   iv.toString('base64'),
+    tag:  cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Déchiffre une donnée produite par {@link encrypt}.
+ * @param payload Donnée chiffrée.
+ * @param key     Clé de 32 octets.
+ * @throws Error si la clé est incorrecte ou si la donnée a été altérée.
+ */
+export function decrypt(payload: EncryptedPayload, key: Buffer): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,92 @@
+/**
+ * Nombre de lignes de contexte affichées autour de chaque modification.
+ */
+const CONTEXT_LINES = 3;
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+/**
+ * Calcule la suite d'opérations (ligne conservée, supprimée ou ajoutée)
+ * transformant `before` en `after`, via la plus longue sous-séquence commune.
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const n = before.length;
+  const m = after.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      lines.push({ op: ' ', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: '-', text: before[i++] });
+    } else {
+      lines.push({ op: '+', text: after[j++] });
+    }
+  }
+  while (i < n) lines.push({ op: '-', text: before[i++] });
+  while (j < m) lines.push({ op: '+', text: after[j++] });
+  return lines;
+}
+
+/**
+ * Produit un diff unifié (format `diff -u`) entre deux contenus texte.
+ *
+ * @param filePath Chemin affiché dans l'en-tête du diff.
+ * @param before   Contenu actuel (vide si le fichier n'existe pas).
+ * @param after    Nouveau contenu.
+ * @returns Le diff, ou une chaîne vide si les contenus sont identiques.
+ */
+export function unifiedDiff(filePath: string, before: string, after: string): string {
+  if (before === after) {
+    return '';
+  }
+  const lines = diffLines(before.split(/\r?\n/), after.split(/\r?\n/));
+  const output = [`--- a/${filePath}`, `+++ b/${filePath}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Recherche de la prochaine modification
+    while (index < lines.length && lines[index].op === ' ') index++;
+    if (index >= lines.length) break;
+
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    // Étend le bloc tant que les modifications sont proches
+    while (end < lines.length) {
+      if (lines[end].op !== ' ') {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < lines.length && lines[next].op === ' ') next++;
+      if (next < lines.length && next - end <= CONTEXT_LINES * 2) {
+        end = next;
+      } else {
+        end = Math.min(lines.length, end + CONTEXT_LINES);
+        break;
+      }
+    }
+
+    const hunk = lines.slice(start, end);
+    const oldStart = lines.slice(0, start).filter(l => l.op !== '+').length + 1;
+    const newStart = lines.slice(0, start).filter(l => l.op !== '-').length + 1;
+    const oldCount = hunk.filter(l => l.op !== '+').length;
+    const newCount = hunk.filter(l => l.op !== '-').length;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach(l => output.push(`${l.op}${l.text}`));
+    index = end;
+  }
+  return output.join('\n');
+}
@@ -1,6 +1,8 @@
 import fs from 'fs-extra';
 import path from 'path';
 import yaml from 'js-yaml';
+import { TemplateError } from '../errors/app-wizard-errors.js';
+import { t } from '../i18n/index.js';
 
 interface ComposeService {
   name: string;
@@ -18,7 +20,7 @@ interface ComposeService {
  */
 export async function deduceDeploymentOrder(composePath: string): Promise<string[]> {
   if (!(await fs.pathExists(composePath))) {
-    throw new Error(`Fichier ${composePath} introuvable.`);
+    throw new TemplateError(t('compose.error.fileMissing', { file: composePath }));
   }
   const content = await fs.readFile(composePath, 'utf8');
   const composeData: any = yaml.load(content);
@@ -64,7 +66,7 @@ export async function deduceDeploymentOrder(composePath: string): Promise<string
   }
 
   if (order.length !== services.length) {
-    throw new Error("Cycle détecté ou ordre de déploiement incomplet.");
+    throw new TemplateError(t('compose.error.cycle'));
   }
   return order;
 }
@@ -3,6 +3,9 @@ import * as path from "path";
 import prompts from "prompts";
 import chalk from "chalk";
 import { loadEnvConfig, writeEnv } from "./env-utils.js";
+import { ConfigError } from "../errors/app-wizard-errors.js";
+import { logger } from "../services/logger-service.js";
+import { t } from "../i18n/index.js";
 
 /**
  * Retourne true si POSTGRES_USER, POSTGRES_PASSWORD et POSTGRES_DB
@@ -19,10 +22,11 @@ export async function hasDbCredentialsInEnv(): Promise<boolean> {
 
 /**
  * Invite l'utilisateur à saisir POSTGRES_USER / POSTGRES_PASSWORD / POSTGRES_DB
- * et les enregistre dans .env.prod. En cas de saisie incomplète, quitte le process.
+ * et les enregistre dans .env.prod.
+ * @throws ConfigError en cas de saisie incomplète.
  */
 export async function promptAndStoreDbCredentials(): Promise<void> {
-  console.log(chalk.yellow("\n⚙️  Configuration des identifiants DB manquants dans .env.prod"));
+  logger.info(chalk.yellow(t('dbCredentials.title')));
 
   // Charge l'existant (pour préserver les autres clés)
   const env = await loadEnvConfig();
@@ -32,26 +36,25 @@ export async function promptAndStoreDbCredentials(): Promise<void> {
     {
       type: "text",
       name: "POSTGRES_USER",
-      message: "Nom d'utilisateur PostgreSQL",
+      message: t('dbCredentials.user'),
       initial: env.POSTGRES_USER || "",
     },
     {
       type: "password",
       name: "POSTGRES_PASSWORD",
-      message: "Mot de passe PostgreSQL",
+      message: t('dbCredentials.password'),
     },
     {
       type: "text",
       name: "POSTGRES_DB",
-      message: "Nom de la base de données (POSTGRES_DB)",
+      message: t('dbCredentials.database'),
       initial: env.POSTGRES_DB || "",
     }
   ]);
 
   // Validation basique
   if (!responses.POSTGRES_USER || !responses.POSTGRES_PASSWORD || !responses.POSTGRES_DB) {
-    console.error(chalk.red("✖ Toutes les informations DB sont requises. Abandon."));
-    process.exit(1);
+    throw new ConfigError(t('dbCredentials.error.incomplete'));
   }
 
   // Mise à jour et sauvegarde
@@ -60,5 +63,5 @@ export async function promptAndStoreDbCredentials(): Promise<void> {
   env.POSTGRES_DB       = responses.POSTGRES_DB;
 
   await writeEnv(env);
-  console.log(chalk.green("✓ .env.prod mis à jour avec les credentials DB."));
+  logger.info(chalk.green(t('dbCredentials.saved')));
 }
\ No newline at end of file
@@ -1,7 +1,16 @@
 import fs from "fs-extra";
 import * as path from "path";
+import { ConfigError } from "../errors/app-wizard-errors.js";
+import { writeTextFile } from "./operation-utils.js";
+import { ProjectService } from "../services/project-service.js";
+import { t } from "../i18n/index.js";
 
-const ENV_PATH = path.join(process.cwd(), ".env.prod");
+/**
+ * Chemin du fichier .env.prod, à la racine du projet.
+ */
+function getEnvPath(): string {
+  return path.join(ProjectService.getProjectRoot(), ".env.prod");
+}
 
 /* ────────────────────────────────────────────────────────────────────────────
    SECTION 1: Chargement de l’environnement (.env.prod)
@@ -12,9 +21,9 @@ const ENV_PATH = path.join(process.cwd(), ".env.prod");
  * contenant les paires clé/valeur.
  */
 export async function loadEnvConfig(): Promise<Record<string, string>> {
-    const envPath = path.join(process.cwd(), ".env.prod");
+    const envPath = getEnvPath();
     if (!(await fs.pathExists(envPath))) {
-      throw new Error(`Le fichier .env.prod est introuvable dans ${process.cwd()}`);
+      throw new ConfigError(t('env.error.prodMissing', { dir: ProjectService.getProjectRoot() }));
     }
     const content = await fs.readFile(envPath, "utf8");
     const config: Record<string, string> = {};
@@ -38,5 +47,5 @@ export async function writeEnv(env: Record<string,string>): Promise<void> {
     const text = Object.entries(env)
       .map(([k,v]) => `${k}=${v}`)
       .join("\n");
-    await fs.writeFile(ENV_PATH, text, "utf8");
+    await writeTextFile(getEnvPath(), text);
   }
\ No newline at end of file
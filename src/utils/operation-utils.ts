@@ -0,0 +1,116 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { execSync, ExecSyncOptions } from 'child_process';
+import { getGlobalOptions } from './cli-context.js';
+import { unifiedDiff } from './diff-utils.js';
+import { logger } from '../services/logger-service.js';
+import { ProjectService } from '../services/project-service.js';
+import { t } from '../i18n/index.js';
+
+/* ────────────────────────────────────────────────────────────────────────────
+   Opérations à effet de bord (commandes shell, suppressions, écritures).
+   En mode --dry-run, elles sont listées au lieu d'être exécutées.
+───────────────────────────────────────────────────────────────────────────── */
+
+/**
+ * Indique si le CLI est en mode simulation (`--dry-run`).
+ */
+export function isDryRun(): boolean {
+  return Boolean(getGlobalOptions().dryRun);
+}
+
+/**
+ * Affiche une opération qui serait effectuée hors du mode --dry-run.
+ * @param message Description de l'opération.
+ */
+export function printDryRun(message: string): void {
+  logger.info(chalk.cyan(`[dry-run] ${message}`));
+}
+
+/**
+ * Exécute une commande shell (sortie héritée du terminal par défaut).
+ * En mode --dry-run, la commande est seulement affichée.
+ *
+ * @param command Commande à exécuter.
+ * @param options Options passées à `execSync`.
+ */
+export function runCommand(command: string, options: ExecSyncOptions = {}): void {
+  if (isDryRun()) {
+    printDryRun(`$ ${options.cwd ? `(cd ${options.cwd}) ` : ''}${command}`);
+    return;
+  }
+  execSync(command, { stdio: 'inherit', ...options });
+}
+
+/**
+ * Supprime un fichier ou un dossier (récursivement).
+ * En mode --dry-run, la suppression est seulement affichée.
+ *
+ * @param target Chemin à supprimer.
+ */
+export async function removePath(target: string): Promise<void> {
+  if (isDryRun()) {
+    printDryRun(t('dryRun.removal', { path: target }));
+    return;
+  }
+  await fs.remove(target);
+}
+
+/**
+ * Vide le contenu d'un dossier sans supprimer le dossier lui-même.
+ * En mode --dry-run, chaque entrée qui serait supprimée est affichée.
+ *
+ * @param dirPath Dossier à vider.
+ */
+export async function emptyDirectory(dirPath: string): Promise<void> {
+  if (isDryRun()) {
+    const entries = await fs.readdir(dirPath);
+    if (entries.length === 0) {
+      printDryRun(t('dryRun.alreadyEmpty', { path: dirPath }));
+    }
+    entries.forEach(entry => printDryRun(t('dryRun.removal', { path: path.join(dirPath, entry) })));
+    return;
+  }
+  await fs.emptyDir(dirPath);
+}
+
+/**
+ * Crée un dossier (et ses parents) s'il n'existe pas.
+ * En mode --dry-run, la création est seulement affichée.
+ *
+ * @param dirPath Dossier à créer.
+ */
+export async function ensureDirectory(dirPath: string): Promise<void> {
+  if (isDryRun()) {
+    if (!(await fs.pathExists(dirPath))) {
+      printDryRun(t('dryRun.mkdir', { path: dirPath }));
+    }
+    return;
+  }
+  await fs.ensureDir(dirPath);
+}
+
+/**
+ * Écrit (ou réécrit) un fichier texte.
+ * En mode --dry-run, le diff entre le contenu actuel et le nouveau contenu est affiché.
+ *
+ * @param filePath Fichier à écrire.
+ * @param content  Nouveau contenu.
+ */
+export async function writeTextFile(filePath: string, content: string): Promise<void> {
+  if (isDryRun()) {
+    const exists = await fs.pathExists(filePath);
+    const current = exists ? await fs.readFile(filePath, 'utf8') : '';
+    // chemins relatifs au dossier de travail du CLI (`--cwd`), pas à celui du shell
+    const diff = unifiedDiff(path.relative(ProjectService.getWorkingDirectory(), filePath), current, content);
+    if (!diff) {
+      printDryRun(t('dryRun.unchanged', { path: filePath }));
+      return;
+    }
+    printDryRun(t(exists ? 'dryRun.rewrite' : 'dryRun.create', { path: filePath }));
+    logger.info(diff);
+    return;
+  }
+  await fs.writeFile(filePath, content, 'utf8');
+}
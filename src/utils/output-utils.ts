@@ -0,0 +1,16 @@
+import { getGlobalOptions } from './cli-context.js';
+
+/**
+ * Indique si la sortie doit être émise au format JSON (`--json`).
+ */
+export function isJsonMode(): boolean {
+  return Boolean(getGlobalOptions().json);
+}
+
+/**
+ * Écrit un document JSON unique sur la sortie standard.
+ * @param data Document à sérialiser.
+ */
+export function printJson(data: unknown): void {
+  process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+}
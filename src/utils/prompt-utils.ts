@@ -0,0 +1,50 @@
+import prompts from 'prompts';
+import { UsageError } from '../errors/app-wizard-errors.js';
+import { t } from '../i18n/index.js';
+
+/**
+ * Indique si le CLI peut interagir avec l'utilisateur (stdin et stdout sont des terminaux).
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/**
+ * Retourne la valeur d'une option si elle a été fournie en ligne de commande,
+ * sinon la demande à l'utilisateur via `ask`.
+ * En contexte non interactif, une option manquante provoque une erreur explicite
+ * au lieu de bloquer sur un prompt.
+ *
+ * @param value Valeur fournie en ligne de commande (ou undefined).
+ * @param flag  Nom du flag correspondant, utilisé dans le message d'erreur.
+ * @param ask   Fonction de saisie interactive.
+ * @throws UsageError si la valeur est absente et que le terminal n'est pas interactif.
+ */
+export async function resolveOption<T>(
+  value: T | undefined,
+  flag: string,
+  ask: () => Promise<T | undefined>
+): Promise<T | undefined> {
+  if (value !== undefined) {
+    return value;
+  }
+  if (!isInteractive()) {
+    throw new UsageError(t('prompt.optionRequired', { flag }));
+  }
+  return ask();
+}
+
+/**
+ * Met en pause le script pour laisser l'utilisateur lire les résultats.
+ * Sans effet en mode non interactif.
+ */
+export async function pause(): Promise<void> {
+  if (!isInteractive()) {
+    return;
+  }
+  await prompts({
+    type: 'text',
+    name: 'pause',
+    message: t('common.pressEnter'),
+  });
+}
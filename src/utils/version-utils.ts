@@ -0,0 +1,47 @@
+import fs from 'fs-extra';
+import { fileURLToPath } from 'url';
+
+/**
+ * Lit le `package.json` du CLI (à la racine du paquet, au-dessus de `dist/`).
+ */
+function readPackageJson(): { name?: string; version?: string } {
+  try {
+    return fs.readJSONSync(fileURLToPath(new URL('../../package.json', import.meta.url)));
+  } catch {
+    return {};
+  }
+}
+
+const packageJson = readPackageJson();
+
+/** Nom du paquet npm du CLI (commande de mise à jour). */
+export const CLI_PACKAGE = packageJson.name ?? 'app-wizard-cli';
+
+/** Version du CLI, envoyée au backend dans le header `x-frontend-version`. */
+export const CLI_VERSION = packageJson.version ?? '0.0.0';
+
+/**
+ * Compare deux versions `majeur.mineur.correctif` (suffixe de pré-version toléré,
+ * une pré-version précédant la version finale).
+ *
+ * @returns Un nombre négatif si `a < b`, positif si `a > b`, 0 si elles sont égales.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [coreA, preA] = a.trim().replace(/^v/, '').split('-', 2);
+  const [coreB, preB] = b.trim().replace(/^v/, '').split('-', 2);
+  const partsA = coreA.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = coreB.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  if (preA === preB) {
+    return 0;
+  }
+  if (preA === undefined || preB === undefined) {
+    return preA === undefined ? 1 : -1;
+  }
+  return preA < preB ? -1 : 1;
+}